@@ -1,18 +1,58 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { ImageUploader } from './components/ImageUploader';
 import { ResultEditor } from './components/ResultEditor';
-import { extractTextFromImage } from './services/geminiService';
-import { ScanText, Sparkles, Moon, Sun, Download, Settings, ChevronDown, ChevronUp, Key, X, Save, Globe, Type, ExternalLink, Github, Zap, BarChart, Info } from 'lucide-react';
+import { BatchQueue } from './components/BatchQueue';
+import { HistorySidebar } from './components/HistorySidebar';
+import { PreprocessingPanel } from './components/PreprocessingPanel';
+import { RegionSelector } from './components/RegionSelector';
+import { PerspectiveEditor } from './components/PerspectiveEditor';
+import { ApiKeyManager } from './components/ApiKeyManager';
+import { KeyEncryptionSettings } from './components/KeyEncryptionSettings';
+import { UnlockKeysDialog } from './components/UnlockKeysDialog';
+import { NormalizerPanel } from './components/NormalizerPanel';
+import { PostProcessingPanel } from './components/PostProcessingPanel';
+import { extractTextFromImage, extractStructuredTextFromImage, extractTablesFromImage, ExtractionOptions, ExtractionProgress } from './services/geminiService';
+import { OcrError, EmptyResultError, KeysLockedError } from './services/ocrErrors';
+import { listProviders, DEFAULT_PROVIDER_SETTINGS, createExtractionMeta } from './services/providerRegistry';
+import { listHistoryEntries, saveHistoryEntry, updateHistoryText, deleteHistoryEntry, clearHistory } from './services/historyStore';
+import { ScanText, Sparkles, Moon, Sun, Download, Settings, ChevronDown, ChevronUp, Key, X, Save, Globe, Type, ExternalLink, Github, Zap, BarChart, Info, Cpu, LayoutTemplate, History, Crop, Scan, Rows3 } from 'lucide-react';
 import { translations, Language } from './utils/translations';
 import { ToastContainer, ToastMessage, ToastType } from './components/Toast';
+import { OcrProviderId, OcrProviderSettings, BatchItem, TextDirection, OCRBlock, OCRTable, OCRResult, ExtractionMeta, ExtractionMode, HistoryEntry, PreprocessingSettings, NormalizerSettings, PostProcessingStep, BoundingBox, Point } from './types';
+import { isPdfFile, renderPdfPages, mergePageTexts } from './utils/pdfUtils';
+import { readFileAsDataUrl } from './utils/fileUtils';
+import { createThumbnail } from './utils/imageUtils';
+import { cropRegion, mergeRegionResults } from './utils/regionUtils';
+import { warpPerspective } from './utils/perspective';
+import { splitIntoTiles, mergeTileResults, mergeTileTexts } from './utils/tiling';
+import { preprocessImage, needsPreprocessing, DEFAULT_PREPROCESSING_SETTINGS, PreprocessedImage } from './utils/imagePreprocessing';
+import { DEFAULT_NORMALIZER_SETTINGS } from './utils/persianNormalizer';
+import { createPostProcessor, postProcessResult, parsePostProcessingSteps, serializePostProcessingSteps, DEFAULT_POST_PROCESSING_STEPS } from './utils/postProcessing';
+import { exportToWord } from './utils/exportUtils';
+import { useBatchQueue, BatchEntry } from './hooks/useBatchQueue';
+import { useApiKeys } from './hooks/useApiKeys';
+import { getCurrentUsage } from './services/apiKeys';
+
+type ProgressHandler = (progress: ExtractionProgress) => void;
+
+// What the shown result was extracted from, so it can be re-run without the cache
+type ExtractionSource = { file: File } | { base64: string; mimeType: string; regions: BoundingBox[] };
 
 const App: React.FC = () => {
   const [extractedText, setExtractedText] = useState<string>("");
   const [resultImage, setResultImage] = useState<string | null>(null);
+  const [resultPages, setResultPages] = useState<string[]>([]);
+  const [resultBlocks, setResultBlocks] = useState<OCRBlock[]>([]);
+  const [resultTables, setResultTables] = useState<OCRTable[]>([]);
+  const [resultOriginalText, setResultOriginalText] = useState<string | undefined>(); // Set when the editor opens saved edits
+  const [resultRawText, setResultRawText] = useState<string | undefined>(); // Model output before post-processing
+  const [resultMeta, setResultMeta] = useState<ExtractionMeta | undefined>(undefined);
   
   // Enhanced Loading State
   const [isLoading, setIsLoading] = useState<boolean>(false);
+  const abortRef = useRef<AbortController | null>(null);
   const [loadingMessage, setLoadingMessage] = useState<string>("");
+  const [loadingProgress, setLoadingProgress] = useState<number | undefined>(undefined);
   
   // Toast State
   const [toasts, setToasts] = useState<ToastMessage[]>([]);
@@ -22,22 +62,50 @@ const App: React.FC = () => {
   
   // Settings State
   const [showSettings, setShowSettings] = useState(false);
-  const [apiKey, setApiKey] = useState("");
   const [language, setLanguage] = useState<Language>('fa');
   const [fontSize, setFontSize] = useState<number>(18);
   const [isEcoMode, setIsEcoMode] = useState<boolean>(false);
-  const [usageCount, setUsageCount] = useState<number>(0);
+  const [isTilingEnabled, setIsTilingEnabled] = useState<boolean>(false);
+  const [extractionMode, setExtractionMode] = useState<ExtractionMode>('text');
+  const [providerSettings, setProviderSettings] = useState<OcrProviderSettings>(DEFAULT_PROVIDER_SETTINGS);
+  const [allowUrlKey, setAllowUrlKey] = useState<boolean>(true);
+  const [showUnlock, setShowUnlock] = useState(false);
   
+  // Batch Queue
+  const [batchConcurrency, setBatchConcurrency] = useState<number>(2);
+
+  // History
+  const [showHistory, setShowHistory] = useState(false);
+  const [historyEntries, setHistoryEntries] = useState<HistoryEntry[]>([]);
+  const [activeHistoryId, setActiveHistoryId] = useState<string | null>(null);
+
+  // Preprocessing
+  const [preprocessingSettings, setPreprocessingSettings] = useState<PreprocessingSettings>(DEFAULT_PREPROCESSING_SETTINGS);
+  const [normalizerSettings, setNormalizerSettings] = useState<NormalizerSettings>(DEFAULT_NORMALIZER_SETTINGS);
+  const [postProcessingSteps, setPostProcessingSteps] = useState<PostProcessingStep[]>(DEFAULT_POST_PROCESSING_STEPS);
+  const [sourceImage, setSourceImage] = useState<string | null>(null);
+  const [lastSource, setLastSource] = useState<ExtractionSource | null>(null);
+
+  // Perspective Correction & Region Selection
+  const [isPerspectiveEnabled, setIsPerspectiveEnabled] = useState<boolean>(false);
+  const [perspectiveImage, setPerspectiveImage] = useState<{ base64: string; mimeType: string } | null>(null);
+  const [isRegionSelectEnabled, setIsRegionSelectEnabled] = useState<boolean>(false);
+  const [pendingImage, setPendingImage] = useState<{ base64: string; mimeType: string } | null>(null);
+
   // Custom Instructions
   const [showInstructions, setShowInstructions] = useState(false);
   const [customInstructions, setCustomInstructions] = useState("");
 
   const t = translations[language];
+  const apiKeys = useApiKeys();
+  const hasOwnKey = apiKeys.keys.some(entry => entry.key);
+  const pendingUrlKeyRef = useRef<string | null>(null); // Arrived while the keys were locked
 
-  // Constants
-  const DAILY_LIMIT = 1500;
+  // Totals over the keys requests currently rotate between
+  const usageCount = apiKeys.activeKeys.reduce((sum, entry) => sum + getCurrentUsage(entry), 0);
+  const DAILY_LIMIT = apiKeys.activeKeys.reduce((sum, entry) => sum + entry.dailyLimit, 0);
   const remainingRequests = Math.max(0, DAILY_LIMIT - usageCount);
-  const usagePercentage = Math.min(100, (usageCount / DAILY_LIMIT) * 100);
+  const usagePercentage = Math.min(100, (usageCount / Math.max(1, DAILY_LIMIT)) * 100);
 
   // Helper to add Toast
   const addToast = (message: string, type: ToastType = 'info', title?: string) => {
@@ -56,15 +124,16 @@ const App: React.FC = () => {
     const keyFromUrl = searchParams.get('key');
 
     if (keyFromUrl) {
-      setApiKey(keyFromUrl);
-      localStorage.setItem('user_gemini_api_key', keyFromUrl);
       // Clean URL for security
       window.history.replaceState({}, '', window.location.pathname);
-      addToast(t.statusConnected, 'success');
-    } else {
-      // 2. Check Local Storage
-      const savedKey = localStorage.getItem('user_gemini_api_key');
-      if (savedKey) setApiKey(savedKey);
+      if (localStorage.getItem('app_allow_url_key') === 'false') {
+        addToast(t.urlKeyIgnored, 'info');
+      } else if (apiKeys.isLocked) {
+        pendingUrlKeyRef.current = keyFromUrl;
+      } else {
+        apiKeys.addKey(keyFromUrl, 'URL');
+        addToast(t.statusConnected, 'success');
+      }
     }
 
     // Load other settings
@@ -84,23 +153,76 @@ const App: React.FC = () => {
       setFontSize(parseInt(savedFontSize));
     }
 
+    const savedAllowUrlKey = localStorage.getItem('app_allow_url_key');
+    if (savedAllowUrlKey) setAllowUrlKey(savedAllowUrlKey === 'true');
+
     const savedEco = localStorage.getItem('app_eco_mode');
     if (savedEco) setIsEcoMode(savedEco === 'true');
 
-    // Load Usage Count
-    const today = new Date().toDateString();
-    const storedDate = localStorage.getItem('usage_date');
-    if (storedDate !== today) {
-        localStorage.setItem('usage_date', today);
-        localStorage.setItem('usage_count', '0');
-        setUsageCount(0);
-    } else {
-        const count = localStorage.getItem('usage_count');
-        if (count) setUsageCount(parseInt(count));
+    const savedTiling = localStorage.getItem('app_tiling');
+    if (savedTiling) setIsTilingEnabled(savedTiling === 'true');
+
+    const savedPerspective = localStorage.getItem('app_perspective');
+    if (savedPerspective) setIsPerspectiveEnabled(savedPerspective === 'true');
+
+    const savedRegionSelect = localStorage.getItem('app_region_select');
+    if (savedRegionSelect) setIsRegionSelectEnabled(savedRegionSelect === 'true');
+
+    const savedMode = localStorage.getItem('app_extraction_mode');
+    if (savedMode === 'text' || savedMode === 'layout' || savedMode === 'table') setExtractionMode(savedMode);
+
+    const savedConcurrency = localStorage.getItem('app_batch_concurrency');
+    if (savedConcurrency) setBatchConcurrency(parseInt(savedConcurrency));
+
+    const savedPreprocessing = localStorage.getItem('app_preprocessing');
+    if (savedPreprocessing) {
+      try {
+        setPreprocessingSettings({ ...DEFAULT_PREPROCESSING_SETTINGS, ...JSON.parse(savedPreprocessing) });
+      } catch {
+        localStorage.removeItem('app_preprocessing');
+      }
+    }
+
+    const savedNormalizer = localStorage.getItem('app_normalizer');
+    if (savedNormalizer) {
+      try {
+        setNormalizerSettings({ ...DEFAULT_NORMALIZER_SETTINGS, ...JSON.parse(savedNormalizer) });
+      } catch {
+        localStorage.removeItem('app_normalizer');
+      }
     }
 
+    const savedPostProcessing = localStorage.getItem('app_post_processing');
+    if (savedPostProcessing) {
+      try {
+        setPostProcessingSteps(parsePostProcessingSteps(savedPostProcessing));
+      } catch {
+        localStorage.removeItem('app_post_processing');
+      }
+    }
+
+    const savedProvider = localStorage.getItem('app_ocr_provider');
+    if (savedProvider) {
+      try {
+        setProviderSettings({ ...DEFAULT_PROVIDER_SETTINGS, ...JSON.parse(savedProvider) });
+      } catch {
+        localStorage.removeItem('app_ocr_provider');
+      }
+    }
+
+    refreshHistory();
   }, []);
 
+  // Ask for the passphrase on load and again after auto-lock
+  useEffect(() => {
+    setShowUnlock(apiKeys.isLocked);
+    if (!apiKeys.isLocked && pendingUrlKeyRef.current) {
+      apiKeys.addKey(pendingUrlKeyRef.current, 'URL');
+      pendingUrlKeyRef.current = null;
+      addToast(t.statusConnected, 'success');
+    }
+  }, [apiKeys.isLocked]);
+
   const toggleTheme = () => {
     const newMode = !isDarkMode;
     setIsDarkMode(newMode);
@@ -113,90 +235,526 @@ const App: React.FC = () => {
     }
   };
 
-  const incrementUsage = () => {
-      const newCount = usageCount + 1;
-      setUsageCount(newCount);
-      localStorage.setItem('usage_count', newCount.toString());
-  };
-
   const saveSettings = () => {
-    localStorage.setItem('user_gemini_api_key', apiKey);
     localStorage.setItem('app_language', language);
     localStorage.setItem('app_font_size', fontSize.toString());
     localStorage.setItem('app_eco_mode', isEcoMode.toString());
+    localStorage.setItem('app_allow_url_key', allowUrlKey.toString());
+    localStorage.setItem('app_extraction_mode', extractionMode);
+    localStorage.setItem('app_tiling', isTilingEnabled.toString());
+    localStorage.setItem('app_perspective', isPerspectiveEnabled.toString());
+    localStorage.setItem('app_region_select', isRegionSelectEnabled.toString());
+    localStorage.setItem('app_ocr_provider', JSON.stringify(providerSettings));
+    localStorage.setItem('app_normalizer', JSON.stringify(normalizerSettings));
+    localStorage.setItem('app_post_processing', serializePostProcessingSteps(postProcessingSteps));
     setShowSettings(false);
     addToast(t.toastSuccess, 'success');
   };
 
+  const refreshHistory = async () => {
+    try {
+      setHistoryEntries(await listHistoryEntries());
+    } catch (err) {
+      console.error("Could not load history", err);
+    }
+  };
+
+  // Every finished extraction is kept in IndexedDB so it survives a refresh
+  const recordHistory = async (image: string | null, pages: string[], result: OCRResult, meta: ExtractionMeta, rawText?: string): Promise<string | null> => {
+    if (!image || !result.text) return null;
+    try {
+      const entry = await saveHistoryEntry({
+        id: `history-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+        thumbnail: await createThumbnail(image),
+        image,
+        pages,
+        text: result.text,
+        rawText: rawText !== result.text ? rawText : undefined,
+        blocks: result.blocks || [],
+        tables: result.tables || [],
+        meta,
+        updatedAt: meta.createdAt,
+      });
+      refreshHistory();
+      return entry.id;
+    } catch (err) {
+      console.error("Could not save history entry", err);
+      return null;
+    }
+  };
+
+  // Presents a finished single-image or PDF result and records it in history
+  const showResult = async (image: string | null, pages: string[], rawResult: OCRResult) => {
+    const result = postProcessResult(rawResult, getPostProcessor());
+    const meta = createExtractionMeta(providerSettings, customInstructions);
+    setExtractedText(result.text);
+    setResultBlocks(result.blocks || []);
+    setResultTables(result.tables || []);
+    setResultOriginalText(undefined);
+    setResultRawText(rawResult.text);
+    setResultMeta(meta);
+    setActiveHistoryId(await recordHistory(image, pages, result, meta, rawResult.text));
+  };
+
+  const openHistoryEntry = (entry: HistoryEntry) => {
+    setExtractedText(entry.editedText ?? entry.text);
+    setResultImage(entry.image);
+    setResultPages(entry.pages);
+    setResultBlocks(entry.blocks);
+    setResultTables(entry.tables);
+    setResultOriginalText(entry.text);
+    setResultRawText(entry.rawText);
+    setResultMeta(entry.meta);
+    setActiveHistoryId(entry.id);
+    setLastSource(null);
+    setShowHistory(false);
+    setTimeout(() => {
+        document.getElementById('result-section')?.scrollIntoView({ behavior: 'smooth' });
+    }, 100);
+  };
+
+  const handleDeleteHistoryEntry = async (id: string) => {
+    try {
+      await deleteHistoryEntry(id);
+      if (id === activeHistoryId) setActiveHistoryId(null);
+      refreshHistory();
+    } catch (err: any) {
+      addToast(err.message || "Could not delete history entry", 'error');
+    }
+  };
+
+  const handleClearHistory = async () => {
+    try {
+      await clearHistory();
+      setActiveHistoryId(null);
+      refreshHistory();
+    } catch (err: any) {
+      addToast(err.message || "Could not clear history", 'error');
+    }
+  };
+
+  const handleEditorTextChange = (text: string) => {
+    if (!activeHistoryId) return;
+    // Only the edited entry changes; it moves to the top as the most recently updated
+    updateHistoryText(activeHistoryId, text)
+      .then(entry => entry && setHistoryEntries(entries => [entry, ...entries.filter(item => item.id !== entry.id)]))
+      .catch(err => console.error("Could not save edits", err));
+  };
+
+  const handlePreprocessingChange = (settings: PreprocessingSettings) => {
+    setPreprocessingSettings(settings);
+    localStorage.setItem('app_preprocessing', JSON.stringify(settings));
+  };
+
+  // Normalizer and user rules, in the order set in Settings
+  const getPostProcessor = () => createPostProcessor(postProcessingSteps, normalizerSettings);
+
+  // The key pool only applies to Gemini; other providers have their own key setting
+  const getKeyPool = () => providerSettings.providerId === 'gemini' ? apiKeys.pool : undefined;
+
+  // The OpenAI-compatible key is stored with the Gemini keys, so it needs them unlocked
+  const getProviderKey = (): string | undefined => {
+    if (providerSettings.providerId !== 'openai') return undefined;
+    if (apiKeys.isLocked) throw new KeysLockedError();
+    return apiKeys.openaiKey || undefined;
+  };
+
+  // Typed OCR errors are shown in the UI language; anything else keeps its own message
+  const describeError = (err: any, fallback = t.errorUnknown): string =>
+    err instanceof OcrError ? t[err.messageKey] : (err?.message || fallback);
+
+  const extractionOptions = (options: ExtractionOptions): ExtractionOptions => ({
+    onRetry: (_err, _attempt, delayMs) => setLoadingMessage(`${t.retryingIn} ${Math.ceil(delayMs / 1000)}s`),
+    keyPool: getKeyPool(),
+    ...options,
+  });
+
+  // Fits one request's progress into part `index` of `count` (regions, tiles, PDF pages);
+  // `withDone` puts the streamed text after what the finished parts produced
+  const partProgress = (onProgress: ProgressHandler | undefined, index: number, count: number, withDone: (partial: string) => string): ProgressHandler | undefined =>
+    onProgress && (progress => onProgress({
+      ...progress,
+      percent: ((index + progress.percent / 100) / count) * 100,
+      text: progress.text === undefined ? undefined : withDone(progress.text),
+    }));
+
+  // Streamed text goes straight into the editor while the bar follows the request
+  const showProgress: ProgressHandler = progress => {
+    setLoadingProgress(progress.percent);
+    if (progress.text !== undefined) setExtractedText(getPostProcessor()(progress.text));
+  };
+
+  // Only one extraction runs at a time; starting another one aborts the previous
+  const beginOperation = (): AbortSignal => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsLoading(true);
+    return controller.signal;
+  };
+
+  // A cancelled or replaced operation must leave the loading state to its successor
+  const endOperation = (signal: AbortSignal) => {
+    if (abortRef.current?.signal !== signal) return;
+    abortRef.current = null;
+    setIsLoading(false);
+    setLoadingProgress(undefined);
+  };
+
+  const cancelOperation = () => {
+    if (!abortRef.current) return;
+    abortRef.current.abort();
+    abortRef.current = null;
+    setIsLoading(false);
+    setLoadingProgress(undefined);
+  };
+
+  const handleCancelExtraction = () => {
+    cancelOperation();
+    addToast(t.cancelled, 'info');
+  };
+
+  // A result served from the cache was not read again; the toast says so
+  const showSuccessToast = (cacheHits: number) => {
+    if (cacheHits > 0) {
+      addToast(t.toastFromCache, 'success', t.fromCache);
+    } else {
+      addToast(t.toastSuccess, 'success');
+    }
+  };
+
+  const handleRerun = () => {
+    if (!lastSource) return;
+    if ('file' in lastSource) {
+      processPdf(lastSource.file, true);
+    } else {
+      extractImage(lastSource.base64, lastSource.mimeType, lastSource.regions, true);
+    }
+  };
+
+  // A blank tile, region or PDF page shouldn't fail the whole document
+  const allowEmpty = (err: any): OCRResult => {
+    if (err instanceof EmptyResultError) return { text: "" };
+    throw err;
+  };
+
+  // Photos go through the enabled canvas steps before any OCR engine sees them
+  const prepareImage = async (base64: string, mimeType: string, signal?: AbortSignal): Promise<PreprocessedImage> => {
+    if (!needsPreprocessing(base64, preprocessingSettings)) return { dataUrl: base64, mimeType };
+    return preprocessImage(base64, preprocessingSettings, undefined, signal);
+  };
+
+  // Single-image extraction; Layout and Table modes keep their extra structure for the editor
+  const runExtraction = async (base64: string, mimeType: string, options: ExtractionOptions = {}, ecoMode = isEcoMode): Promise<OCRResult> => {
+    if (extractionMode === 'layout') {
+      return extractStructuredTextFromImage(base64, mimeType, getProviderKey(), customInstructions, ecoMode, providerSettings, extractionOptions(options));
+    }
+    if (extractionMode === 'table') {
+      return extractTablesFromImage(base64, mimeType, getProviderKey(), customInstructions, ecoMode, providerSettings, extractionOptions(options));
+    }
+    return { text: await extractTextFromImage(base64, mimeType, getProviderKey(), customInstructions, ecoMode, providerSettings, extractionOptions(options)) };
+  };
+
+  // Large images are split into overlapping tiles instead of being downscaled
+  const runTiledExtraction = async (base64: string, mimeType: string, label: string, options: ExtractionOptions = {}, report = setLoadingMessage): Promise<OCRResult> => {
+    if (!isTilingEnabled) return runExtraction(base64, mimeType, options);
+    const tiles = await splitIntoTiles(base64);
+    if (tiles.length === 1) return runExtraction(base64, mimeType, options);
+
+    const results: OCRResult[] = [];
+    for (let i = 0; i < tiles.length; i++) {
+      report(`${label} (${t.tile} ${i + 1}/${tiles.length})`);
+      const onProgress = partProgress(options.onProgress, i, tiles.length, partial => mergeTileTexts([...results.map(result => result.text), partial], tiles));
+      // Tiles are already sized for the model; Eco Mode's resize would shrink them back down
+      results.push(await runExtraction(tiles[i].dataUrl, 'image/png', { ...options, onProgress }, false).catch(allowEmpty));
+    }
+    return mergeTileResults(results, tiles);
+  };
+
   const processFile = async (file: File) => {
+    if (isPdfFile(file)) {
+      processPdf(file);
+      return;
+    }
+
     if (!file.type.startsWith('image/')) {
       addToast(t.fileTypeWarning, 'error');
       return;
     }
 
-    setIsLoading(true);
-    setLoadingMessage(isEcoMode ? t.loadingOptimizing : t.loadingUploading);
+    try {
+      handleImageSelected(await readFileAsDataUrl(file), file.type);
+    } catch (err: any) {
+      addToast(describeError(err, "Error processing image."), 'error');
+    }
+  };
+
+  const processPdf = async (file: File, forceRefresh = false) => {
+    const signal = beginOperation();
+    let cacheHits = 0;
+    setLoadingMessage(t.loadingRenderingPdf);
+    setLoadingProgress(0);
     setExtractedText("");
     setResultImage(null);
+    setResultPages([]);
+    setResultBlocks([]);
+    setResultTables([]);
+    setResultOriginalText(undefined);
+    setResultRawText(undefined);
+    setActiveHistoryId(null);
+    setLastSource({ file });
 
-    const reader = new FileReader();
-    reader.onload = async (e) => {
-      const base64 = e.target?.result as string;
-      setResultImage(base64);
-      const mimeType = file.type;
-      
-      try {
-        // Simulate "Uploading" delay slightly for UX
-        await new Promise(r => setTimeout(r, 800));
-        
-        setLoadingMessage(t.loadingAnalyzing);
-        const text = await extractTextFromImage(base64, mimeType, apiKey, customInstructions, isEcoMode);
-        
-        setLoadingMessage(t.loadingFormatting);
-        await new Promise(r => setTimeout(r, 500));
+    try {
+      const pages = await renderPdfPages(file, (pageNumber, totalPages) => {
+        setLoadingMessage(`${t.loadingRenderingPdf} ${pageNumber}/${totalPages}`);
+      }, signal);
+      signal.throwIfAborted();
+      // A one-page PDF is shown like an image so Layout mode keeps its overlay
+      const viewerPages = pages.length > 1 ? pages : [];
+      setResultImage(pages[0] || null);
+      setResultPages(viewerPages);
+
+      // Pages are sent one by one so progress is real and a single
+      // oversized request doesn't fail the whole document
+      const pageResults: OCRResult[] = [];
+      for (let i = 0; i < pages.length; i++) {
+        const label = `${t.loadingAnalyzing} ${t.page} ${i + 1}/${pages.length}`;
+        setLoadingMessage(label);
+        setLoadingProgress((i / pages.length) * 100);
+        const onProgress = partProgress(showProgress, i, pages.length, partial => mergePageTexts([...pageResults.map(result => result.text), partial]));
+        const prepared = await prepareImage(pages[i], 'image/png', signal);
+        pageResults.push(await runTiledExtraction(prepared.dataUrl, prepared.mimeType, label, { signal, onProgress, forceRefresh, onCacheHit: () => cacheHits++ })
+          .catch(allowEmpty));
+      }
+      setLoadingProgress(100);
+
+      // Blocks are positioned on a single image, so only a one-page PDF keeps them
+      const tables = pageResults.flatMap(result => result.tables || []);
+      await showResult(pages[0] || null, viewerPages, {
+        text: mergePageTexts(pageResults.map(result => result.text)),
+        ...(pageResults.length === 1 && pageResults[0].blocks ? { blocks: pageResults[0].blocks } : {}),
+        ...(tables.length > 0 ? { tables } : {}),
+      });
+      showSuccessToast(cacheHits);
+
+      setTimeout(() => {
+          document.getElementById('result-section')?.scrollIntoView({ behavior: 'smooth' });
+      }, 100);
+    } catch (err: any) {
+      if (!signal.aborted) {
+        setExtractedText(""); // Drop partially streamed text
+        addToast(describeError(err, "Error processing PDF."), 'error');
+      }
+    } finally {
+      endOperation(signal);
+    }
+  };
 
-        setExtractedText(text);
-        incrementUsage();
-        addToast(t.toastSuccess, 'success');
+  // Batch items use the same mode and tiling as single images; progress goes to the item, not the loading bar
+  const batch = useBatchQueue(async (item, signal, report) => {
+    const meta = createExtractionMeta(providerSettings, customInstructions);
+    const prepared = await prepareImage(item.base64, item.mimeType, signal);
+    const onRetry: ExtractionOptions['onRetry'] = (_err, _attempt, delayMs) => report(`${t.retryingIn} ${Math.ceil(delayMs / 1000)}s`);
+    const rawResult = await runTiledExtraction(prepared.dataUrl, prepared.mimeType, t.batchStatusRunning, { signal, onRetry }, report);
+    const result = postProcessResult(rawResult, getPostProcessor());
+    recordHistory(prepared.dataUrl, [], result, meta, rawResult.text);
+    return { ...result, meta };
+  }, { concurrency: batchConcurrency, maxRetries: 2, describeError });
 
-        // Scroll to result on mobile
-        setTimeout(() => {
-            document.getElementById('result-section')?.scrollIntoView({ behavior: 'smooth' });
-        }, 100);
+  const enqueueFiles = async (files: File[]) => {
+    const entries: BatchEntry[] = [];
+    for (const file of files) {
+      try {
+        if (isPdfFile(file)) {
+          const pages = await renderPdfPages(file);
+          pages.forEach((page, i) => entries.push({ name: `${file.name} (${t.page} ${i + 1})`, base64: page, mimeType: 'image/png' }));
+        } else if (file.type.startsWith('image/')) {
+          entries.push({ name: file.name, base64: await readFileAsDataUrl(file), mimeType: file.type });
+        } else {
+          addToast(`${t.fileTypeWarning}: ${file.name}`, 'error');
+        }
       } catch (err: any) {
-        addToast(err.message || "Error processing image.", 'error');
-      } finally {
-        setIsLoading(false);
+        addToast(err.message || `Error reading ${file.name}`, 'error');
       }
-    };
-    reader.readAsDataURL(file);
+    }
+    if (entries.length > 0) batch.addItems(entries);
   };
 
-  const handleImageSelected = async (base64: string, mimeType: string) => {
-    setIsLoading(true);
+  const handleFilesSelected = (files: File[]) => {
+    if (files.length === 1) {
+      processFile(files[0]);
+    } else if (files.length > 1) {
+      enqueueFiles(files);
+    }
+  };
+
+  const handleBatchConcurrencyChange = (value: number) => {
+    setBatchConcurrency(value);
+    localStorage.setItem('app_batch_concurrency', value.toString());
+  };
+
+  const getDoneBatchItems = () => batch.items.filter(item => item.status === 'done');
+
+  const openBatchItem = (item: BatchItem) => {
+    setExtractedText(item.text || "");
+    setResultMeta(item.meta || createExtractionMeta(providerSettings, customInstructions));
+    setResultImage(item.base64);
+    setResultPages([]);
+    setResultBlocks(item.blocks || []);
+    setResultTables(item.tables || []);
+    setResultOriginalText(undefined);
+    setResultRawText(undefined);
+    setActiveHistoryId(null);
+    setLastSource(null);
+    setTimeout(() => {
+        document.getElementById('result-section')?.scrollIntoView({ behavior: 'smooth' });
+    }, 100);
+  };
+
+  const openBatchResults = () => {
+    const done = getDoneBatchItems();
+    setExtractedText(mergePageTexts(done.map(item => item.text || "")));
+    setResultMeta(done[0]?.meta || createExtractionMeta(providerSettings, customInstructions));
+    setResultImage(done[0]?.base64 || null);
+    setResultPages(done.map(item => item.base64));
+    setResultBlocks([]); // Block positions belong to single images
+    setResultTables(done.flatMap(item => item.tables || []));
+    setResultOriginalText(undefined);
+    setResultRawText(undefined);
+    setActiveHistoryId(null);
+    setLastSource(null);
+    setTimeout(() => {
+        document.getElementById('result-section')?.scrollIntoView({ behavior: 'smooth' });
+    }, 100);
+  };
+
+  const exportBatchResults = async () => {
+    const done = getDoneBatchItems();
+    // Same direction guess as the editor: Latin first letter means LTR
+    const direction = /^[A-Za-z]/.test((done[0]?.text || "").trim()) ? TextDirection.LTR : TextDirection.RTL;
+    try {
+      await exportToWord(mergePageTexts(done.map(item => item.text || "")), direction);
+      addToast(t.exportSuccess, 'success');
+    } catch (err: any) {
+      addToast(err.message || "Export failed", 'error');
+    }
+  };
+
+  // Optional steps before extraction: perspective correction, then region selection
+  const handleImageSelected = (base64: string, mimeType: string) => {
+    cancelOperation(); // A new upload replaces whatever is still running
+    if (isPerspectiveEnabled) {
+      setPerspectiveImage({ base64, mimeType });
+      return;
+    }
+    selectRegionsOrExtract(base64, mimeType);
+  };
+
+  const selectRegionsOrExtract = (base64: string, mimeType: string) => {
+    if (isRegionSelectEnabled) {
+      setPendingImage({ base64, mimeType });
+      return;
+    }
+    extractImage(base64, mimeType);
+  };
+
+  const handlePerspectiveConfirmed = async (corners: Point[] | null) => {
+    if (!perspectiveImage) return;
+    const { base64, mimeType } = perspectiveImage;
+    setPerspectiveImage(null);
+    if (!corners) {
+      selectRegionsOrExtract(base64, mimeType);
+      return;
+    }
+
+    const signal = beginOperation();
+    setLoadingMessage(t.loadingFlattening);
+    let flattened: string;
+    try {
+      flattened = await warpPerspective(base64, corners);
+      signal.throwIfAborted();
+    } catch (err: any) {
+      if (!signal.aborted) addToast(describeError(err, "Error processing image."), 'error');
+      return;
+    } finally {
+      endOperation(signal);
+    }
+    selectRegionsOrExtract(flattened, 'image/jpeg');
+  };
+
+  const handleRegionsConfirmed = (regions: BoundingBox[]) => {
+    if (!pendingImage) return;
+    setPendingImage(null);
+    extractImage(pendingImage.base64, pendingImage.mimeType, regions);
+  };
+
+  // Each selected region is cropped and OCR'd on its own, then joined in the chosen order
+  const extractImage = async (base64: string, mimeType: string, regions: BoundingBox[] = [], forceRefresh = false) => {
+    const signal = beginOperation();
+    let cacheHits = 0;
+    const options: ExtractionOptions = { signal, onProgress: showProgress, forceRefresh, onCacheHit: () => cacheHits++ };
     setLoadingMessage(isEcoMode ? t.loadingOptimizing : t.loadingUploading);
     setExtractedText("");
+    setSourceImage(base64);
     setResultImage(base64);
+    setResultPages([]);
+    setResultBlocks([]);
+    setResultTables([]);
+    setResultOriginalText(undefined);
+    setResultRawText(undefined);
+    setActiveHistoryId(null);
+    setLastSource({ base64, mimeType, regions });
 
     try {
-      await new Promise(r => setTimeout(r, 800));
-      setLoadingMessage(t.loadingAnalyzing);
-      
-      const text = await extractTextFromImage(base64, mimeType, apiKey, customInstructions, isEcoMode);
-      
-      setLoadingMessage(t.loadingFormatting);
-      await new Promise(r => setTimeout(r, 500));
+      let result: OCRResult;
+      // Region geometry is mapped back onto the original, so it stays the displayed image
+      let displayImage = base64;
+      if (regions.length > 0) {
+        const results: OCRResult[] = [];
+        for (let i = 0; i < regions.length; i++) {
+          const label = `${t.loadingAnalyzing} ${t.region} ${i + 1}/${regions.length}`;
+          setLoadingMessage(label);
+          setLoadingProgress((i / regions.length) * 100);
+          const prepared = await prepareImage(await cropRegion(base64, regions[i]), 'image/png', signal);
+          const onProgress = partProgress(showProgress, i, regions.length, partial =>
+            [...results.map(result => result.text.trim()), partial].filter(Boolean).join('\n\n'));
+          results.push(await runTiledExtraction(prepared.dataUrl, prepared.mimeType, label, { ...options, onProgress }).catch(allowEmpty));
+        }
+        setLoadingProgress(100);
+        result = mergeRegionResults(results, regions);
+      } else {
+        setLoadingMessage(t.loadingPreprocessing);
+        const prepared = await prepareImage(base64, mimeType, signal);
+        displayImage = prepared.dataUrl;
+        setResultImage(displayImage);
 
-      setExtractedText(text);
-      incrementUsage();
-      addToast(t.toastSuccess, 'success');
+        setLoadingMessage(t.loadingAnalyzing);
+        result = await runTiledExtraction(prepared.dataUrl, prepared.mimeType, t.loadingAnalyzing, options);
+      }
+
+      await showResult(displayImage, [], result);
+      showSuccessToast(cacheHits);
+
+      // Scroll to result on mobile
+      setTimeout(() => {
+          document.getElementById('result-section')?.scrollIntoView({ behavior: 'smooth' });
+      }, 100);
     } catch (err: any) {
-        addToast(err.message || "Error processing image.", 'error');
+        if (!signal.aborted) {
+          setExtractedText(""); // Drop partially streamed text
+          addToast(describeError(err, "Error processing image."), 'error');
+        }
     } finally {
-      setIsLoading(false);
+      endOperation(signal);
     }
   };
 
+  // The window listeners are added once, so they call the handlers of the latest render
+  const processFileRef = useRef(processFile);
+  const handleFilesSelectedRef = useRef(handleFilesSelected);
+  processFileRef.current = processFile;
+  handleFilesSelectedRef.current = handleFilesSelected;
+
   // Global Paste Listener
   useEffect(() => {
     const handlePaste = (e: ClipboardEvent) => {
@@ -208,7 +766,7 @@ const App: React.FC = () => {
         for (let i = 0; i < items.length; i++) {
           if (items[i].type.indexOf("image") !== -1) {
             const file = items[i].getAsFile();
-            if (file) processFile(file);
+            if (file) processFileRef.current(file);
             break;
           }
         }
@@ -216,7 +774,7 @@ const App: React.FC = () => {
     };
     window.addEventListener('paste', handlePaste);
     return () => window.removeEventListener('paste', handlePaste);
-  }, [apiKey, customInstructions, isEcoMode]); // Added deps
+  }, []);
 
   // Global Drag & Drop Listener
   useEffect(() => {
@@ -226,7 +784,7 @@ const App: React.FC = () => {
     const handleDragOver = (e: DragEvent) => { e.preventDefault(); e.stopPropagation(); };
     const handleDrop = (e: DragEvent) => { 
       e.preventDefault(); e.stopPropagation(); setIsDraggingFile(false); dragCounter = 0; 
-      if (e.dataTransfer?.files?.[0]) processFile(e.dataTransfer.files[0]); 
+      if (e.dataTransfer?.files?.length) handleFilesSelectedRef.current(Array.from(e.dataTransfer.files)); 
     };
 
     window.addEventListener('dragenter', handleDragEnter);
@@ -240,7 +798,7 @@ const App: React.FC = () => {
       window.removeEventListener('dragover', handleDragOver);
       window.removeEventListener('drop', handleDrop);
     };
-  }, [apiKey, customInstructions, isEcoMode]); // Added deps
+  }, []);
 
   return (
     <div className={`min-h-screen bg-slate-50 dark:bg-slate-900 dark:text-slate-100 transition-colors duration-300 flex flex-col relative ${language === 'fa' || language === 'ar' ? 'font-sans' : ''}`} dir={language === 'fa' || language === 'ar' ? 'rtl' : 'ltr'}>
@@ -248,6 +806,46 @@ const App: React.FC = () => {
       {/* Toast Container */}
       <ToastContainer toasts={toasts} removeToast={removeToast} />
 
+      {/* Perspective Correction */}
+      {perspectiveImage && (
+        <PerspectiveEditor
+          image={perspectiveImage.base64}
+          onConfirm={handlePerspectiveConfirmed}
+          onCancel={() => setPerspectiveImage(null)}
+          t={t}
+        />
+      )}
+
+      {/* Region Selection */}
+      {pendingImage && (
+        <RegionSelector
+          image={pendingImage.base64}
+          onConfirm={handleRegionsConfirmed}
+          onCancel={() => setPendingImage(null)}
+          t={t}
+        />
+      )}
+
+      {/* History Sidebar */}
+      {showHistory && (
+        <HistorySidebar
+          entries={historyEntries}
+          activeId={activeHistoryId}
+          usage={historyEntries.reduce((sum, entry) => sum + entry.size, 0)}
+          onOpen={openHistoryEntry}
+          onDelete={handleDeleteHistoryEntry}
+          onClear={handleClearHistory}
+          onClose={() => setShowHistory(false)}
+          language={language}
+          t={t}
+        />
+      )}
+
+      {/* Unlock Prompt */}
+      {showUnlock && apiKeys.isLocked && (
+        <UnlockKeysDialog onUnlock={apiKeys.unlock} onDismiss={() => setShowUnlock(false)} t={t} />
+      )}
+
       {/* Settings Modal */}
       {showSettings && (
         <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-fade-in-up">
@@ -263,26 +861,94 @@ const App: React.FC = () => {
             </div>
             
             <div className="p-6 space-y-6">
-              {/* API Key */}
+              {/* API Keys */}
+              {!apiKeys.isLocked && (
+                <ApiKeyManager
+                  keys={apiKeys.keys}
+                  rotation={apiKeys.rotation}
+                  onAdd={apiKeys.addKey}
+                  onUpdate={apiKeys.updateKey}
+                  onRemove={apiKeys.removeKey}
+                  onRotationChange={apiKeys.setRotation}
+                  isRtl={language === 'fa' || language === 'ar'}
+                  t={t}
+                />
+              )}
+              <KeyEncryptionSettings
+                isEncrypted={apiKeys.isEncrypted}
+                isLocked={apiKeys.isLocked}
+                autoLockMinutes={apiKeys.autoLockMinutes}
+                allowUrlKey={allowUrlKey}
+                onEnable={apiKeys.enableEncryption}
+                onDisable={apiKeys.disableEncryption}
+                onLock={apiKeys.lock}
+                onRequestUnlock={() => setShowUnlock(true)}
+                onAutoLockChange={apiKeys.setAutoLockMinutes}
+                onAllowUrlKeyChange={setAllowUrlKey}
+                t={t}
+              />
+
+              {/* OCR Provider */}
               <div>
-                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
-                  {t.apiKey}
+                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2 flex items-center gap-2">
+                   <Cpu size={16} /> {t.ocrProvider}
                 </label>
-                <div className="relative">
-                   <div className={`absolute inset-y-0 ${language === 'fa' || language === 'ar' ? 'left-0 pl-3' : 'right-0 pr-3'} flex items-center pointer-events-none ${apiKey ? 'text-green-500' : 'text-slate-400'}`}>
-                      <Key size={16} />
-                   </div>
-                   <input 
-                     type="password" 
-                     value={apiKey}
-                     onChange={(e) => setApiKey(e.target.value)}
-                     placeholder={t.apiKeyPlaceholder}
-                     className={`w-full py-2 rounded-xl border border-slate-300 dark:border-slate-600 bg-slate-50 dark:bg-slate-900 focus:ring-2 focus:ring-primary-500 outline-none transition-all ${language === 'fa' || language === 'ar' ? 'pl-10 pr-4' : 'pr-10 pl-4'}`}
-                   />
-                </div>
+                <select 
+                  value={providerSettings.providerId}
+                  onChange={(e) => setProviderSettings({ ...providerSettings, providerId: e.target.value as OcrProviderId })}
+                  className="w-full p-2 rounded-xl border border-slate-300 dark:border-slate-600 bg-slate-50 dark:bg-slate-900 outline-none"
+                >
+                  {listProviders().map(provider => (
+                    <option key={provider.id} value={provider.id}>{provider.label}</option>
+                  ))}
+                </select>
                 <p className="text-xs text-slate-500 dark:text-slate-400 mt-2">
-                  {t.apiKeyHelp}
+                  {t.ocrProviderDesc}
                 </p>
+
+                {providerSettings.providerId === 'openai' && (
+                  <div className="mt-3 space-y-2">
+                    <input 
+                      type="url" 
+                      value={providerSettings.openai.baseUrl}
+                      onChange={(e) => setProviderSettings({ ...providerSettings, openai: { ...providerSettings.openai, baseUrl: e.target.value } })}
+                      placeholder={t.providerBaseUrl}
+                      dir="ltr"
+                      className="w-full py-2 px-4 rounded-xl border border-slate-300 dark:border-slate-600 bg-slate-50 dark:bg-slate-900 focus:ring-2 focus:ring-primary-500 outline-none text-sm"
+                    />
+                    <input 
+                      type="text" 
+                      value={providerSettings.openai.model}
+                      onChange={(e) => setProviderSettings({ ...providerSettings, openai: { ...providerSettings.openai, model: e.target.value } })}
+                      placeholder={t.providerModel}
+                      dir="ltr"
+                      className="w-full py-2 px-4 rounded-xl border border-slate-300 dark:border-slate-600 bg-slate-50 dark:bg-slate-900 focus:ring-2 focus:ring-primary-500 outline-none text-sm"
+                    />
+                    <input 
+                      type="password" 
+                      value={apiKeys.openaiKey}
+                      onChange={(e) => apiKeys.setOpenAiKey(e.target.value)}
+                      placeholder={apiKeys.isLocked ? t.keysLocked : t.providerApiKey}
+                      disabled={apiKeys.isLocked}
+                      dir="ltr"
+                      className="w-full py-2 px-4 rounded-xl border border-slate-300 dark:border-slate-600 bg-slate-50 dark:bg-slate-900 focus:ring-2 focus:ring-primary-500 outline-none text-sm disabled:opacity-50"
+                    />
+                  </div>
+                )}
+
+                {providerSettings.providerId === 'tesseract' && (
+                  <div className="mt-3">
+                    <input 
+                      type="text" 
+                      value={providerSettings.tesseract.languages}
+                      onChange={(e) => setProviderSettings({ ...providerSettings, tesseract: { languages: e.target.value } })}
+                      placeholder={t.tesseractLanguages}
+                      title={t.tesseractLanguages}
+                      dir="ltr"
+                      className="w-full py-2 px-4 rounded-xl border border-slate-300 dark:border-slate-600 bg-slate-50 dark:bg-slate-900 focus:ring-2 focus:ring-primary-500 outline-none text-sm"
+                    />
+                  </div>
+                )}
               </div>
 
                {/* Usage Statistics with Progress Bar */}
@@ -290,7 +956,7 @@ const App: React.FC = () => {
                 <div className="flex items-center justify-between mb-4">
                   <div>
                      <span className="block text-sm font-bold text-slate-800 dark:text-slate-200">{t.usageToday}</span>
-                     <span className="text-xs text-slate-500">{t.plan}: {apiKey ? 'Pro' : 'Free'}</span>
+                     <span className="text-xs text-slate-500">{t.plan}: {hasOwnKey ? 'Pro' : 'Free'}</span>
                   </div>
                   <div className="flex items-center gap-2 px-2 py-1 bg-white dark:bg-slate-800 rounded-lg border border-slate-200 dark:border-slate-700">
                      <BarChart size={16} className="text-primary-500" />
@@ -333,6 +999,91 @@ const App: React.FC = () => {
                  </div>
               </div>
 
+              {/* Tiling */}
+              <div className="flex flex-wrap sm:flex-nowrap items-center justify-between p-3 gap-4 bg-slate-50 dark:bg-slate-900 rounded-xl border border-slate-200 dark:border-slate-700 cursor-pointer hover:border-primary-300 transition-colors" onClick={() => setIsTilingEnabled(!isTilingEnabled)}>
+                 <div className="flex items-center gap-3 min-w-0 flex-1">
+                    <div className={`p-2 rounded-lg shrink-0 ${isTilingEnabled ? 'bg-primary-100 text-primary-600 dark:bg-primary-900/20 dark:text-primary-400' : 'bg-slate-200 text-slate-500 dark:bg-slate-700'}`}>
+                        <Rows3 size={20} />
+                    </div>
+                    <div className="min-w-0">
+                        <h4 className="font-bold text-sm text-slate-800 dark:text-white truncate">{t.tiling}</h4>
+                        <p className="text-xs text-slate-500 truncate">{t.tilingDesc}</p>
+                    </div>
+                 </div>
+                 <div className={`w-12 h-6 rounded-full p-1 shrink-0 transition-colors ${isTilingEnabled ? 'bg-primary-500' : 'bg-slate-300 dark:bg-slate-600'}`}>
+                    <div className={`w-4 h-4 rounded-full bg-white shadow-sm transition-transform ${isTilingEnabled ? 'translate-x-6' : 'translate-x-0'}`} dir="ltr"></div>
+                 </div>
+              </div>
+
+              {/* Perspective Correction */}
+              <div className="flex flex-wrap sm:flex-nowrap items-center justify-between p-3 gap-4 bg-slate-50 dark:bg-slate-900 rounded-xl border border-slate-200 dark:border-slate-700 cursor-pointer hover:border-primary-300 transition-colors" onClick={() => setIsPerspectiveEnabled(!isPerspectiveEnabled)}>
+                 <div className="flex items-center gap-3 min-w-0 flex-1">
+                    <div className={`p-2 rounded-lg shrink-0 ${isPerspectiveEnabled ? 'bg-primary-100 text-primary-600 dark:bg-primary-900/20 dark:text-primary-400' : 'bg-slate-200 text-slate-500 dark:bg-slate-700'}`}>
+                        <Scan size={20} />
+                    </div>
+                    <div className="min-w-0">
+                        <h4 className="font-bold text-sm text-slate-800 dark:text-white truncate">{t.perspective}</h4>
+                        <p className="text-xs text-slate-500 truncate">{t.perspectiveDesc}</p>
+                    </div>
+                 </div>
+                 <div className={`w-12 h-6 rounded-full p-1 shrink-0 transition-colors ${isPerspectiveEnabled ? 'bg-primary-500' : 'bg-slate-300 dark:bg-slate-600'}`}>
+                    <div className={`w-4 h-4 rounded-full bg-white shadow-sm transition-transform ${isPerspectiveEnabled ? 'translate-x-6' : 'translate-x-0'}`} dir="ltr"></div>
+                 </div>
+              </div>
+
+              {/* Region Selection */}
+              <div className="flex flex-wrap sm:flex-nowrap items-center justify-between p-3 gap-4 bg-slate-50 dark:bg-slate-900 rounded-xl border border-slate-200 dark:border-slate-700 cursor-pointer hover:border-primary-300 transition-colors" onClick={() => setIsRegionSelectEnabled(!isRegionSelectEnabled)}>
+                 <div className="flex items-center gap-3 min-w-0 flex-1">
+                    <div className={`p-2 rounded-lg shrink-0 ${isRegionSelectEnabled ? 'bg-primary-100 text-primary-600 dark:bg-primary-900/20 dark:text-primary-400' : 'bg-slate-200 text-slate-500 dark:bg-slate-700'}`}>
+                        <Crop size={20} />
+                    </div>
+                    <div className="min-w-0">
+                        <h4 className="font-bold text-sm text-slate-800 dark:text-white truncate">{t.regionSelect}</h4>
+                        <p className="text-xs text-slate-500 truncate">{t.regionSelectDesc}</p>
+                    </div>
+                 </div>
+                 <div className={`w-12 h-6 rounded-full p-1 shrink-0 transition-colors ${isRegionSelectEnabled ? 'bg-primary-500' : 'bg-slate-300 dark:bg-slate-600'}`}>
+                    <div className={`w-4 h-4 rounded-full bg-white shadow-sm transition-transform ${isRegionSelectEnabled ? 'translate-x-6' : 'translate-x-0'}`} dir="ltr"></div>
+                 </div>
+              </div>
+
+              {/* Text Normalization */}
+              <NormalizerPanel settings={normalizerSettings} onChange={setNormalizerSettings} t={t} />
+
+              {/* Post-processing */}
+              <PostProcessingPanel steps={postProcessingSteps} onChange={setPostProcessingSteps} t={t} />
+
+              {/* Extraction Mode */}
+              <div>
+                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2 flex items-center gap-2">
+                   <LayoutTemplate size={16} /> {t.extractionMode}
+                </label>
+                <div className="grid grid-cols-3 gap-1 p-1 bg-slate-100 dark:bg-slate-900 rounded-xl border border-slate-200 dark:border-slate-700">
+                  {([
+                    { mode: 'text', label: t.textMode },
+                    { mode: 'layout', label: t.layoutMode },
+                    { mode: 'table', label: t.tableMode },
+                  ] as { mode: ExtractionMode; label: string }[]).map(option => (
+                    <button
+                      key={option.mode}
+                      onClick={() => setExtractionMode(option.mode)}
+                      className={`py-1.5 rounded-lg text-sm font-medium transition-all ${
+                        extractionMode === option.mode
+                          ? 'bg-white dark:bg-slate-700 text-primary-600 dark:text-primary-300 shadow-sm'
+                          : 'text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200'
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+                {extractionMode !== 'text' && (
+                  <p className="text-xs text-slate-500 dark:text-slate-400 mt-2">
+                    {extractionMode === 'layout' ? t.layoutModeDesc : t.tableModeDesc}
+                  </p>
+                )}
+              </div>
+
               {/* Language Selector */}
               <div>
                 <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2 flex items-center gap-2">
@@ -418,23 +1169,32 @@ const App: React.FC = () => {
              {/* API Status Badge */}
              <div 
                className={`hidden md:flex items-center gap-1.5 px-3 py-1.5 rounded-full text-xs font-bold border transition-colors cursor-help
-               ${apiKey 
+               ${hasOwnKey 
                   ? 'bg-green-50 dark:bg-green-900/30 text-green-700 dark:text-green-400 border-green-200 dark:border-green-800/50' 
                   : 'bg-yellow-50 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-400 border-yellow-200 dark:border-yellow-800/50'}`}
-               title={apiKey ? t.statusConnected : t.statusDefault}
+               title={hasOwnKey ? t.statusConnected : t.statusDefault}
              >
                 <Sparkles size={14} />
-                <span>{apiKey ? 'Gemini Pro' : 'Gemini 2.5'}</span>
-                <span className={`w-2 h-2 rounded-full ml-1 ${apiKey ? 'bg-green-500 animate-pulse' : 'bg-yellow-500'}`}></span>
+                <span>{hasOwnKey ? 'Gemini Pro' : 'Gemini 2.5'}</span>
+                <span className={`w-2 h-2 rounded-full ml-1 ${hasOwnKey ? 'bg-green-500 animate-pulse' : 'bg-yellow-500'}`}></span>
              </div>
 
              <button 
                 onClick={() => setShowSettings(true)}
-                className={`p-2 rounded-lg transition-colors relative ${apiKey ? 'bg-primary-50 dark:bg-primary-900/20 text-primary-600' : 'bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-700'}`}
+                className={`p-2 rounded-lg transition-colors relative ${hasOwnKey ? 'bg-primary-50 dark:bg-primary-900/20 text-primary-600' : 'bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-700'}`}
                 aria-label={t.settings}
              >
                 <Settings size={20} />
-                {apiKey && <span className="absolute top-1.5 right-1.5 w-2 h-2 bg-green-500 rounded-full border border-white dark:border-slate-800"></span>}
+                {hasOwnKey && <span className="absolute top-1.5 right-1.5 w-2 h-2 bg-green-500 rounded-full border border-white dark:border-slate-800"></span>}
+             </button>
+
+             <button 
+                onClick={() => setShowHistory(true)}
+                className="p-2 rounded-lg bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors"
+                aria-label={t.history}
+                title={t.history}
+             >
+                <History size={20} />
              </button>
 
              <button 
@@ -487,22 +1247,63 @@ const App: React.FC = () => {
           </div>
         </div>
 
+        {/* Preprocessing */}
+        <PreprocessingPanel
+          settings={preprocessingSettings}
+          onChange={handlePreprocessingChange}
+          sourceImage={sourceImage}
+          t={t}
+        />
+
         {/* Upload Section */}
         <ImageUploader 
           onImageSelected={handleImageSelected} 
+          onPdfSelected={processPdf}
+          onFilesSelected={handleFilesSelected}
           isLoading={isLoading} 
           loadingMessage={loadingMessage}
+          progress={loadingProgress}
+          onCancel={handleCancelExtraction}
           t={t}
         />
 
+        {/* Batch Queue */}
+        {batch.items.length > 0 && (
+          <BatchQueue
+            items={batch.items}
+            isPaused={batch.isPaused}
+            concurrency={batchConcurrency}
+            onConcurrencyChange={handleBatchConcurrencyChange}
+            onPause={batch.pause}
+            onResume={batch.resume}
+            onCancel={() => batch.cancel(t.cancelled)}
+            onClear={batch.clear}
+            onRetry={batch.retry}
+            onRemove={batch.remove}
+            onOpenItem={openBatchItem}
+            onOpenAll={openBatchResults}
+            onExportAll={exportBatchResults}
+            t={t}
+          />
+        )}
+
         {/* Result Section */}
         {extractedText && (
           <div className="scroll-mt-24" id="result-section">
             <ResultEditor 
               initialText={extractedText} 
+              originalText={resultOriginalText}
+              rawText={resultRawText}
               imageSrc={resultImage} 
+              pages={resultPages}
+              blocks={resultBlocks}
+              tables={resultTables}
+              meta={resultMeta}
               fontSize={fontSize} 
               language={language}
+              onTextChange={handleEditorTextChange}
+              isStreaming={isLoading}
+              onRerun={lastSource ? handleRerun : undefined}
             />
           </div>
         )}
@@ -0,0 +1,204 @@
+import React, { useState } from 'react';
+import { Key, Plus, Trash2, ShieldCheck, ShieldAlert, Loader2, RefreshCw } from 'lucide-react';
+import { ApiKeyEntry, KeyRotationMode } from '../types';
+import { getCurrentUsage, isValidTimeZone, maskKey } from '../services/apiKeys';
+import { validateGeminiKey } from '../services/providers/geminiProvider';
+import { classifyError, OcrError } from '../services/ocrErrors';
+import { translations } from '../utils/translations';
+
+type Translation = typeof translations.fa;
+
+interface ApiKeyManagerProps {
+  keys: ApiKeyEntry[];
+  rotation: KeyRotationMode;
+  onAdd: (key: string, label: string) => boolean; // False when the key is already listed
+  onUpdate: (id: string, patch: Partial<Pick<ApiKeyEntry, 'label' | 'dailyLimit' | 'resetTimeZone'>>) => void;
+  onRemove: (id: string) => void;
+  onRotationChange: (mode: KeyRotationMode) => void;
+  isRtl: boolean;
+  t: Translation;
+}
+
+type ValidationState = { status: 'checking' } | { status: 'valid' } | { status: 'invalid'; message: string };
+
+const TIME_ZONES: string[] = typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('timeZone') : [];
+
+/**
+ * Settings section for the team's Gemini keys: labels, daily limits and
+ * reset time zones per key, plus how requests rotate between them.
+ */
+export const ApiKeyManager: React.FC<ApiKeyManagerProps> = ({ keys, rotation, onAdd, onUpdate, onRemove, onRotationChange, isRtl, t }) => {
+  const [newKey, setNewKey] = useState("");
+  const [newLabel, setNewLabel] = useState("");
+  const [addError, setAddError] = useState<string | null>(null);
+  const [validation, setValidation] = useState<Record<string, ValidationState>>({});
+
+  const ownKeys = keys.filter(entry => entry.key);
+  // The built-in key only serves requests while no own key is configured
+  const visibleKeys = ownKeys.length > 0 ? ownKeys : keys;
+
+  const handleAdd = () => {
+    if (!newKey.trim()) return;
+    if (!onAdd(newKey, newLabel)) {
+      setAddError(t.keyDuplicate);
+      return;
+    }
+    setNewKey("");
+    setNewLabel("");
+    setAddError(null);
+  };
+
+  const validate = async (entry: ApiKeyEntry) => {
+    setValidation(prev => ({ ...prev, [entry.id]: { status: 'checking' } }));
+    try {
+      await validateGeminiKey(entry.key);
+      setValidation(prev => ({ ...prev, [entry.id]: { status: 'valid' } }));
+    } catch (err) {
+      const error = classifyError(err);
+      const message = error instanceof OcrError ? t[error.messageKey] : error.message;
+      setValidation(prev => ({ ...prev, [entry.id]: { status: 'invalid', message } }));
+    }
+  };
+
+  const inputClass = "w-full py-1.5 px-3 rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-900 focus:ring-2 focus:ring-primary-500 outline-none text-sm";
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 flex items-center gap-2">
+          <Key size={16} /> {t.apiKey}
+        </label>
+        <div className="flex items-center gap-2 text-xs text-slate-500 dark:text-slate-400">
+          <RefreshCw size={14} />
+          <select
+            value={rotation}
+            onChange={(e) => onRotationChange(e.target.value as KeyRotationMode)}
+            className="py-1 px-2 rounded-lg border border-slate-300 dark:border-slate-600 bg-slate-50 dark:bg-slate-900 outline-none"
+            aria-label={t.keyRotation}
+            title={t.keyRotationDesc}
+          >
+            <option value="round-robin">{t.rotationRoundRobin}</option>
+            <option value="failover">{t.rotationFailover}</option>
+          </select>
+        </div>
+      </div>
+
+      <ul className="space-y-2">
+        {visibleKeys.map(entry => {
+          const usage = getCurrentUsage(entry);
+          const percentage = Math.min(100, (usage / Math.max(1, entry.dailyLimit)) * 100);
+          const state = validation[entry.id];
+          return (
+            <li key={entry.id} className="p-3 rounded-xl border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-900/50 space-y-2">
+              <div className="flex items-center gap-2">
+                {entry.key ? (
+                  <input
+                    type="text"
+                    value={entry.label}
+                    onChange={(e) => onUpdate(entry.id, { label: e.target.value })}
+                    placeholder={t.keyLabel}
+                    className={`${inputClass} flex-1`}
+                  />
+                ) : (
+                  <span className="flex-1 text-sm font-medium text-slate-700 dark:text-slate-300">{t.builtInKey}</span>
+                )}
+                {entry.key && <span className="text-xs font-mono text-slate-400" dir="ltr">{maskKey(entry.key)}</span>}
+                {entry.key && (
+                  <button
+                    onClick={() => validate(entry)}
+                    disabled={state?.status === 'checking'}
+                    className={`p-1.5 rounded-lg transition-colors ${
+                      state?.status === 'valid' ? 'text-green-600' :
+                      state?.status === 'invalid' ? 'text-red-500' :
+                      'text-slate-500 hover:text-primary-600'
+                    }`}
+                    title={state?.status === 'invalid' ? state.message : t.validateKey}
+                  >
+                    {state?.status === 'checking' ? <Loader2 size={16} className="animate-spin" /> :
+                     state?.status === 'invalid' ? <ShieldAlert size={16} /> :
+                     <ShieldCheck size={16} />}
+                  </button>
+                )}
+                {entry.key && (
+                  <button onClick={() => onRemove(entry.id)} className="p-1.5 text-slate-500 hover:text-red-600" title={t.remove}>
+                    <Trash2 size={16} />
+                  </button>
+                )}
+              </div>
+              {state?.status === 'invalid' && <p className="text-xs text-red-500">{state.message}</p>}
+
+              <div className="relative w-full h-2 bg-slate-200 dark:bg-slate-700 rounded-full overflow-hidden">
+                <div
+                  className={`absolute top-0 h-full rounded-full transition-all duration-500 ${percentage > 90 ? 'bg-red-500' : 'bg-primary-500'} ${isRtl ? 'right-0' : 'left-0'}`}
+                  style={{ width: `${percentage}%` }}
+                ></div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-2 text-xs text-slate-500 dark:text-slate-400">
+                <label className="flex flex-col gap-1">
+                  <span>{t.dailyLimit} <span className="font-mono">({usage})</span></span>
+                  <input
+                    type="number"
+                    min={1}
+                    value={entry.dailyLimit}
+                    onChange={(e) => onUpdate(entry.id, { dailyLimit: Math.max(1, parseInt(e.target.value) || 1) })}
+                    className={inputClass}
+                    dir="ltr"
+                  />
+                </label>
+                <label className="flex flex-col gap-1">
+                  <span>{t.resetTimeZone}</span>
+                  <input
+                    type="text"
+                    list="api-key-time-zones"
+                    defaultValue={entry.resetTimeZone}
+                    onBlur={(e) => {
+                      if (isValidTimeZone(e.target.value)) onUpdate(entry.id, { resetTimeZone: e.target.value });
+                      else e.target.value = entry.resetTimeZone;
+                    }}
+                    className={inputClass}
+                    dir="ltr"
+                  />
+                </label>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+      <datalist id="api-key-time-zones">
+        {TIME_ZONES.map(zone => <option key={zone} value={zone} />)}
+      </datalist>
+
+      <div className="mt-3 flex flex-col sm:flex-row gap-2">
+        <input
+          type="text"
+          value={newLabel}
+          onChange={(e) => setNewLabel(e.target.value)}
+          placeholder={t.keyLabel}
+          className={`${inputClass} sm:w-32`}
+        />
+        <input
+          type="password"
+          value={newKey}
+          onChange={(e) => { setNewKey(e.target.value); setAddError(null); }}
+          onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+          placeholder={t.apiKeyPlaceholder}
+          className={`${inputClass} flex-1`}
+          dir="ltr"
+        />
+        <button
+          onClick={handleAdd}
+          disabled={!newKey.trim()}
+          className="flex items-center justify-center gap-1.5 px-3 py-1.5 rounded-lg text-sm font-medium bg-primary-600 hover:bg-primary-700 text-white transition-colors disabled:opacity-50"
+        >
+          <Plus size={16} />
+          {t.addKey}
+        </button>
+      </div>
+      {addError && <p className="text-xs text-red-500 mt-1">{addError}</p>}
+      <p className="text-xs text-slate-500 dark:text-slate-400 mt-2">
+        {t.apiKeysHelp}
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,147 @@
+import React from 'react';
+import { Layers, Pause, Play, XCircle, Trash2, RotateCcw, FileText, FileDown, X, Loader2 } from 'lucide-react';
+import { BatchItem, BatchItemStatus } from '../types';
+import { translations } from '../utils/translations';
+
+type Translation = typeof translations.fa;
+
+interface BatchQueueProps {
+  items: BatchItem[];
+  isPaused: boolean;
+  concurrency: number;
+  onConcurrencyChange: (value: number) => void;
+  onPause: () => void;
+  onResume: () => void;
+  onCancel: () => void;
+  onClear: () => void;
+  onRetry: (id: string) => void;
+  onRemove: (id: string) => void;
+  onOpenItem: (item: BatchItem) => void;
+  onOpenAll: () => void;
+  onExportAll: () => void;
+  t: Translation;
+}
+
+const statusStyles: Record<BatchItemStatus, string> = {
+  pending: 'bg-slate-100 text-slate-600 dark:bg-slate-700 dark:text-slate-300',
+  running: 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-400',
+  done: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400',
+  failed: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400',
+  retry: 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-400',
+};
+
+export const BatchQueue: React.FC<BatchQueueProps> = ({
+  items, isPaused, concurrency, onConcurrencyChange, onPause, onResume, onCancel, onClear,
+  onRetry, onRemove, onOpenItem, onOpenAll, onExportAll, t
+}) => {
+  const statusLabels: Record<BatchItemStatus, string> = {
+    pending: t.batchStatusPending,
+    running: t.batchStatusRunning,
+    done: t.batchStatusDone,
+    failed: t.batchStatusFailed,
+    retry: t.batchStatusRetry,
+  };
+
+  const doneCount = items.filter(item => item.status === 'done').length;
+  const isActive = items.some(item => ['pending', 'running', 'retry'].includes(item.status));
+
+  return (
+    <div className="mb-8 bg-white dark:bg-slate-800 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-700 overflow-hidden animate-fade-in-up">
+      {/* Header */}
+      <div className="flex flex-wrap items-center justify-between gap-3 p-4 border-b border-slate-200 dark:border-slate-700">
+        <div className="flex items-center gap-3">
+          <div className="p-2.5 bg-primary-50 dark:bg-primary-900/20 text-primary-600 dark:text-primary-400 rounded-xl">
+            <Layers size={20} />
+          </div>
+          <div>
+            <h3 className="font-bold text-slate-800 dark:text-white">{t.batchQueue}</h3>
+            <p className="text-xs text-slate-500 dark:text-slate-400 font-mono">{doneCount} / {items.length}</p>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <label className="flex items-center gap-2 text-xs text-slate-500 dark:text-slate-400">
+            {t.concurrency}
+            <select
+              value={concurrency}
+              onChange={(e) => onConcurrencyChange(parseInt(e.target.value))}
+              className="p-1 rounded-lg border border-slate-300 dark:border-slate-600 bg-slate-50 dark:bg-slate-900 outline-none"
+            >
+              {[1, 2, 3, 4, 5].map(n => <option key={n} value={n}>{n}</option>)}
+            </select>
+          </label>
+
+          {isActive && (
+            isPaused ? (
+              <button onClick={onResume} className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm bg-slate-100 dark:bg-slate-700 hover:bg-slate-200 dark:hover:bg-slate-600 transition-colors">
+                <Play size={14} /> {t.resume}
+              </button>
+            ) : (
+              <button onClick={onPause} className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm bg-slate-100 dark:bg-slate-700 hover:bg-slate-200 dark:hover:bg-slate-600 transition-colors">
+                <Pause size={14} /> {t.pause}
+              </button>
+            )
+          )}
+          {isActive && (
+            <button onClick={onCancel} className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm text-red-600 bg-red-50 dark:bg-red-900/20 hover:bg-red-100 dark:hover:bg-red-900/40 transition-colors">
+              <XCircle size={14} /> {t.cancel}
+            </button>
+          )}
+          <button
+            onClick={onOpenAll}
+            disabled={doneCount === 0}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm bg-slate-100 dark:bg-slate-700 hover:bg-slate-200 dark:hover:bg-slate-600 transition-colors disabled:opacity-50"
+          >
+            <FileText size={14} /> {t.openInEditor}
+          </button>
+          <button
+            onClick={onExportAll}
+            disabled={doneCount === 0}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm text-white bg-slate-800 hover:bg-slate-900 dark:bg-primary-600 dark:hover:bg-primary-700 transition-colors disabled:opacity-50"
+          >
+            <FileDown size={14} /> {t.exportAll}
+          </button>
+          <button onClick={onClear} className="p-1.5 rounded-lg text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors" title={t.clear}>
+            <Trash2 size={16} />
+          </button>
+        </div>
+      </div>
+
+      {/* Items */}
+      <ul className="divide-y divide-slate-100 dark:divide-slate-700 max-h-96 overflow-y-auto">
+        {items.map(item => (
+          <li key={item.id} className="flex items-center gap-3 px-4 py-3">
+            <img src={item.base64} alt={item.name} className="w-12 h-12 object-cover rounded-lg border border-slate-200 dark:border-slate-700 shrink-0" />
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-medium text-slate-800 dark:text-slate-200 truncate" dir="ltr">{item.name}</p>
+              <p className="text-xs text-slate-500 dark:text-slate-400 truncate">
+                {item.status === 'done' ? item.text : item.message || item.error}
+              </p>
+            </div>
+            <span className={`flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium shrink-0 ${statusStyles[item.status]}`}>
+              {item.status === 'running' && <Loader2 size={12} className="animate-spin" />}
+              {statusLabels[item.status]}
+            </span>
+            <div className="flex items-center gap-1 shrink-0">
+              {item.status === 'done' && (
+                <button onClick={() => onOpenItem(item)} className="p-1.5 rounded-lg text-slate-500 hover:text-primary-600 hover:bg-slate-100 dark:hover:bg-slate-700" title={t.openInEditor}>
+                  <FileText size={16} />
+                </button>
+              )}
+              {item.status === 'failed' && (
+                <button onClick={() => onRetry(item.id)} className="p-1.5 rounded-lg text-slate-500 hover:text-primary-600 hover:bg-slate-100 dark:hover:bg-slate-700" title={t.retry}>
+                  <RotateCcw size={16} />
+                </button>
+              )}
+              {item.status !== 'running' && (
+                <button onClick={() => onRemove(item.id)} className="p-1.5 rounded-lg text-slate-500 hover:text-red-600 hover:bg-slate-100 dark:hover:bg-slate-700" title={t.remove}>
+                  <X size={16} />
+                </button>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
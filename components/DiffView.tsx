@@ -0,0 +1,53 @@
+import React, { useMemo } from 'react';
+import { TextDirection } from '../types';
+import { diffText, countChangedWords } from '../utils/textDiff';
+import { translations } from '../utils/translations';
+
+type Translation = typeof translations.fa;
+
+interface DiffViewProps {
+  original: string; // Text as the OCR engine returned it
+  edited: string;
+  direction: TextDirection;
+  fontSize: number;
+  t: Translation;
+}
+
+/**
+ * Inline view of the user's edits: removed words struck through in red,
+ * added words highlighted in green.
+ */
+export const DiffView: React.FC<DiffViewProps> = ({ original, edited, direction, fontSize, t }) => {
+  const segments = useMemo(() => diffText(original, edited), [original, edited]);
+  const { added, removed } = countChangedWords(segments);
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0">
+      <div className="px-4 py-1.5 text-xs border-b border-slate-100 dark:border-slate-700 flex gap-3">
+        {added === 0 && removed === 0 ? (
+          <span className="text-slate-500 dark:text-slate-400">{t.noChanges}</span>
+        ) : (
+          <>
+            <span className="text-green-600 dark:text-green-400 font-mono">+{added} {t.wordsAdded}</span>
+            <span className="text-red-500 font-mono">−{removed} {t.wordsRemoved}</span>
+          </>
+        )}
+      </div>
+      <div
+        dir={direction}
+        style={{ fontSize: `${fontSize}px` }}
+        className="flex-1 overflow-y-auto p-6 leading-loose whitespace-pre-wrap break-words text-slate-800 dark:text-slate-100"
+      >
+        {segments.map((segment, i) =>
+          segment.op === 'equal' ? (
+            <span key={i}>{segment.text}</span>
+          ) : segment.op === 'insert' ? (
+            <ins key={i} className="no-underline bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300 rounded-sm">{segment.text}</ins>
+          ) : (
+            <del key={i} className="bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300 rounded-sm">{segment.text}</del>
+          )
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,121 @@
+import React from 'react';
+import { ChevronUp, ChevronDown, X, CaseSensitive, WholeWord, Regex, Languages, Replace, ReplaceAll } from 'lucide-react';
+import { SearchOptions } from '../utils/textSearch';
+import { translations } from '../utils/translations';
+
+type Translation = typeof translations.fa;
+
+interface FindReplacePanelProps {
+  query: string;
+  replacement: string;
+  options: SearchOptions;
+  matchCount: number;
+  currentIndex: number; // -1 without matches
+  error: string | null;
+  canReplace: boolean; // False while the text is still streaming
+  onQueryChange: (query: string) => void;
+  onReplacementChange: (replacement: string) => void;
+  onOptionsChange: (options: SearchOptions) => void;
+  onNext: () => void;
+  onPrevious: () => void;
+  onReplace: () => void;
+  onReplaceAll: () => void;
+  onClose: () => void;
+  t: Translation;
+}
+
+/**
+ * Find/replace bar above the editor. Enter and Shift+Enter step through
+ * matches, Escape closes it.
+ */
+export const FindReplacePanel: React.FC<FindReplacePanelProps> = ({
+  query, replacement, options, matchCount, currentIndex, error, canReplace,
+  onQueryChange, onReplacementChange, onOptionsChange, onNext, onPrevious, onReplace, onReplaceAll, onClose, t,
+}) => {
+  const toggles: { key: keyof SearchOptions; label: string; icon: React.ReactNode }[] = [
+    { key: 'caseSensitive', label: t.caseSensitive, icon: <CaseSensitive size={16} /> },
+    { key: 'wholeWord', label: t.wholeWord, icon: <WholeWord size={16} /> },
+    { key: 'regex', label: t.useRegex, icon: <Regex size={16} /> },
+    { key: 'ignoreVariants', label: t.ignoreLetterVariants, icon: <Languages size={16} /> },
+  ];
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      if (e.shiftKey) onPrevious();
+      else onNext();
+    }
+  };
+
+  const inputClass = "flex-1 min-w-0 py-1 px-2 rounded-md border bg-white dark:bg-slate-900 focus:ring-2 focus:ring-primary-500 outline-none text-sm";
+  const buttonClass = "p-1.5 rounded-md text-slate-500 dark:text-slate-400 hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors disabled:opacity-40";
+
+  return (
+    <div className="px-4 py-2 space-y-2 bg-slate-50 dark:bg-slate-850 border-b border-slate-200 dark:border-slate-700">
+      <div className="flex items-center gap-1">
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => onQueryChange(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder={t.findPattern}
+          className={`${inputClass} ${error ? 'border-red-500' : 'border-slate-300 dark:border-slate-600'}`}
+          dir="auto"
+          autoFocus
+        />
+        <span className={`min-w-[56px] text-center text-xs font-mono ${query && matchCount === 0 ? 'text-red-500' : 'text-slate-500 dark:text-slate-400'}`} dir="ltr">
+          {query ? `${currentIndex + 1}/${matchCount}` : ''}
+        </span>
+        <button onClick={onPrevious} disabled={matchCount === 0} className={buttonClass} title={`${t.previousMatch} (Shift+Enter)`}>
+          <ChevronUp size={16} />
+        </button>
+        <button onClick={onNext} disabled={matchCount === 0} className={buttonClass} title={`${t.nextMatch} (Enter)`}>
+          <ChevronDown size={16} />
+        </button>
+        <button onClick={onClose} className={buttonClass} title={`${t.close} (Esc)`}>
+          <X size={16} />
+        </button>
+      </div>
+
+      <div className="flex items-center gap-1">
+        <input
+          type="text"
+          value={replacement}
+          onChange={(e) => onReplacementChange(e.target.value)}
+          onKeyDown={(e) => e.key === 'Escape' && onClose()}
+          placeholder={t.replaceWith}
+          className={`${inputClass} border-slate-300 dark:border-slate-600`}
+          dir="auto"
+        />
+        <button onClick={onReplace} disabled={!canReplace || currentIndex < 0} className={buttonClass} title={t.replace}>
+          <Replace size={16} />
+        </button>
+        <button onClick={onReplaceAll} disabled={!canReplace || matchCount === 0} className={buttonClass} title={t.replaceAll}>
+          <ReplaceAll size={16} />
+        </button>
+      </div>
+
+      <div className="flex items-center gap-1">
+        {toggles.map(toggle => (
+          <button
+            key={toggle.key}
+            onClick={() => onOptionsChange({ ...options, [toggle.key]: !options[toggle.key] })}
+            className={`p-1.5 rounded-md transition-colors ${
+              options[toggle.key]
+                ? 'bg-white dark:bg-slate-600 text-primary-600 dark:text-primary-300 shadow-sm'
+                : 'text-slate-500 dark:text-slate-400 hover:bg-slate-200 dark:hover:bg-slate-700'
+            }`}
+            title={toggle.label}
+            aria-pressed={options[toggle.key]}
+          >
+            {toggle.icon}
+          </button>
+        ))}
+        {error && <span className="text-xs text-red-500 truncate" dir="ltr" title={error}>{t.invalidPattern}: {error}</span>}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,137 @@
+import React, { useState, useMemo } from 'react';
+import { History, X, Trash2, Pencil, Search } from 'lucide-react';
+import { HistoryEntry } from '../types';
+import { HISTORY_STORAGE_LIMIT } from '../services/historyStore';
+import { createSearchIndex, searchHistory, SnippetPart } from '../services/historySearch';
+import { translations, Language } from '../utils/translations';
+
+type Translation = typeof translations.fa;
+
+interface HistorySidebarProps {
+  entries: HistoryEntry[];
+  activeId: string | null;
+  usage: number; // Bytes currently stored
+  onOpen: (entry: HistoryEntry) => void;
+  onDelete: (id: string) => void;
+  onClear: () => void;
+  onClose: () => void;
+  language: Language;
+  t: Translation;
+}
+
+const formatMegabytes = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+export const HistorySidebar: React.FC<HistorySidebarProps> = ({
+  entries, activeId, usage, onOpen, onDelete, onClear, onClose, language, t
+}) => {
+  const [query, setQuery] = useState('');
+  const usagePercentage = Math.min(100, (usage / HISTORY_STORAGE_LIMIT) * 100);
+
+  const index = useMemo(() => createSearchIndex(entries), [entries]);
+  const isSearching = query.trim().length > 0;
+  // Without a query every entry is listed with its plain text as the preview
+  const results = useMemo(
+    () => isSearching
+      ? searchHistory(index, query)
+      : entries.map(entry => ({ entry, snippet: [{ text: entry.editedText ?? entry.text, highlight: false }] as SnippetPart[] })),
+    [index, entries, query, isSearching]
+  );
+
+  const handleClear = () => {
+    if (window.confirm(t.confirmClearHistory)) onClear();
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex" onClick={onClose}>
+      <div className="absolute inset-0 bg-black/40 backdrop-blur-sm" />
+      <aside
+        onClick={(e) => e.stopPropagation()}
+        className="relative w-full max-w-sm h-full bg-white dark:bg-slate-800 border-e border-slate-200 dark:border-slate-700 shadow-2xl flex flex-col animate-fade-in-up"
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-850">
+          <h3 className="font-bold flex items-center gap-2 text-slate-800 dark:text-white">
+            <History size={20} />
+            {t.history}
+          </h3>
+          <div className="flex items-center gap-1">
+            {entries.length > 0 && (
+              <button onClick={handleClear} className="p-1.5 rounded-lg text-slate-500 hover:text-red-600 hover:bg-slate-100 dark:hover:bg-slate-700" title={t.clear}>
+                <Trash2 size={18} />
+              </button>
+            )}
+            <button onClick={onClose} className="p-1.5 rounded-lg text-slate-500 hover:text-slate-700 dark:hover:text-slate-300">
+              <X size={20} />
+            </button>
+          </div>
+        </div>
+
+        {/* Search */}
+        <div className="p-3 border-b border-slate-200 dark:border-slate-700">
+          <div className="relative">
+            <Search size={16} className="absolute inset-y-0 start-3 my-auto text-slate-400 pointer-events-none" />
+            <input
+              type="search"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder={t.searchHistory}
+              dir="auto"
+              className="w-full py-2 ps-9 pe-3 rounded-xl border border-slate-300 dark:border-slate-600 bg-slate-50 dark:bg-slate-900 focus:ring-2 focus:ring-primary-500 outline-none text-sm"
+            />
+          </div>
+        </div>
+
+        {/* Entries */}
+        <ul className="flex-1 overflow-y-auto divide-y divide-slate-100 dark:divide-slate-700">
+          {results.length === 0 && (
+            <li className="p-8 text-center text-sm text-slate-500 dark:text-slate-400">{isSearching ? t.noSearchResults : t.historyEmpty}</li>
+          )}
+          {results.map(({ entry, snippet }) => (
+            <li
+              key={entry.id}
+              onClick={() => onOpen(entry)}
+              className={`group flex items-start gap-3 p-3 cursor-pointer transition-colors ${
+                entry.id === activeId ? 'bg-primary-50 dark:bg-primary-900/20' : 'hover:bg-slate-50 dark:hover:bg-slate-700/50'
+              }`}
+            >
+              <img src={entry.thumbnail} alt="" className="w-14 h-14 object-cover rounded-lg border border-slate-200 dark:border-slate-700 shrink-0" />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm text-slate-800 dark:text-slate-200 line-clamp-2" dir="auto">
+                  {snippet.map((part, i) => part.highlight
+                    ? <mark key={i} className="bg-yellow-200 dark:bg-yellow-500/40 text-inherit rounded-sm">{part.text}</mark>
+                    : <React.Fragment key={i}>{part.text}</React.Fragment>
+                  )}
+                </p>
+                <div className="flex items-center gap-2 mt-1 text-[11px] text-slate-400">
+                  <span>{new Date(entry.updatedAt).toLocaleString(language)}</span>
+                  <span className="font-mono" dir="ltr">{entry.meta.model}</span>
+                  {entry.editedText !== undefined && (
+                    <span className="flex items-center gap-0.5" title={t.historyEdited}><Pencil size={10} /></span>
+                  )}
+                </div>
+              </div>
+              <button
+                onClick={(e) => { e.stopPropagation(); onDelete(entry.id); }}
+                className="p-1.5 rounded-lg text-slate-400 hover:text-red-600 hover:bg-slate-100 dark:hover:bg-slate-700 opacity-0 group-hover:opacity-100 transition-opacity shrink-0"
+                title={t.remove}
+              >
+                <X size={16} />
+              </button>
+            </li>
+          ))}
+        </ul>
+
+        {/* Storage usage */}
+        <div className="p-4 border-t border-slate-200 dark:border-slate-700 text-xs text-slate-500 dark:text-slate-400">
+          <div className="flex justify-between mb-1.5">
+            <span>{t.historyStorage}</span>
+            <span className="font-mono" dir="ltr">{formatMegabytes(usage)} / {formatMegabytes(HISTORY_STORAGE_LIMIT)}</span>
+          </div>
+          <div className="w-full h-1.5 bg-slate-200 dark:bg-slate-700 rounded-full overflow-hidden">
+            <div className="h-full bg-primary-500 rounded-full transition-all" style={{ width: `${usagePercentage}%` }} />
+          </div>
+        </div>
+      </aside>
+    </div>
+  );
+};
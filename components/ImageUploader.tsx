@@ -1,38 +1,32 @@
-import React, { useCallback, useState, useEffect } from 'react';
-import { Upload } from 'lucide-react';
+import React, { useCallback, useState } from 'react';
+import { Upload, X } from 'lucide-react';
 import { translations } from '../utils/translations';
+import { isPdfFile } from '../utils/pdfUtils';
 
 type Translation = typeof translations.fa;
 
 interface ImageUploaderProps {
   onImageSelected: (base64: string, mimeType: string) => void;
+  onPdfSelected?: (file: File) => void;
+  onFilesSelected?: (files: File[]) => void; // Called instead of the single-file handlers when several files are picked
   isLoading: boolean;
   loadingMessage?: string;
+  progress?: number; // Progress (0-100) reported by the extraction; an indeterminate bar is shown when omitted
+  onCancel?: () => void; // Shows a Cancel button while loading
   t: Translation;
 }
 
-export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageSelected, isLoading, loadingMessage, t }) => {
+export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageSelected, onPdfSelected, onFilesSelected, isLoading, loadingMessage, progress, onCancel, t }) => {
   const [dragActive, setDragActive] = useState(false);
   const [preview, setPreview] = useState<string | null>(null);
-  const [progress, setProgress] = useState(0);
 
-  // Simulated progress bar effect
-  useEffect(() => {
-    if (isLoading) {
-      setProgress(0);
-      const interval = setInterval(() => {
-        setProgress((prev) => {
-          if (prev >= 90) return prev;
-          return prev + Math.random() * 10;
-        });
-      }, 500);
-      return () => clearInterval(interval);
-    } else {
-      setProgress(100);
+  const handleFile = (file: File) => {
+    if (onPdfSelected && isPdfFile(file)) {
+      setPreview(null);
+      onPdfSelected(file);
+      return;
     }
-  }, [isLoading]);
 
-  const handleFile = (file: File) => {
     if (!file.type.startsWith('image/')) {
       // Handled by parent toast now, but redundant check is okay
       return;
@@ -47,10 +41,20 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageSelected, i
     reader.readAsDataURL(file);
   };
 
+  const handleFiles = (files: FileList) => {
+    if (onFilesSelected && files.length > 1) {
+      setPreview(null);
+      onFilesSelected(Array.from(files));
+    } else if (files[0]) {
+      handleFile(files[0]);
+    }
+  };
+
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     e.preventDefault();
-    if (e.target.files && e.target.files[0]) {
-      handleFile(e.target.files[0]);
+    if (e.target.files) {
+      handleFiles(e.target.files);
+      e.target.value = ''; // Allow picking the same files again
     }
   };
 
@@ -68,10 +72,10 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageSelected, i
     e.preventDefault();
     e.stopPropagation();
     setDragActive(false);
-    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      handleFile(e.dataTransfer.files[0]);
+    if (e.dataTransfer.files) {
+      handleFiles(e.dataTransfer.files);
     }
-  }, []);
+  }, [onImageSelected, onPdfSelected, onFilesSelected]);
 
   return (
     <div className="w-full mb-8">
@@ -80,7 +84,7 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageSelected, i
         ${dragActive 
             ? 'border-primary-500 bg-primary-50 dark:bg-primary-900/20 scale-[1.01]' 
             : 'border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800 hover:border-primary-400 dark:hover:border-primary-500 hover:bg-slate-50 dark:hover:bg-slate-750'}
-        ${isLoading ? 'pointer-events-none' : ''}`}
+        ${isLoading ? 'cursor-default' : ''}`}
         onDragEnter={handleDrag}
         onDragLeave={handleDrag}
         onDragOver={handleDrag}
@@ -90,7 +94,8 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageSelected, i
           type="file"
           className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-10"
           onChange={handleChange}
-          accept="image/*"
+          accept={onPdfSelected ? "image/*,application/pdf" : "image/*"}
+          multiple={!!onFilesSelected}
           disabled={isLoading}
         />
 
@@ -127,12 +132,28 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageSelected, i
             
             {/* Progress Bar */}
             <div className="w-full max-w-[200px] h-2 bg-slate-200 dark:bg-slate-700 rounded-full overflow-hidden">
-                <div 
-                    className="h-full bg-gradient-to-r from-primary-500 to-primary-400 transition-all duration-300 ease-out"
-                    style={{ width: `${progress}%` }}
-                ></div>
+                {progress !== undefined ? (
+                  <div 
+                      className="h-full bg-gradient-to-r from-primary-500 to-primary-400 transition-all duration-300 ease-out"
+                      style={{ width: `${progress}%` }}
+                  ></div>
+                ) : (
+                  <div className="h-full w-2/5 bg-gradient-to-r from-primary-500 to-primary-400 rounded-full animate-indeterminate"></div>
+                )}
             </div>
-            <p className="mt-2 text-xs text-slate-500 font-mono">{Math.round(progress)}%</p>
+            {progress !== undefined && (
+              <p className="mt-2 text-xs text-slate-500 font-mono">{Math.round(progress)}%</p>
+            )}
+
+            {onCancel && (
+              <button
+                onClick={onCancel}
+                className="mt-4 flex items-center gap-1.5 px-4 py-1.5 rounded-xl text-sm font-medium text-slate-600 dark:text-slate-300 bg-slate-100 dark:bg-slate-800 hover:bg-red-50 hover:text-red-600 dark:hover:bg-red-900/20 dark:hover:text-red-400 transition-colors"
+              >
+                <X size={16} />
+                {t.cancel}
+              </button>
+            )}
           </div>
         )}
       </div>
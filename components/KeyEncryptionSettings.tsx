@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import { Lock, LockOpen, ShieldCheck, Loader2 } from 'lucide-react';
+import { translations } from '../utils/translations';
+
+type Translation = typeof translations.fa;
+
+interface KeyEncryptionSettingsProps {
+  isEncrypted: boolean;
+  isLocked: boolean;
+  autoLockMinutes: number; // 0 = never
+  allowUrlKey: boolean;
+  onEnable: (passphrase: string) => Promise<void>;
+  onDisable: () => void;
+  onLock: () => void;
+  onRequestUnlock: () => void;
+  onAutoLockChange: (minutes: number) => void;
+  onAllowUrlKeyChange: (allow: boolean) => void;
+  t: Translation;
+}
+
+const AUTO_LOCK_OPTIONS = [0, 5, 15, 30, 60];
+const MIN_PASSPHRASE_LENGTH = 8;
+
+/**
+ * Settings for protecting stored API keys: passphrase encryption, auto-lock
+ * and whether a key may be imported from the `?key=` URL parameter.
+ */
+export const KeyEncryptionSettings: React.FC<KeyEncryptionSettingsProps> = ({
+  isEncrypted, isLocked, autoLockMinutes, allowUrlKey,
+  onEnable, onDisable, onLock, onRequestUnlock, onAutoLockChange, onAllowUrlKeyChange, t
+}) => {
+  const [isSettingUp, setIsSettingUp] = useState(false);
+  const [passphrase, setPassphrase] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const mismatch = confirmation.length > 0 && passphrase !== confirmation;
+  const canEnable = passphrase.length >= MIN_PASSPHRASE_LENGTH && passphrase === confirmation && !isSaving;
+
+  const handleEnable = async () => {
+    if (!canEnable) return;
+    setIsSaving(true);
+    try {
+      await onEnable(passphrase);
+      setIsSettingUp(false);
+      setPassphrase("");
+      setConfirmation("");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDisable = () => {
+    if (window.confirm(t.confirmDisableEncryption)) onDisable();
+  };
+
+  const inputClass = "w-full py-1.5 px-3 rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-900 focus:ring-2 focus:ring-primary-500 outline-none text-sm";
+  const buttonClass = "flex items-center justify-center gap-1.5 px-3 py-1.5 rounded-lg text-sm font-medium transition-colors disabled:opacity-50";
+
+  return (
+    <div className="p-3 rounded-xl border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-900 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 min-w-0">
+          {isEncrypted ? <ShieldCheck size={16} className="text-green-600 shrink-0" /> : <LockOpen size={16} className="text-slate-400 shrink-0" />}
+          <div className="min-w-0">
+            <h4 className="font-bold text-sm text-slate-800 dark:text-white">{t.keyEncryption}</h4>
+            <p className="text-xs text-slate-500">{isEncrypted ? (isLocked ? t.keysLocked : t.keyEncryptionOn) : t.keyEncryptionDesc}</p>
+          </div>
+        </div>
+        {isEncrypted ? (
+          isLocked ? (
+            <button onClick={onRequestUnlock} className={`${buttonClass} bg-primary-600 hover:bg-primary-700 text-white`}>
+              <LockOpen size={14} /> {t.unlock}
+            </button>
+          ) : (
+            <button onClick={onLock} className={`${buttonClass} bg-slate-200 dark:bg-slate-700 text-slate-700 dark:text-slate-200 hover:bg-slate-300 dark:hover:bg-slate-600`}>
+              <Lock size={14} /> {t.lockNow}
+            </button>
+          )
+        ) : !isSettingUp && (
+          <button onClick={() => setIsSettingUp(true)} className={`${buttonClass} bg-primary-600 hover:bg-primary-700 text-white`}>
+            <Lock size={14} /> {t.encryptKeys}
+          </button>
+        )}
+      </div>
+
+      {!isEncrypted && isSettingUp && (
+        <div className="space-y-2">
+          <input
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            placeholder={t.passphrase}
+            autoComplete="new-password"
+            className={inputClass}
+          />
+          <input
+            type="password"
+            value={confirmation}
+            onChange={(e) => setConfirmation(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleEnable()}
+            placeholder={t.confirmPassphrase}
+            autoComplete="new-password"
+            className={inputClass}
+          />
+          <p className={`text-xs ${mismatch ? 'text-red-500' : 'text-slate-500 dark:text-slate-400'}`}>
+            {mismatch ? t.passphraseMismatch : t.passphraseHint}
+          </p>
+          <div className="flex gap-2">
+            <button
+              onClick={() => { setIsSettingUp(false); setPassphrase(""); setConfirmation(""); }}
+              className={`${buttonClass} flex-1 text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-700`}
+            >
+              {t.cancel}
+            </button>
+            <button onClick={handleEnable} disabled={!canEnable} className={`${buttonClass} flex-1 bg-primary-600 hover:bg-primary-700 text-white`}>
+              {isSaving && <Loader2 size={14} className="animate-spin" />}
+              {t.encryptKeys}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {isEncrypted && (
+        <div className="flex items-center justify-between gap-2 text-xs text-slate-500 dark:text-slate-400">
+          <label className="flex items-center gap-2">
+            {t.autoLock}
+            <select
+              value={autoLockMinutes}
+              onChange={(e) => onAutoLockChange(parseInt(e.target.value))}
+              className="py-1 px-2 rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-900 outline-none"
+            >
+              {AUTO_LOCK_OPTIONS.map(minutes => (
+                <option key={minutes} value={minutes}>{minutes === 0 ? t.autoLockNever : `${minutes} ${t.minutes}`}</option>
+              ))}
+            </select>
+          </label>
+          {!isLocked && (
+            <button onClick={handleDisable} className="hover:text-red-600 transition-colors">
+              {t.disableEncryption}
+            </button>
+          )}
+        </div>
+      )}
+
+      <label className="flex items-center gap-2 text-xs text-slate-600 dark:text-slate-300 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={allowUrlKey}
+          onChange={(e) => onAllowUrlKeyChange(e.target.checked)}
+          className="accent-primary-600"
+        />
+        {t.allowUrlKey}
+      </label>
+    </div>
+  );
+};
@@ -0,0 +1,49 @@
+import React from 'react';
+import { TextDirection } from '../types';
+import { TextMatch } from '../utils/textSearch';
+
+interface MatchHighlightsProps {
+  text: string;
+  matches: TextMatch[];
+  currentIndex: number;
+  direction: TextDirection;
+  fontSize: number;
+  containerRef: React.RefObject<HTMLDivElement>; // Scrolled by the editor to follow the textarea
+}
+
+/**
+ * Layer behind a transparent textarea that marks search matches. It must lay
+ * out text exactly like the textarea, so padding, font and scrolling match.
+ */
+export const MatchHighlights: React.FC<MatchHighlightsProps> = ({ text, matches, currentIndex, direction, fontSize, containerRef }) => {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  matches.forEach((match, i) => {
+    if (match.start < cursor) return; // Overlaps the previous match
+    parts.push(text.slice(cursor, match.start));
+    parts.push(
+      <mark
+        key={i}
+        data-current={i === currentIndex || undefined}
+        className={`text-transparent rounded-sm ${i === currentIndex ? 'bg-orange-300 dark:bg-orange-500/60' : 'bg-yellow-200 dark:bg-yellow-500/30'}`}
+      >
+        {text.slice(match.start, match.end)}
+      </mark>
+    );
+    cursor = match.end;
+  });
+  // The trailing newline keeps a final empty line as tall as in the textarea
+  parts.push(text.slice(cursor) + '\n');
+
+  return (
+    <div
+      ref={containerRef}
+      dir={direction}
+      style={{ fontSize: `${fontSize}px` }}
+      className="absolute inset-0 p-6 leading-loose overflow-y-scroll whitespace-pre-wrap break-words text-transparent pointer-events-none select-none"
+      aria-hidden="true"
+    >
+      {parts}
+    </div>
+  );
+};
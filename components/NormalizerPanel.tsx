@@ -0,0 +1,47 @@
+import React from 'react';
+import { Languages } from 'lucide-react';
+import { NormalizerSettings } from '../types';
+import { translations } from '../utils/translations';
+
+type Translation = typeof translations.fa;
+
+interface NormalizerPanelProps {
+  settings: NormalizerSettings;
+  onChange: (settings: NormalizerSettings) => void;
+  t: Translation;
+}
+
+export const NormalizerPanel: React.FC<NormalizerPanelProps> = ({ settings, onChange, t }) => {
+  const rules: { key: keyof NormalizerSettings; label: string }[] = [
+    { key: 'arabicLetters', label: t.normalizeArabicLetters },
+    { key: 'zwnj', label: t.normalizeZwnj },
+    { key: 'punctuationSpacing', label: t.normalizePunctuation },
+    { key: 'removeKashida', label: t.normalizeKashida },
+    { key: 'collapseWhitespace', label: t.normalizeWhitespace },
+    { key: 'persianDigits', label: t.normalizeDigits },
+  ];
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2 flex items-center gap-2">
+        <Languages size={16} /> {t.normalizer}
+      </label>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+        {rules.map(rule => (
+          <label key={rule.key} className="flex items-center gap-2 px-3 py-2 rounded-lg bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 text-sm cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings[rule.key]}
+              onChange={(e) => onChange({ ...settings, [rule.key]: e.target.checked })}
+              className="accent-primary-600"
+            />
+            {rule.label}
+          </label>
+        ))}
+      </div>
+      <p className="text-xs text-slate-500 dark:text-slate-400 mt-2">
+        {t.normalizerDesc}
+      </p>
+    </div>
+  );
+};
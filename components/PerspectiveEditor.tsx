@@ -0,0 +1,129 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Scan, X, Wand2, Loader2, Check } from 'lucide-react';
+import { Point } from '../types';
+import { detectPageCorners, FULL_IMAGE_CORNERS } from '../utils/perspective';
+import { translations } from '../utils/translations';
+
+type Translation = typeof translations.fa;
+
+interface PerspectiveEditorProps {
+  image: string;
+  onConfirm: (corners: Point[] | null) => void; // null keeps the original image
+  onCancel: () => void;
+  t: Translation;
+}
+
+const clamp = (value: number) => Math.max(0, Math.min(1, value));
+
+/**
+ * Shows the detected page outline with four draggable corner handles.
+ */
+export const PerspectiveEditor: React.FC<PerspectiveEditorProps> = ({ image, onConfirm, onCancel, t }) => {
+  const [corners, setCorners] = useState<Point[]>(FULL_IMAGE_CORNERS);
+  const [isDetecting, setIsDetecting] = useState(false);
+  const [activeCorner, setActiveCorner] = useState<number | null>(null);
+  const wrapperRef = useRef<HTMLDivElement>(null);
+
+  const detect = async () => {
+    setIsDetecting(true);
+    try {
+      setCorners(await detectPageCorners(image));
+    } catch (err) {
+      console.error("Page detection failed", err);
+    } finally {
+      setIsDetecting(false);
+    }
+  };
+
+  useEffect(() => {
+    detect();
+  }, [image]);
+
+  const handlePointerDown = (index: number) => (e: React.PointerEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    wrapperRef.current?.setPointerCapture(e.pointerId);
+    setActiveCorner(index);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (activeCorner === null || !wrapperRef.current) return;
+    const rect = wrapperRef.current.getBoundingClientRect();
+    const point = { x: clamp((e.clientX - rect.left) / rect.width), y: clamp((e.clientY - rect.top) / rect.height) };
+    setCorners(prev => prev.map((corner, i) => i === activeCorner ? point : corner));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm animate-fade-in-up">
+      <div className="bg-white dark:bg-slate-800 rounded-2xl w-full max-w-4xl max-h-[90vh] shadow-2xl border border-slate-200 dark:border-slate-700 overflow-hidden flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-850">
+          <h3 className="font-bold flex items-center gap-2 text-slate-800 dark:text-white">
+            <Scan size={20} />
+            {t.perspective}
+          </h3>
+          <button onClick={onCancel} className="text-slate-500 hover:text-slate-700 dark:hover:text-slate-300">
+            <X size={20} />
+          </button>
+        </div>
+
+        <p className="px-4 pt-3 text-xs text-slate-500 dark:text-slate-400">{t.perspectiveHelp}</p>
+
+        <div className="flex-1 min-h-0 overflow-auto p-6 flex items-start justify-center">
+          <div
+            ref={wrapperRef}
+            className="relative inline-block select-none touch-none"
+            onPointerMove={handlePointerMove}
+            onPointerUp={() => setActiveCorner(null)}
+          >
+            <img src={image} alt="" draggable={false} className="max-h-[60vh] max-w-full block" />
+            <svg className="absolute inset-0 w-full h-full pointer-events-none" viewBox="0 0 1 1" preserveAspectRatio="none">
+              <polygon
+                points={corners.map(p => `${p.x},${p.y}`).join(' ')}
+                className="fill-primary-500/15 stroke-primary-500"
+                strokeWidth={2}
+                vectorEffect="non-scaling-stroke"
+              />
+            </svg>
+            {corners.map((corner, i) => (
+              <div
+                key={i}
+                onPointerDown={handlePointerDown(i)}
+                className={`absolute w-5 h-5 -ml-2.5 -mt-2.5 rounded-full border-2 border-white bg-primary-600 shadow-lg cursor-move ${activeCorner === i ? 'scale-125' : ''} transition-transform`}
+                style={{ left: `${corner.x * 100}%`, top: `${corner.y * 100}%` }}
+              />
+            ))}
+            {isDetecting && (
+              <div className="absolute inset-0 flex items-center justify-center bg-white/40 dark:bg-slate-900/40 text-primary-600">
+                <Loader2 size={32} className="animate-spin" />
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="p-4 bg-slate-50 dark:bg-slate-850 flex flex-wrap justify-between gap-2 border-t border-slate-200 dark:border-slate-700">
+          <button
+            onClick={detect}
+            disabled={isDetecting}
+            className="flex items-center gap-2 px-4 py-2 rounded-xl text-sm font-medium text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors disabled:opacity-50"
+          >
+            <Wand2 size={16} />
+            {t.autoDetect}
+          </button>
+          <div className="flex gap-2">
+            <button onClick={() => onConfirm(null)} className="px-4 py-2 rounded-xl text-sm font-medium text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors">
+              {t.useOriginal}
+            </button>
+            <button
+              onClick={() => onConfirm(corners)}
+              disabled={isDetecting}
+              className="flex items-center gap-2 px-6 py-2 bg-primary-600 hover:bg-primary-700 text-white rounded-xl font-medium transition-colors disabled:opacity-50"
+            >
+              <Check size={18} />
+              {t.apply}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
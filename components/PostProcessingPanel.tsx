@@ -0,0 +1,161 @@
+import React, { useRef, useState } from 'react';
+import { Wand2, ArrowUp, ArrowDown, Trash2, Plus, Upload, Download } from 'lucide-react';
+import { BuiltInPostProcessorId, PostProcessingStep, ReplaceRuleStep } from '../types';
+import { createRuleStep, getRuleError, parsePostProcessingSteps, exportPostProcessingSteps } from '../utils/postProcessing';
+import { translations } from '../utils/translations';
+
+type Translation = typeof translations.fa;
+
+interface PostProcessingPanelProps {
+  steps: PostProcessingStep[];
+  onChange: (steps: PostProcessingStep[]) => void;
+  t: Translation;
+}
+
+/**
+ * Settings section for the ordered clean-up steps run on extracted text:
+ * built-in steps plus the user's own find/replace rules.
+ */
+export const PostProcessingPanel: React.FC<PostProcessingPanelProps> = ({ steps, onChange, t }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [importStatus, setImportStatus] = useState<'success' | 'error' | null>(null);
+
+  const builtInLabels: Record<BuiltInPostProcessorId, string> = {
+    normalize: t.normalizer,
+    optionLetters: t.builtinOptionLetters,
+    collapseBlankLines: t.builtinCollapseBlankLines,
+  };
+
+  const update = (id: string, patch: Partial<ReplaceRuleStep>) =>
+    onChange(steps.map(step => step.id === id ? { ...step, ...patch } as PostProcessingStep : step));
+
+  const move = (index: number, offset: number) => {
+    const next = [...steps];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    onChange(next);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      onChange(parsePostProcessingSteps(await file.text()));
+      setImportStatus('success');
+    } catch (err) {
+      console.error("Could not import post-processing rules", err);
+      setImportStatus('error');
+    }
+  };
+
+  const inputClass = "w-full py-1.5 px-3 rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-900 focus:ring-2 focus:ring-primary-500 outline-none text-sm";
+  const iconButtonClass = "p-1.5 text-slate-500 hover:text-primary-600 disabled:opacity-30 disabled:hover:text-slate-500";
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 flex items-center gap-2">
+          <Wand2 size={16} /> {t.postProcessing}
+        </label>
+        <div className="flex items-center gap-1">
+          <button onClick={() => fileInputRef.current?.click()} className={iconButtonClass} title={t.importRules}>
+            <Upload size={16} />
+          </button>
+          <button onClick={() => exportPostProcessingSteps(steps)} className={iconButtonClass} title={t.exportRules}>
+            <Download size={16} />
+          </button>
+          <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+        </div>
+      </div>
+
+      <ol className="space-y-2">
+        {steps.map((step, index) => {
+          const error = getRuleError(step);
+          return (
+            <li key={step.id} className="p-3 rounded-xl border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-900/50 space-y-2">
+              <div className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={step.enabled}
+                  onChange={(e) => onChange(steps.map(s => s.id === step.id ? { ...s, enabled: e.target.checked } : s))}
+                  className="accent-primary-600"
+                />
+                {step.kind === 'builtin' ? (
+                  <span className="flex-1 text-sm text-slate-700 dark:text-slate-300">{builtInLabels[step.builtin]}</span>
+                ) : (
+                  <input
+                    type="text"
+                    value={step.name}
+                    onChange={(e) => update(step.id, { name: e.target.value })}
+                    placeholder={t.ruleName}
+                    className={`${inputClass} flex-1`}
+                  />
+                )}
+                <button onClick={() => move(index, -1)} disabled={index === 0} className={iconButtonClass} title={t.moveUp}>
+                  <ArrowUp size={16} />
+                </button>
+                <button onClick={() => move(index, 1)} disabled={index === steps.length - 1} className={iconButtonClass} title={t.moveDown}>
+                  <ArrowDown size={16} />
+                </button>
+                {step.kind === 'replace' && (
+                  <button onClick={() => onChange(steps.filter(s => s.id !== step.id))} className="p-1.5 text-slate-500 hover:text-red-600" title={t.remove}>
+                    <Trash2 size={16} />
+                  </button>
+                )}
+              </div>
+
+              {step.kind === 'replace' && (
+                <>
+                  <div className="grid grid-cols-2 gap-2">
+                    <input
+                      type="text"
+                      value={step.find}
+                      onChange={(e) => update(step.id, { find: e.target.value })}
+                      placeholder={t.findPattern}
+                      className={`${inputClass} font-mono ${error ? 'border-red-500 dark:border-red-500' : ''}`}
+                      dir="auto"
+                    />
+                    <input
+                      type="text"
+                      value={step.replace}
+                      onChange={(e) => update(step.id, { replace: e.target.value })}
+                      placeholder={t.replaceWith}
+                      className={`${inputClass} font-mono`}
+                      dir="auto"
+                    />
+                  </div>
+                  <div className="flex items-center gap-4 text-xs text-slate-500 dark:text-slate-400">
+                    <label className="flex items-center gap-1.5 cursor-pointer">
+                      <input type="checkbox" checked={step.regex} onChange={(e) => update(step.id, { regex: e.target.checked })} className="accent-primary-600" />
+                      {t.useRegex}
+                    </label>
+                    <label className="flex items-center gap-1.5 cursor-pointer">
+                      <input type="checkbox" checked={step.caseSensitive} onChange={(e) => update(step.id, { caseSensitive: e.target.checked })} className="accent-primary-600" />
+                      {t.caseSensitive}
+                    </label>
+                  </div>
+                  {error && <p className="text-xs text-red-500" dir="ltr">{t.invalidPattern}: {error}</p>}
+                </>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+
+      <button
+        onClick={() => onChange([...steps, createRuleStep()])}
+        className="mt-2 flex items-center gap-1.5 text-sm text-primary-600 hover:text-primary-700 dark:text-primary-400"
+      >
+        <Plus size={16} /> {t.addRule}
+      </button>
+      {importStatus && (
+        <p className={`text-xs mt-2 ${importStatus === 'error' ? 'text-red-500' : 'text-green-600 dark:text-green-400'}`}>
+          {importStatus === 'error' ? t.rulesImportFailed : t.rulesImported}
+        </p>
+      )}
+      <p className="text-xs text-slate-500 dark:text-slate-400 mt-2">
+        {t.postProcessingDesc}
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,95 @@
+import React, { useState, useEffect } from 'react';
+import { SlidersHorizontal, ChevronDown, ChevronUp, Loader2 } from 'lucide-react';
+import { PreprocessingSettings } from '../types';
+import { preprocessImage } from '../utils/imagePreprocessing';
+import { translations } from '../utils/translations';
+
+type Translation = typeof translations.fa;
+
+interface PreprocessingPanelProps {
+  settings: PreprocessingSettings;
+  onChange: (settings: PreprocessingSettings) => void;
+  sourceImage: string | null; // Last uploaded image, used for the before/after preview
+  t: Translation;
+}
+
+const PREVIEW_SIZE = 600;
+
+export const PreprocessingPanel: React.FC<PreprocessingPanelProps> = ({ settings, onChange, sourceImage, t }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [preview, setPreview] = useState<string | null>(null);
+  const [isRendering, setIsRendering] = useState(false);
+
+  const steps: { key: keyof PreprocessingSettings; label: string }[] = [
+    { key: 'autoRotate', label: t.autoRotate },
+    { key: 'deskew', label: t.deskew },
+    { key: 'grayscale', label: t.grayscale },
+    { key: 'autoContrast', label: t.autoContrast },
+    { key: 'denoise', label: t.denoise },
+    { key: 'binarize', label: t.binarize },
+  ];
+
+  // Re-render the preview on a downscaled copy whenever a step is toggled
+  useEffect(() => {
+    if (!isOpen || !sourceImage) return;
+    let cancelled = false;
+    setIsRendering(true);
+    preprocessImage(sourceImage, settings, PREVIEW_SIZE)
+      .then(result => { if (!cancelled) setPreview(result.dataUrl); })
+      .catch(err => console.error("Preview failed", err))
+      .finally(() => { if (!cancelled) setIsRendering(false); });
+    return () => { cancelled = true; };
+  }, [isOpen, sourceImage, settings]);
+
+  return (
+    <div className="max-w-3xl mx-auto mb-6">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center justify-between w-full px-5 py-3 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl shadow-sm text-sm font-medium text-slate-700 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-750 transition-colors"
+      >
+        <div className="flex items-center gap-2">
+          <SlidersHorizontal size={16} className="text-primary-500" />
+          <span>{t.preprocessing}</span>
+        </div>
+        {isOpen ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+      </button>
+
+      {isOpen && (
+        <div className="mt-2 p-4 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl shadow-sm animate-fade-in-up">
+          <p className="text-xs text-slate-500 dark:text-slate-400 mb-3">{t.preprocessingDesc}</p>
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+            {steps.map(step => (
+              <label key={step.key} className="flex items-center gap-2 px-3 py-2 rounded-lg bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 text-sm cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={settings[step.key]}
+                  onChange={(e) => onChange({ ...settings, [step.key]: e.target.checked })}
+                  className="accent-primary-600"
+                />
+                {step.label}
+              </label>
+            ))}
+          </div>
+
+          {sourceImage && (
+            <div className="grid grid-cols-2 gap-3 mt-4">
+              <figure>
+                <img src={sourceImage} alt={t.before} className="w-full h-48 object-contain rounded-lg bg-slate-100 dark:bg-slate-900 border border-slate-200 dark:border-slate-700" />
+                <figcaption className="text-xs text-center text-slate-500 mt-1">{t.before}</figcaption>
+              </figure>
+              <figure className="relative">
+                {preview && <img src={preview} alt={t.after} className="w-full h-48 object-contain rounded-lg bg-slate-100 dark:bg-slate-900 border border-slate-200 dark:border-slate-700" />}
+                {isRendering && (
+                  <div className="absolute inset-0 h-48 flex items-center justify-center text-primary-500">
+                    <Loader2 size={24} className="animate-spin" />
+                  </div>
+                )}
+                <figcaption className="text-xs text-center text-slate-500 mt-1">{t.after}</figcaption>
+              </figure>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,156 @@
+import React, { useState, useRef } from 'react';
+import { Crop, X, ArrowUp, ArrowDown, ScanText } from 'lucide-react';
+import { BoundingBox } from '../types';
+import { translations } from '../utils/translations';
+
+type Translation = typeof translations.fa;
+
+interface RegionSelectorProps {
+  image: string;
+  onConfirm: (regions: BoundingBox[]) => void; // Empty means the whole image
+  onCancel: () => void;
+  t: Translation;
+}
+
+// Rectangles smaller than this (normalized) are treated as accidental clicks
+const MIN_REGION_SIZE = 0.01;
+
+const clamp = (value: number) => Math.max(0, Math.min(1, value));
+
+/**
+ * Lets the user draw rectangles on an image. Regions are OCR'd in list
+ * order, which can be changed before extraction.
+ */
+export const RegionSelector: React.FC<RegionSelectorProps> = ({ image, onConfirm, onCancel, t }) => {
+  const [regions, setRegions] = useState<BoundingBox[]>([]);
+  const [draft, setDraft] = useState<BoundingBox | null>(null);
+  const startRef = useRef<{ x: number; y: number } | null>(null);
+  const wrapperRef = useRef<HTMLDivElement>(null);
+
+  const toPoint = (e: React.PointerEvent) => {
+    const rect = wrapperRef.current!.getBoundingClientRect();
+    return { x: clamp((e.clientX - rect.left) / rect.width), y: clamp((e.clientY - rect.top) / rect.height) };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    e.preventDefault();
+    (e.target as HTMLElement).setPointerCapture(e.pointerId);
+    startRef.current = toPoint(e);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const start = startRef.current;
+    if (!start) return;
+    const point = toPoint(e);
+    setDraft({
+      x: Math.min(start.x, point.x),
+      y: Math.min(start.y, point.y),
+      width: Math.abs(point.x - start.x),
+      height: Math.abs(point.y - start.y),
+    });
+  };
+
+  const handlePointerUp = () => {
+    if (draft && draft.width >= MIN_REGION_SIZE && draft.height >= MIN_REGION_SIZE) {
+      setRegions(prev => [...prev, draft]);
+    }
+    startRef.current = null;
+    setDraft(null);
+  };
+
+  const moveRegion = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= regions.length) return;
+    const next = [...regions];
+    [next[index], next[target]] = [next[target], next[index]];
+    setRegions(next);
+  };
+
+  const removeRegion = (index: number) => {
+    setRegions(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const boxStyle = (box: BoundingBox): React.CSSProperties => ({
+    left: `${box.x * 100}%`,
+    top: `${box.y * 100}%`,
+    width: `${box.width * 100}%`,
+    height: `${box.height * 100}%`,
+  });
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm animate-fade-in-up">
+      <div className="bg-white dark:bg-slate-800 rounded-2xl w-full max-w-5xl max-h-[90vh] shadow-2xl border border-slate-200 dark:border-slate-700 overflow-hidden flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-850">
+          <h3 className="font-bold flex items-center gap-2 text-slate-800 dark:text-white">
+            <Crop size={20} />
+            {t.regionSelect}
+          </h3>
+          <button onClick={onCancel} className="text-slate-500 hover:text-slate-700 dark:hover:text-slate-300">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex flex-col md:flex-row flex-1 min-h-0">
+          {/* Canvas */}
+          <div className="flex-1 min-h-0 overflow-auto p-4 bg-slate-100 dark:bg-slate-900 flex items-start justify-center">
+            <div
+              ref={wrapperRef}
+              className="relative inline-block select-none touch-none cursor-crosshair"
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+            >
+              <img src={image} alt="" draggable={false} className="max-h-[65vh] max-w-full block" />
+              {regions.map((box, i) => (
+                <div key={i} className="absolute border-2 border-primary-500 bg-primary-500/10 pointer-events-none" style={boxStyle(box)}>
+                  <span className="absolute -top-3 -start-3 w-6 h-6 rounded-full bg-primary-600 text-white text-xs font-bold flex items-center justify-center shadow">
+                    {i + 1}
+                  </span>
+                </div>
+              ))}
+              {draft && <div className="absolute border-2 border-dashed border-primary-400 bg-primary-400/10 pointer-events-none" style={boxStyle(draft)} />}
+            </div>
+          </div>
+
+          {/* Region list */}
+          <aside className="md:w-64 p-4 border-t md:border-t-0 md:border-s border-slate-200 dark:border-slate-700 flex flex-col gap-3">
+            <p className="text-xs text-slate-500 dark:text-slate-400">{t.regionSelectHelp}</p>
+            <ol className="space-y-2 overflow-y-auto">
+              {regions.length === 0 && (
+                <li className="text-sm text-slate-400 italic">{t.wholeImage}</li>
+              )}
+              {regions.map((_, i) => (
+                <li key={i} className="flex items-center gap-2 px-3 py-2 rounded-lg bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 text-sm">
+                  <span className="w-5 h-5 rounded-full bg-primary-600 text-white text-xs font-bold flex items-center justify-center shrink-0">{i + 1}</span>
+                  <span className="flex-1">{t.region} {i + 1}</span>
+                  <button onClick={() => moveRegion(i, -1)} disabled={i === 0} className="p-1 text-slate-500 hover:text-primary-600 disabled:opacity-30" title={t.moveUp}>
+                    <ArrowUp size={14} />
+                  </button>
+                  <button onClick={() => moveRegion(i, 1)} disabled={i === regions.length - 1} className="p-1 text-slate-500 hover:text-primary-600 disabled:opacity-30" title={t.moveDown}>
+                    <ArrowDown size={14} />
+                  </button>
+                  <button onClick={() => removeRegion(i)} className="p-1 text-slate-500 hover:text-red-600" title={t.remove}>
+                    <X size={14} />
+                  </button>
+                </li>
+              ))}
+            </ol>
+          </aside>
+        </div>
+
+        <div className="p-4 bg-slate-50 dark:bg-slate-850 flex justify-end gap-2 border-t border-slate-200 dark:border-slate-700">
+          <button onClick={onCancel} className="px-4 py-2 rounded-xl text-sm font-medium text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors">
+            {t.cancel}
+          </button>
+          <button
+            onClick={() => onConfirm(regions)}
+            className="flex items-center gap-2 px-6 py-2 bg-primary-600 hover:bg-primary-700 text-white rounded-xl font-medium transition-colors"
+          >
+            <ScanText size={18} />
+            {t.extract}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,22 +1,56 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { AlignRight, AlignLeft, Copy, FileDown, Check, Type, AlertTriangle, Eye, EyeOff, Image as ImageIcon, ZoomIn, ZoomOut, RotateCcw } from 'lucide-react';
-import { TextDirection } from '../types';
-import { exportToWord } from '../utils/exportUtils';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { AlignRight, AlignLeft, Copy, FileDown, Check, Type, AlertTriangle, Eye, EyeOff, Image as ImageIcon, ZoomIn, ZoomOut, RotateCcw, ChevronLeft, ChevronRight, Table2, RefreshCw, Undo2, Redo2, GitCompare, History, Search, FileClock } from 'lucide-react';
+import { TextDirection, OCRBlock, OCRTable, ExtractionMeta } from '../types';
+import { listExporters, getExporter, ExporterId } from '../utils/exporters';
+import { isPageSeparator } from '../utils/pdfUtils';
+import { averageConfidence } from '../services/structuredOcr';
+import { flattenLines, getLineIndexAtOffset, getLineRange } from '../utils/lineMapping';
+import { tablesToText, tablesFromText } from '../services/tableOcr';
+import { TableGrid } from './TableGrid';
+import { DiffView } from './DiffView';
+import { FindReplacePanel } from './FindReplacePanel';
+import { MatchHighlights } from './MatchHighlights';
+import { useUndoHistory } from '../hooks/useUndoHistory';
+import { useFindReplace } from '../hooks/useFindReplace';
+import { replaceMatches } from '../utils/textSearch';
 import { translations, Language } from '../utils/translations';
 
 interface ResultEditorProps {
   initialText: string;
+  originalText?: string; // Extracted text before any edits; defaults to initialText
+  rawText?: string; // Model output before post-processing, offered as a separate revert
   imageSrc?: string | null;
+  pages?: string[]; // Rendered pages when the source was a multi-page PDF
+  blocks?: OCRBlock[]; // Layout geometry, present when extracted in Layout Mode
+  tables?: OCRTable[]; // Present when extracted in Table Mode
+  meta?: ExtractionMeta;
   fontSize?: number;
   language: Language;
+  onTextChange?: (text: string) => void; // Debounced; used to persist edits
+  isStreaming?: boolean; // Text is still arriving; editing waits until it is complete
+  onRerun?: () => void; // Extracts the same source again, bypassing the result cache
 }
 
-export const ResultEditor: React.FC<ResultEditorProps> = ({ initialText, imageSrc, fontSize = 18, language }) => {
-  const [text, setText] = useState(initialText);
+// Stable defaults so effects keyed on these props don't fire on every render
+const NO_PAGES: string[] = [];
+const NO_BLOCKS: OCRBlock[] = [];
+const NO_TABLES: OCRTable[] = [];
+
+export const ResultEditor: React.FC<ResultEditorProps> = ({ initialText, imageSrc: singleImageSrc, pages = NO_PAGES, blocks = NO_BLOCKS, tables: initialTables = NO_TABLES, meta, fontSize = 18, language, onTextChange, isStreaming = false, onRerun, originalText, rawText }) => {
+  const editHistory = useUndoHistory(initialText);
+  const text = editHistory.value;
+  const streamStepRef = useRef(false); // The current undo step holds streamed text
+  const [showDiff, setShowDiff] = useState(false);
+  const search = useFindReplace(text);
+  const highlightsRef = useRef<HTMLDivElement>(null);
   const [direction, setDirection] = useState<TextDirection>(TextDirection.RTL);
   const [copied, setCopied] = useState(false);
   const [isExporting, setIsExporting] = useState(false);
   const [exportStatus, setExportStatus] = useState<'idle' | 'success' | 'error'>('idle');
+  const [exportFormat, setExportFormat] = useState<ExporterId>(() => {
+    const saved = localStorage.getItem('app_export_format');
+    return listExporters().some(exporter => exporter.id === saved) ? saved as ExporterId : 'docx';
+  });
   const [showImage, setShowImage] = useState(true);
   const t = translations[language];
   
@@ -26,14 +60,176 @@ export const ResultEditor: React.FC<ResultEditorProps> = ({ initialText, imageSr
   const [isDragging, setIsDragging] = useState(false);
   const [dragStart, setDragStart] = useState({ x: 0, y: 0 });
   const imageContainerRef = useRef<HTMLDivElement>(null);
+  const imageWrapperRef = useRef<HTMLDivElement>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const didPanRef = useRef(false);
+
+  // Text <-> image line linking (Layout Mode only)
+  const ocrLines = flattenLines(blocks);
+  const [activeLine, setActiveLine] = useState(-1);
+
+  // Table Mode: the text is the source of truth. Grid edits are written into
+  // it, and text edits, undo and revert are read back into the grid. PDF page
+  // separators are skipped so a multi-page document reads as its tables.
+  const [gridTables, setGridTables] = useState<OCRTable[]>(initialTables);
+  const [showTable, setShowTable] = useState(initialTables.length > 0);
+  const tables = useMemo(
+    () => gridTables.length === 0 || tablesToText(gridTables) === text
+      ? gridTables
+      : tablesFromText(text.split('\n').filter(line => !isPageSeparator(line)).join('\n'), gridTables),
+    [gridTables, text]
+  );
+
+  useEffect(() => {
+    setGridTables(initialTables);
+    setShowTable(initialTables.length > 0);
+  }, [initialTables]);
+
+  const handleTablesChange = (next: OCRTable[]) => {
+    setGridTables(next);
+    editHistory.set(tablesToText(next), { typing: true });
+  };
+
+  // Page navigation for multi-page sources
+  const [pageIndex, setPageIndex] = useState(0);
+  const imageSrc = pages.length > 0 ? pages[Math.min(pageIndex, pages.length - 1)] : singleImageSrc;
+  const pageCount = text.split('\n').filter(isPageSeparator).length;
+
+  useEffect(() => {
+    setPageIndex(0);
+  }, [pages]);
 
   useEffect(() => {
-    setText(initialText);
+    setActiveLine(-1);
+  }, [blocks]);
+
+  /**
+   * Zooms the image so the given OCR line sits in the middle of the pane.
+   */
+  const focusImageOnLine = (index: number) => {
+    const line = ocrLines[index];
+    const wrapper = imageWrapperRef.current;
+    if (!line || !wrapper) return;
+
+    const targetScale = Math.max(scale, 2);
+    const dx = (line.box.x + line.box.width / 2 - 0.5) * wrapper.offsetWidth;
+    const dy = (line.box.y + line.box.height / 2 - 0.5) * wrapper.offsetHeight;
+    setScale(targetScale);
+    setPosition({ x: -dx * targetScale, y: -dy * targetScale });
+  };
+
+  const handleTextSelect = (e: React.SyntheticEvent<HTMLTextAreaElement>) => {
+    if (ocrLines.length === 0) return;
+    const index = getLineIndexAtOffset(text, e.currentTarget.selectionStart);
+    if (index === activeLine) return;
+    setActiveLine(index);
+    if (index >= 0 && index < ocrLines.length) focusImageOnLine(index);
+  };
+
+  const handleRegionClick = (e: React.MouseEvent, index: number) => {
+    e.stopPropagation();
+    if (didPanRef.current) return; // The click ended a pan gesture
+
+    const range = getLineRange(text, index);
+    const textarea = textareaRef.current;
+    setActiveLine(index);
+    if (!range || !textarea) return;
+
+    textarea.focus();
+    textarea.setSelectionRange(range.start, range.end);
+    // Bring the selected line roughly to the middle of the textarea
+    textarea.scrollTop = (range.lineNumber / range.totalLines) * textarea.scrollHeight - textarea.clientHeight / 2;
+  };
+
+  const goToPage = (index: number) => {
+    setPageIndex(Math.max(0, Math.min(index, pages.length - 1)));
+    handleResetZoom();
+  };
+
+  // A new result is its own undo step, so the edits it replaces can be restored;
+  // streamed chunks all update the step that the stream started
+  useEffect(() => {
+    editHistory.set(initialText, { replace: isStreaming && streamStepRef.current });
+    streamStepRef.current = isStreaming;
     if (initialText && /^[A-Za-z]/.test(initialText.trim())) {
       setDirection(TextDirection.LTR);
     }
   }, [initialText]);
 
+  // Keep the newest streamed lines in view
+  useEffect(() => {
+    if (isStreaming && textareaRef.current) {
+      textareaRef.current.scrollTop = textareaRef.current.scrollHeight;
+    }
+  }, [initialText, isStreaming]);
+
+  useEffect(() => {
+    if (!onTextChange || text === initialText) return;
+    const timer = setTimeout(() => onTextChange(text), 800);
+    return () => clearTimeout(timer);
+  }, [text]);
+
+  // Edits, the diff and revert are measured against the post-processed text the user first saw
+  const original = originalText ?? initialText;
+  const isEdited = text !== original;
+  const hasRawText = rawText !== undefined && rawText !== original;
+  const isTableView = showTable && tables.length > 0;
+
+  const handleRevert = () => {
+    editHistory.set(original);
+    setGridTables(initialTables);
+  };
+
+  // The grid follows the text, so it is read back from the raw output as well
+  const handleRevertRaw = () => {
+    if (rawText !== undefined) editHistory.set(rawText);
+  };
+
+  const handleEditorKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (!(e.ctrlKey || e.metaKey)) return;
+    const key = e.key.toLowerCase();
+    if (key === 'f') {
+      e.preventDefault();
+      const { selectionStart, selectionEnd } = e.currentTarget;
+      // A single-line selection becomes the query
+      const selected = text.slice(selectionStart, selectionEnd);
+      search.open(selected.includes('\n') ? undefined : selected);
+    } else if (key === 'z' || key === 'y') {
+      e.preventDefault(); // The browser's own undo would fight the controlled value
+      if (isStreaming) return; // The text is still arriving and can't be edited yet
+      if (key === 'z' && !e.shiftKey) editHistory.undo();
+      else editHistory.redo();
+    }
+  };
+
+  const isSearchVisible = search.isOpen && !showDiff && !isTableView;
+
+  // Each replace is its own undo step, and so is a whole replace-all
+  const handleReplace = () => {
+    const match = search.matches[search.currentIndex];
+    if (match) editHistory.set(replaceMatches(text, [match], search.replacement, search.options));
+  };
+
+  const handleReplaceAll = () => {
+    editHistory.set(replaceMatches(text, search.matches, search.replacement, search.options));
+  };
+
+  const handleCloseSearch = () => {
+    search.close();
+    textareaRef.current?.focus();
+  };
+
+  // Scroll the current match into the middle of the editor and select it.
+  // Typing in the editor also changes the matches; the caret is left alone then.
+  useEffect(() => {
+    const match = search.matches[search.currentIndex];
+    const textarea = textareaRef.current;
+    const mark = highlightsRef.current?.querySelector<HTMLElement>('[data-current]');
+    if (!isSearchVisible || !match || !textarea || !mark || document.activeElement === textarea) return;
+    textarea.setSelectionRange(match.start, match.end);
+    textarea.scrollTop = mark.offsetTop - textarea.clientHeight / 2;
+  }, [search.currentIndex, search.matches, isSearchVisible]);
+
   const handleCopy = async () => {
     try {
       await navigator.clipboard.writeText(text);
@@ -44,11 +240,18 @@ export const ResultEditor: React.FC<ResultEditorProps> = ({ initialText, imageSr
     }
   };
 
+  // Formats needing an image or tables fall back to Word when those are missing
+  const isExporterAvailable = (id: ExporterId) => {
+    const exporter = getExporter(id);
+    return (!exporter.requiresImage || !!imageSrc) && (!exporter.requiresTables || tables.length > 0);
+  };
+  const activeExportFormat = isExporterAvailable(exportFormat) ? exportFormat : 'docx';
+
   const handleExport = async () => {
     setIsExporting(true);
     setExportStatus('idle');
     try {
-      await exportToWord(text, direction);
+      await getExporter(activeExportFormat).export({ text, direction, imageSrc, pages, blocks, tables, meta });
       setExportStatus('success');
       setTimeout(() => setExportStatus('idle'), 3000);
     } catch (error) {
@@ -60,6 +263,11 @@ export const ResultEditor: React.FC<ResultEditorProps> = ({ initialText, imageSr
     }
   };
 
+  const handleExportFormatChange = (id: ExporterId) => {
+    setExportFormat(id);
+    localStorage.setItem('app_export_format', id);
+  };
+
   // Zoom Handlers
   const handleZoomIn = () => setScale(prev => Math.min(prev + 0.5, 4));
   const handleZoomOut = () => {
@@ -76,6 +284,7 @@ export const ResultEditor: React.FC<ResultEditorProps> = ({ initialText, imageSr
 
   // Pan Handlers
   const handleMouseDown = (e: React.MouseEvent) => {
+    didPanRef.current = false;
     if (scale > 1) {
       setIsDragging(true);
       setDragStart({ x: e.clientX - position.x, y: e.clientY - position.y });
@@ -84,6 +293,7 @@ export const ResultEditor: React.FC<ResultEditorProps> = ({ initialText, imageSr
 
   const handleMouseMove = (e: React.MouseEvent) => {
     if (isDragging && scale > 1) {
+      didPanRef.current = true;
       setPosition({
         x: e.clientX - dragStart.x,
         y: e.clientY - dragStart.y
@@ -103,11 +313,26 @@ export const ResultEditor: React.FC<ResultEditorProps> = ({ initialText, imageSr
           </div>
           <div>
             <h3 className="font-bold text-slate-800 dark:text-white text-base md:text-lg">{t.editor}</h3>
-            <p className="hidden xs:block text-xs text-slate-500 dark:text-slate-400">{text.length} {t.chars}</p>
+            <p className="hidden xs:block text-xs text-slate-500 dark:text-slate-400">
+              {text.length} {t.chars}
+              {pageCount > 0 && <span> · {pageCount} {t.page}</span>}
+            </p>
           </div>
         </div>
 
         <div className="flex items-center gap-2 mr-auto">
+          {onRerun && (
+            <button
+              onClick={onRerun}
+              disabled={isStreaming}
+              className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium text-slate-500 dark:text-slate-400 hover:bg-slate-50 dark:hover:bg-slate-700 transition-colors disabled:opacity-50"
+              title={t.rerunDesc}
+            >
+              <RefreshCw size={18} />
+              <span className="hidden md:inline">{t.rerun}</span>
+            </button>
+          )}
+
           {imageSrc && (
             <button
               onClick={() => setShowImage(!showImage)}
@@ -125,6 +350,19 @@ export const ResultEditor: React.FC<ResultEditorProps> = ({ initialText, imageSr
           
           <div className="w-px h-6 bg-slate-300 dark:bg-slate-600 mx-2 hidden md:block"></div>
 
+          <select
+            value={activeExportFormat}
+            onChange={(e) => handleExportFormatChange(e.target.value as ExporterId)}
+            className="px-2 py-2 rounded-lg text-sm border border-slate-200 dark:border-slate-600 bg-slate-50 dark:bg-slate-900 text-slate-700 dark:text-slate-200 outline-none"
+            aria-label={t.export}
+          >
+            {listExporters()
+              .filter(exporter => isExporterAvailable(exporter.id))
+              .map(exporter => (
+                <option key={exporter.id} value={exporter.id}>{exporter.label}</option>
+              ))}
+          </select>
+
           <button
             onClick={handleExport}
             disabled={isExporting}
@@ -159,6 +397,29 @@ export const ResultEditor: React.FC<ResultEditorProps> = ({ initialText, imageSr
                <span>{t.originalImage}</span>
             </div>
 
+            {/* Page Navigation */}
+            {pages.length > 1 && (
+              <div className="absolute top-3 left-3 z-20 flex items-center gap-1 p-1 bg-black/60 backdrop-blur-md rounded-lg shadow-lg" dir="ltr">
+                  <button 
+                    onClick={() => goToPage(pageIndex - 1)} 
+                    className="p-1 text-white hover:bg-white/20 rounded disabled:opacity-50"
+                    disabled={pageIndex <= 0}
+                    title="Previous Page"
+                  >
+                      <ChevronLeft size={16} />
+                  </button>
+                  <span className="text-white text-xs min-w-[48px] text-center font-mono">{pageIndex + 1} / {pages.length}</span>
+                  <button 
+                    onClick={() => goToPage(pageIndex + 1)} 
+                    className="p-1 text-white hover:bg-white/20 rounded disabled:opacity-50"
+                    disabled={pageIndex >= pages.length - 1}
+                    title="Next Page"
+                  >
+                      <ChevronRight size={16} />
+                  </button>
+              </div>
+            )}
+
             {/* Zoom Controls */}
             <div className="absolute bottom-4 left-1/2 -translate-x-1/2 z-20 flex items-center gap-1 p-1 bg-black/60 backdrop-blur-md rounded-lg shadow-lg">
                 <button 
@@ -197,16 +458,41 @@ export const ResultEditor: React.FC<ResultEditorProps> = ({ initialText, imageSr
                 onMouseUp={handleMouseUp}
                 onMouseLeave={handleMouseUp}
             >
-               <img 
-                 src={imageSrc} 
-                 alt="Original" 
+               <div
+                 ref={imageWrapperRef}
+                 className="relative max-w-full"
                  style={{ 
                     transform: `scale(${scale}) translate(${position.x / scale}px, ${position.y / scale}px)`,
                     transition: isDragging ? 'none' : 'transform 0.2s ease-out'
                  }}
-                 draggable={false}
-                 className="max-w-full h-auto object-contain rounded-lg shadow-sm select-none"
-               />
+               >
+                 <img 
+                   src={imageSrc} 
+                   alt="Original" 
+                   draggable={false}
+                   className="block max-w-full h-auto object-contain rounded-lg shadow-sm select-none"
+                 />
+
+                 {/* Line regions, only for a single image with geometry */}
+                 {pages.length === 0 && ocrLines.map((line, i) => (
+                   <div
+                     key={i}
+                     onClick={(e) => handleRegionClick(e, i)}
+                     title={line.text}
+                     className={`absolute rounded-sm cursor-pointer transition-colors ${
+                       i === activeLine
+                         ? 'border-2 border-primary-500 bg-primary-500/20'
+                         : 'border border-transparent hover:border-primary-400/70 hover:bg-primary-500/10'
+                     }`}
+                     style={{
+                       left: `${line.box.x * 100}%`,
+                       top: `${line.box.y * 100}%`,
+                       width: `${line.box.width * 100}%`,
+                       height: `${line.box.height * 100}%`,
+                     }}
+                   />
+                 ))}
+               </div>
             </div>
           </div>
         )}
@@ -239,6 +525,84 @@ export const ResultEditor: React.FC<ResultEditorProps> = ({ initialText, imageSr
                   <AlignLeft size={16} />
                 </button>
              </div>
+
+             <div className="flex items-center gap-1">
+                <button
+                  onClick={() => search.isOpen ? handleCloseSearch() : search.open()}
+                  disabled={isTableView || showDiff}
+                  className={`p-1.5 rounded-md transition-colors disabled:opacity-40 ${
+                    isSearchVisible
+                      ? 'bg-white dark:bg-slate-600 text-primary-600 dark:text-primary-300 shadow-sm'
+                      : 'text-slate-500 dark:text-slate-400 hover:bg-slate-200 dark:hover:bg-slate-700'
+                  }`}
+                  title={`${t.findReplace} (Ctrl+F)`}
+                >
+                  <Search size={16} />
+                </button>
+                <button
+                  onClick={editHistory.undo}
+                  disabled={!editHistory.canUndo || isStreaming || showDiff}
+                  className="p-1.5 rounded-md text-slate-500 dark:text-slate-400 hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors disabled:opacity-40"
+                  title={`${t.undo} (Ctrl+Z)`}
+                >
+                  <Undo2 size={16} />
+                </button>
+                <button
+                  onClick={editHistory.redo}
+                  disabled={!editHistory.canRedo || isStreaming || showDiff}
+                  className="p-1.5 rounded-md text-slate-500 dark:text-slate-400 hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors disabled:opacity-40"
+                  title={`${t.redo} (Ctrl+Shift+Z)`}
+                >
+                  <Redo2 size={16} />
+                </button>
+                <button
+                  onClick={handleRevert}
+                  disabled={!isEdited || isStreaming}
+                  className="p-1.5 rounded-md text-slate-500 dark:text-slate-400 hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors disabled:opacity-40"
+                  title={t.revertOriginal}
+                >
+                  <History size={16} />
+                </button>
+                {hasRawText && (
+                  <button
+                    onClick={handleRevertRaw}
+                    disabled={isStreaming || text === rawText}
+                    className="p-1.5 rounded-md text-slate-500 dark:text-slate-400 hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors disabled:opacity-40"
+                    title={t.revertRaw}
+                  >
+                    <FileClock size={16} />
+                  </button>
+                )}
+                <button
+                  onClick={() => setShowDiff(!showDiff)}
+                  disabled={isStreaming}
+                  className={`p-1.5 rounded-md transition-colors disabled:opacity-40 ${
+                    showDiff
+                      ? 'bg-white dark:bg-slate-600 text-primary-600 dark:text-primary-300 shadow-sm'
+                      : 'text-slate-500 dark:text-slate-400 hover:bg-slate-200 dark:hover:bg-slate-700'
+                  }`}
+                  title={t.showChanges}
+                >
+                  <GitCompare size={16} />
+                </button>
+             </div>
+
+             {tables.length > 0 && !showDiff && (
+               <div className="flex bg-slate-200 dark:bg-slate-700 rounded-lg p-1 text-xs">
+                  <button
+                    onClick={() => setShowTable(true)}
+                    className={`flex items-center gap-1 px-2 py-1 rounded-md transition-all ${showTable ? 'bg-white dark:bg-slate-600 text-primary-600 dark:text-primary-300 shadow-sm' : 'text-slate-500 dark:text-slate-400'}`}
+                  >
+                    <Table2 size={14} /> {t.tableMode}
+                  </button>
+                  <button
+                    onClick={() => setShowTable(false)}
+                    className={`flex items-center gap-1 px-2 py-1 rounded-md transition-all ${!showTable ? 'bg-white dark:bg-slate-600 text-primary-600 dark:text-primary-300 shadow-sm' : 'text-slate-500 dark:text-slate-400'}`}
+                  >
+                    <Type size={14} /> {t.textView}
+                  </button>
+               </div>
+             )}
              
              <button
                 onClick={handleCopy}
@@ -249,19 +613,71 @@ export const ResultEditor: React.FC<ResultEditorProps> = ({ initialText, imageSr
              </button>
           </div>
 
-          <textarea
-            value={text}
-            onChange={(e) => setText(e.target.value)}
-            dir={direction}
-            style={{ fontSize: `${fontSize}px` }}
-            className="flex-1 w-full p-6 leading-loose resize-none outline-none bg-white dark:bg-slate-800 text-slate-800 dark:text-slate-100 placeholder-slate-400 focus:bg-slate-50 dark:focus:bg-slate-800/50 transition-colors"
-            placeholder="..."
-            spellCheck={false}
-          />
+          {isSearchVisible && (
+            <FindReplacePanel
+              query={search.query}
+              replacement={search.replacement}
+              options={search.options}
+              matchCount={search.matches.length}
+              currentIndex={search.currentIndex}
+              error={search.error}
+              canReplace={!isStreaming}
+              onQueryChange={search.setQuery}
+              onReplacementChange={search.setReplacement}
+              onOptionsChange={search.setOptions}
+              onNext={search.next}
+              onPrevious={search.previous}
+              onReplace={handleReplace}
+              onReplaceAll={handleReplaceAll}
+              onClose={handleCloseSearch}
+              t={t}
+            />
+          )}
+
+          {showDiff && !isStreaming ? (
+            <DiffView original={original} edited={text} direction={direction} fontSize={fontSize} t={t} />
+          ) : isTableView ? (
+            <TableGrid tables={tables} direction={direction} fontSize={fontSize} onChange={handleTablesChange} t={t} />
+          ) : (
+          <div className="relative flex-1 flex flex-col min-h-0">
+            {isSearchVisible && (
+              <MatchHighlights
+                text={text}
+                matches={search.matches}
+                currentIndex={search.currentIndex}
+                direction={direction}
+                fontSize={fontSize}
+                containerRef={highlightsRef}
+              />
+            )}
+            <textarea
+              ref={textareaRef}
+              value={text}
+              onSelect={handleTextSelect}
+              onChange={(e) => editHistory.set(e.target.value, { typing: true })}
+              onKeyDown={handleEditorKeyDown}
+              onScroll={(e) => {
+                if (highlightsRef.current) highlightsRef.current.scrollTop = e.currentTarget.scrollTop;
+              }}
+              readOnly={isStreaming}
+              dir={direction}
+              style={{ fontSize: `${fontSize}px` }}
+              className={`relative flex-1 w-full p-6 leading-loose resize-none outline-none text-slate-800 dark:text-slate-100 placeholder-slate-400 transition-colors ${
+                isSearchVisible
+                  ? 'bg-transparent overflow-y-scroll' // Lets the highlights behind it show through
+                  : 'bg-white dark:bg-slate-800 focus:bg-slate-50 dark:focus:bg-slate-800/50'
+              }`}
+              placeholder="..."
+              spellCheck={false}
+            />
+          </div>
+          )}
           
           <div className="px-4 py-2 bg-slate-50 dark:bg-slate-850 border-t border-slate-100 dark:border-slate-800 text-xs text-slate-400 flex justify-between">
              <span>{text.length} {t.chars}</span>
-             <span>Gemini 2.5 AI</span>
+             {blocks.length > 0
+               ? <span>{t.confidence}: {Math.round(averageConfidence(blocks)! * 100)}%</span>
+               : <span dir="ltr">{meta?.model || 'Gemini 2.5 AI'}</span>}
           </div>
         </div>
       </div>
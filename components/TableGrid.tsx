@@ -0,0 +1,92 @@
+import React from 'react';
+import { Plus, X } from 'lucide-react';
+import { OCRTable, TextDirection } from '../types';
+import { translations } from '../utils/translations';
+
+type Translation = typeof translations.fa;
+
+interface TableGridProps {
+  tables: OCRTable[];
+  direction: TextDirection;
+  fontSize: number;
+  onChange: (tables: OCRTable[]) => void;
+  t: Translation;
+}
+
+/**
+ * Editable grid for tables detected in Table Mode.
+ * The table's `dir` follows the editor so RTL tables start on the right.
+ */
+export const TableGrid: React.FC<TableGridProps> = ({ tables, direction, fontSize, onChange, t }) => {
+  const updateTable = (tableIndex: number, rows: string[][]) => {
+    onChange(tables.map((table, i) => i === tableIndex ? { ...table, rows } : table));
+  };
+
+  const updateCell = (tableIndex: number, rowIndex: number, cellIndex: number, value: string) => {
+    const rows = tables[tableIndex].rows.map((row, r) =>
+      r === rowIndex ? row.map((cell, c) => c === cellIndex ? value : cell) : row
+    );
+    updateTable(tableIndex, rows);
+  };
+
+  const addRow = (tableIndex: number) => {
+    const { rows } = tables[tableIndex];
+    updateTable(tableIndex, [...rows, Array(rows[0]?.length || 1).fill('')]);
+  };
+
+  const addColumn = (tableIndex: number) => {
+    updateTable(tableIndex, tables[tableIndex].rows.map(row => [...row, '']));
+  };
+
+  const removeRow = (tableIndex: number, rowIndex: number) => {
+    updateTable(tableIndex, tables[tableIndex].rows.filter((_, r) => r !== rowIndex));
+  };
+
+  return (
+    <div className="flex-1 overflow-auto p-4 space-y-6" style={{ fontSize: `${fontSize * 0.8}px` }}>
+      {tables.map((table, tableIndex) => (
+        <div key={tableIndex}>
+          <table dir={direction} className="w-full border-collapse">
+            <tbody>
+              {table.rows.map((row, rowIndex) => {
+                const isHeader = table.hasHeader && rowIndex === 0;
+                return (
+                  <tr key={rowIndex} className={`group ${isHeader ? 'bg-slate-100 dark:bg-slate-700 font-bold' : ''}`}>
+                    {row.map((cell, cellIndex) => (
+                      <td key={cellIndex} className="border border-slate-200 dark:border-slate-600 p-0">
+                        <input
+                          value={cell}
+                          onChange={(e) => updateCell(tableIndex, rowIndex, cellIndex, e.target.value)}
+                          dir="auto"
+                          className="w-full min-w-[6rem] px-2 py-1.5 bg-transparent text-slate-800 dark:text-slate-100 outline-none focus:bg-primary-50 dark:focus:bg-primary-900/20"
+                        />
+                      </td>
+                    ))}
+                    <td className="w-6 p-0">
+                      <button
+                        onClick={() => removeRow(tableIndex, rowIndex)}
+                        className="p-1 text-slate-400 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity"
+                        title={t.remove}
+                      >
+                        <X size={14} />
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+
+          <div className="flex gap-2 mt-2">
+            <button onClick={() => addRow(tableIndex)} className="flex items-center gap-1 px-2 py-1 rounded-lg text-xs text-slate-500 hover:text-primary-600 hover:bg-slate-100 dark:hover:bg-slate-700">
+              <Plus size={12} /> {t.addRow}
+            </button>
+            <button onClick={() => addColumn(tableIndex)} className="flex items-center gap-1 px-2 py-1 rounded-lg text-xs text-slate-500 hover:text-primary-600 hover:bg-slate-100 dark:hover:bg-slate-700">
+              <Plus size={12} /> {t.addColumn}
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
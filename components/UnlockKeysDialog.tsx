@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { Lock, Loader2, X } from 'lucide-react';
+import { translations } from '../utils/translations';
+
+type Translation = typeof translations.fa;
+
+interface UnlockKeysDialogProps {
+  onUnlock: (passphrase: string) => Promise<boolean>; // Resolves to false for a wrong passphrase
+  onDismiss: () => void;
+  t: Translation;
+}
+
+/**
+ * Passphrase prompt for encrypted API keys, shown on load and after auto-lock.
+ */
+export const UnlockKeysDialog: React.FC<UnlockKeysDialogProps> = ({ onUnlock, onDismiss, t }) => {
+  const [passphrase, setPassphrase] = useState("");
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passphrase || isUnlocking) return;
+    setIsUnlocking(true);
+    setError(null);
+    const unlocked = await onUnlock(passphrase);
+    setIsUnlocking(false);
+    if (!unlocked) {
+      setError(t.wrongPassphrase);
+      setPassphrase("");
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-fade-in-up">
+      <form onSubmit={handleSubmit} className="bg-white dark:bg-slate-800 rounded-2xl w-full max-w-sm shadow-2xl border border-slate-200 dark:border-slate-700 overflow-hidden">
+        <div className="flex items-center justify-between p-4 border-b border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-850">
+          <h3 className="font-bold flex items-center gap-2 text-slate-800 dark:text-white">
+            <Lock size={20} />
+            {t.unlockKeys}
+          </h3>
+          <button type="button" onClick={onDismiss} className="text-slate-500 hover:text-slate-700 dark:hover:text-slate-300" title={t.unlockLater}>
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <p className="text-sm text-slate-600 dark:text-slate-300">{t.unlockKeysDesc}</p>
+          <input
+            type="password"
+            value={passphrase}
+            onChange={(e) => { setPassphrase(e.target.value); setError(null); }}
+            placeholder={t.passphrase}
+            autoFocus
+            autoComplete="current-password"
+            className="w-full py-2 px-4 rounded-xl border border-slate-300 dark:border-slate-600 bg-slate-50 dark:bg-slate-900 focus:ring-2 focus:ring-primary-500 outline-none"
+          />
+          {error && <p className="text-xs text-red-500">{error}</p>}
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={onDismiss}
+              className="flex-1 py-2 rounded-xl text-sm font-medium text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors"
+            >
+              {t.unlockLater}
+            </button>
+            <button
+              type="submit"
+              disabled={!passphrase || isUnlocking}
+              className="flex-1 flex items-center justify-center gap-2 py-2 rounded-xl text-sm font-bold bg-primary-600 hover:bg-primary-700 text-white transition-colors disabled:opacity-50"
+            >
+              {isUnlocking && <Loader2 size={16} className="animate-spin" />}
+              {t.unlock}
+            </button>
+          </div>
+        </div>
+      </form>
+    </div>
+  );
+};
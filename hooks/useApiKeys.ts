@@ -0,0 +1,199 @@
+import { useState, useRef, useCallback, useMemo, useEffect } from 'react';
+import { ApiKeyEntry, ApiKeyPool, KeyRotationMode } from '../types';
+import { KeysExhaustedError } from '../services/ocrErrors';
+import { deriveVaultKey, VaultKey } from '../services/keyVault';
+import {
+  loadApiKeys, saveApiKeys, loadRotationMode, saveRotationMode, createApiKeyEntry,
+  addUsage, getActiveKeys, selectKey, BUILT_IN_KEY_ID,
+  isKeyStoreEncrypted, unlockApiKeys, saveEncryptedApiKeys, removeKeyEncryption,
+  loadAutoLockMinutes, saveAutoLockMinutes, loadOpenAiKey, saveOpenAiKey,
+} from '../services/apiKeys';
+
+// A key that got a 429 without a Retry-After is skipped for this long
+const DEFAULT_COOLDOWN_MS = 60 * 1000;
+
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'wheel', 'touchstart'] as const;
+const AUTO_LOCK_CHECK_MS = 15 * 1000;
+
+/**
+ * Keeps the Gemini keys, their daily counters and the rotation mode, and
+ * exposes them to the extraction service as an ApiKeyPool. The
+ * OpenAI-compatible endpoint's key is stored alongside them.
+ * Keys are used in rotation; one that hits its quota is skipped until it
+ * cools down or, once over its daily limit, until its reset time.
+ *
+ * With encryption on, the keys are only in memory between unlock and lock;
+ * while locked the list is empty and the pool hands out the built-in key.
+ */
+export const useApiKeys = () => {
+  const [isEncrypted, setIsEncrypted] = useState(isKeyStoreEncrypted);
+  const [isLocked, setIsLocked] = useState(isKeyStoreEncrypted);
+  const [keys, setKeys] = useState<ApiKeyEntry[]>(() => isKeyStoreEncrypted() ? [] : loadApiKeys());
+  const [openaiKey, setOpenAiKeyState] = useState(() => isKeyStoreEncrypted() ? '' : loadOpenAiKey());
+  const [rotation, setRotationState] = useState<KeyRotationMode>(loadRotationMode);
+  const [autoLockMinutes, setAutoLockState] = useState<number>(loadAutoLockMinutes);
+
+  // Refs mirror state so concurrent requests always see the latest values
+  const keysRef = useRef(keys);
+  const openaiKeyRef = useRef(openaiKey);
+  const rotationRef = useRef(rotation);
+  const lockedRef = useRef(isLocked);
+  const lastIndexRef = useRef(-1);
+  const cooldownsRef = useRef(new Map<string, number>()); // Key -> epoch ms it may be used again
+  const vaultRef = useRef<VaultKey | null>(null);
+  // Encrypted writes are async; chaining them keeps an older snapshot from landing last
+  const saveQueueRef = useRef<Promise<void>>(Promise.resolve());
+  const lastActivityRef = useRef(Date.now());
+
+  const persist = () => {
+    const stored = { entries: keysRef.current, openaiKey: openaiKeyRef.current };
+    const vault = vaultRef.current;
+    if (!vault) {
+      saveApiKeys(stored.entries);
+      saveOpenAiKey(stored.openaiKey);
+      return;
+    }
+    saveQueueRef.current = saveQueueRef.current
+      .then(() => saveEncryptedApiKeys(stored, vault))
+      .catch(error => console.error("Could not save encrypted keys", error));
+  };
+
+  const commit = (next: ApiKeyEntry[]) => {
+    if (lockedRef.current) return;
+    keysRef.current = next;
+    setKeys(next);
+    persist();
+  };
+
+  /**
+   * Adds a key unless it is already present. Returns false for duplicates
+   * and while the keys are locked.
+   */
+  const addKey = useCallback((key: string, label: string): boolean => {
+    const trimmed = key.trim();
+    if (lockedRef.current || !trimmed || keysRef.current.some(entry => entry.key === trimmed)) return false;
+    commit([...keysRef.current, createApiKeyEntry(trimmed, label.trim() || `Key ${keysRef.current.length}`)]);
+    return true;
+  }, []);
+
+  const updateKey = useCallback((id: string, patch: Partial<Omit<ApiKeyEntry, 'id' | 'key'>>) => {
+    commit(keysRef.current.map(entry => entry.id === id ? { ...entry, ...patch } : entry));
+  }, []);
+
+  const removeKey = useCallback((id: string) => {
+    if (id === BUILT_IN_KEY_ID) return;
+    commit(keysRef.current.filter(entry => entry.id !== id));
+  }, []);
+
+  const setOpenAiKey = useCallback((key: string) => {
+    if (lockedRef.current) return;
+    openaiKeyRef.current = key.trim();
+    setOpenAiKeyState(openaiKeyRef.current);
+    persist();
+  }, []);
+
+  const setRotation = useCallback((mode: KeyRotationMode) => {
+    rotationRef.current = mode;
+    setRotationState(mode);
+    saveRotationMode(mode);
+  }, []);
+
+  /**
+   * Decrypts the stored keys. Resolves to false when the passphrase is wrong.
+   */
+  const unlock = useCallback(async (passphrase: string): Promise<boolean> => {
+    try {
+      const { keys: stored, vault } = await unlockApiKeys(passphrase);
+      // A key carried over from the provider settings is still in plaintext until it joins the vault
+      const plaintextKey = loadOpenAiKey();
+      vaultRef.current = vault;
+      keysRef.current = stored.entries;
+      openaiKeyRef.current = stored.openaiKey || plaintextKey;
+      lockedRef.current = false;
+      lastActivityRef.current = Date.now();
+      setKeys(stored.entries);
+      setOpenAiKeyState(openaiKeyRef.current);
+      setIsLocked(false);
+      if (plaintextKey) persist();
+      return true;
+    } catch (error) {
+      console.error("Could not unlock API keys", error);
+      return false;
+    }
+  }, []);
+
+  const lock = useCallback(() => {
+    if (!vaultRef.current) return;
+    vaultRef.current = null;
+    keysRef.current = [];
+    openaiKeyRef.current = '';
+    lockedRef.current = true;
+    setKeys([]);
+    setOpenAiKeyState('');
+    setIsLocked(true);
+  }, []);
+
+  const enableEncryption = useCallback(async (passphrase: string) => {
+    if (lockedRef.current) return;
+    const vault = await deriveVaultKey(passphrase);
+    vaultRef.current = vault;
+    persist();
+    await saveQueueRef.current;
+    lastActivityRef.current = Date.now();
+    setIsEncrypted(true);
+  }, []);
+
+  const disableEncryption = useCallback(() => {
+    if (lockedRef.current) return;
+    vaultRef.current = null;
+    // Queued behind pending encrypted writes, which would otherwise recreate the vault
+    saveQueueRef.current = saveQueueRef.current.then(() => removeKeyEncryption({ entries: keysRef.current, openaiKey: openaiKeyRef.current }));
+    setIsEncrypted(false);
+  }, []);
+
+  const setAutoLockMinutes = useCallback((minutes: number) => {
+    setAutoLockState(minutes);
+    saveAutoLockMinutes(minutes);
+  }, []);
+
+  // Auto-lock after a stretch without user input or extraction requests
+  useEffect(() => {
+    if (!isEncrypted || isLocked || autoLockMinutes <= 0) return;
+    const markActive = () => { lastActivityRef.current = Date.now(); };
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, markActive, { passive: true }));
+    const timer = window.setInterval(() => {
+      if (Date.now() - lastActivityRef.current > autoLockMinutes * 60 * 1000) lock();
+    }, AUTO_LOCK_CHECK_MS);
+    return () => {
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, markActive));
+      window.clearInterval(timer);
+    };
+  }, [isEncrypted, isLocked, autoLockMinutes, lock]);
+
+  const pool = useMemo<ApiKeyPool>(() => ({
+    acquire: () => {
+      // User keys wait for the passphrase; until then requests take the built-in path
+      if (lockedRef.current) return '';
+      const now = Date.now();
+      lastActivityRef.current = now;
+      const active = getActiveKeys(keysRef.current);
+      // The built-in path is rate-limited by the server, which says when to retry
+      if (!active.some(entry => entry.key)) return '';
+      const index = selectKey(active, rotationRef.current, lastIndexRef.current, entry => (cooldownsRef.current.get(entry.key) || 0) > now);
+      if (index < 0) throw new KeysExhaustedError();
+      lastIndexRef.current = index;
+      return active[index].key;
+    },
+    reportUse: (key) => {
+      commit(keysRef.current.map(entry => entry.key === key ? addUsage(entry) : entry));
+    },
+    reportQuotaExceeded: (key, retryAfterMs) => {
+      cooldownsRef.current.set(key, Date.now() + (retryAfterMs ?? DEFAULT_COOLDOWN_MS));
+    },
+  }), []);
+
+  return {
+    keys, activeKeys: getActiveKeys(keys), rotation, addKey, updateKey, removeKey, setRotation, pool, openaiKey, setOpenAiKey,
+    isEncrypted, isLocked, unlock, lock, enableEncryption, disableEncryption, autoLockMinutes, setAutoLockMinutes,
+  };
+};
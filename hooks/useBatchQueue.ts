@@ -0,0 +1,156 @@
+import { useState, useRef, useCallback } from 'react';
+import { BatchItem, ExtractionMeta, OCRBlock, OCRTable } from '../types';
+import { OcrError } from '../services/ocrErrors';
+
+export interface BatchEntry {
+  name: string;
+  base64: string;
+  mimeType: string;
+}
+
+export interface BatchResult {
+  text: string;
+  blocks?: OCRBlock[];
+  tables?: OCRTable[];
+  meta: ExtractionMeta;
+}
+
+interface BatchQueueOptions {
+  concurrency: number;
+  maxRetries: number;
+  describeError?: (err: any) => string; // Message stored on the item; defaults to err.message
+}
+
+let nextId = 0;
+
+/**
+ * Runs OCR over many images with bounded concurrency.
+ * Failed items are re-queued as 'retry' until `maxRetries` is exhausted.
+ * Typed OCR errors fail at once: withRetry has already backed off on the
+ * retryable ones, and retrying can't fix the rest (e.g. an invalid key).
+ * Pausing stops new items from starting; running ones are allowed to finish.
+ */
+export const useBatchQueue = (
+  process: (item: BatchItem, signal: AbortSignal, report: (message: string) => void) => Promise<BatchResult>,
+  options: BatchQueueOptions
+) => {
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [isPaused, setIsPaused] = useState(false);
+
+  // Refs mirror state so async workers always see the latest values
+  const itemsRef = useRef<BatchItem[]>([]);
+  const pausedRef = useRef(false);
+  const runningRef = useRef(0);
+  const generationRef = useRef(0);
+  const controllerRef = useRef(new AbortController()); // Replaced on every cancel/clear
+  const processRef = useRef(process);
+  const optionsRef = useRef(options);
+  processRef.current = process;
+  optionsRef.current = options;
+
+  const commit = (next: BatchItem[]) => {
+    itemsRef.current = next;
+    setItems(next);
+  };
+
+  const update = (id: string, patch: Partial<BatchItem>) => {
+    commit(itemsRef.current.map(item => item.id === id ? { ...item, ...patch } : item));
+  };
+
+  const pump = useCallback(() => {
+    if (pausedRef.current) return;
+
+    while (runningRef.current < optionsRef.current.concurrency) {
+      const next = itemsRef.current.find(item => item.status === 'pending' || item.status === 'retry');
+      if (!next) return;
+
+      const attempts = next.attempts + 1;
+      const generation = generationRef.current;
+      runningRef.current++;
+      update(next.id, { status: 'running', attempts });
+
+      const report = (message: string) => {
+        if (generation === generationRef.current) update(next.id, { message });
+      };
+
+      processRef.current(next, controllerRef.current.signal, report)
+        .then(result => {
+          if (generation !== generationRef.current) return; // Cancelled meanwhile
+          update(next.id, { status: 'done', ...result, message: undefined, error: undefined });
+        })
+        .catch((err: any) => {
+          if (generation !== generationRef.current) return;
+          const { describeError, maxRetries } = optionsRef.current;
+          const error = describeError ? describeError(err) : (err?.message || String(err));
+          update(next.id, !(err instanceof OcrError) && attempts <= maxRetries
+            ? { status: 'retry', message: undefined, error }
+            : { status: 'failed', message: undefined, error });
+        })
+        .finally(() => {
+          if (generation !== generationRef.current) return; // Counter was reset by cancel/clear
+          runningRef.current--;
+          pump();
+        });
+    }
+  }, []);
+
+  const addItems = useCallback((entries: BatchEntry[]) => {
+    const added: BatchItem[] = entries.map(entry => ({
+      ...entry,
+      id: `batch-${Date.now()}-${nextId++}`,
+      status: 'pending',
+      attempts: 0,
+    }));
+    commit([...itemsRef.current, ...added]);
+    pump();
+  }, [pump]);
+
+  const pause = useCallback(() => {
+    pausedRef.current = true;
+    setIsPaused(true);
+  }, []);
+
+  const resume = useCallback(() => {
+    pausedRef.current = false;
+    setIsPaused(false);
+    pump();
+  }, [pump]);
+
+  // Aborts in-flight requests and starts a new generation
+  const abortRunning = () => {
+    generationRef.current++;
+    controllerRef.current.abort();
+    controllerRef.current = new AbortController();
+  };
+
+  /**
+   * Stops the queue: everything not yet finished is marked as failed and
+   * in-flight requests are aborted.
+   */
+  const cancel = useCallback((reason: string) => {
+    abortRunning();
+    runningRef.current = 0;
+    commit(itemsRef.current.map(item =>
+      item.status === 'done' || item.status === 'failed'
+        ? item
+        : { ...item, status: 'failed', message: undefined, error: reason }
+    ));
+  }, []);
+
+  const retry = useCallback((id: string) => {
+    update(id, { status: 'retry', attempts: 0, error: undefined });
+    pump();
+  }, [pump]);
+
+  const remove = useCallback((id: string) => {
+    commit(itemsRef.current.filter(item => item.id !== id || item.status === 'running'));
+  }, []);
+
+  const clear = useCallback(() => {
+    abortRunning();
+    runningRef.current = 0;
+    commit([]);
+  }, []);
+
+  return { items, isPaused, addItems, pause, resume, cancel, retry, remove, clear };
+};
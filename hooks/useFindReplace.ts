@@ -0,0 +1,71 @@
+import { useState, useMemo, useCallback } from 'react';
+import { findMatches, SearchOptions, DEFAULT_SEARCH_OPTIONS } from '../utils/textSearch';
+
+const OPTIONS_STORAGE_KEY = 'app_search_options';
+
+const loadOptions = (): SearchOptions => {
+  try {
+    const saved = localStorage.getItem(OPTIONS_STORAGE_KEY);
+    return saved ? { ...DEFAULT_SEARCH_OPTIONS, ...JSON.parse(saved) } : DEFAULT_SEARCH_OPTIONS;
+  } catch {
+    return DEFAULT_SEARCH_OPTIONS;
+  }
+};
+
+/**
+ * Find/replace state for a text value. Matches are only computed while the
+ * panel is open; the current match stays in range as the text changes.
+ */
+export const useFindReplace = (text: string) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [replacement, setReplacement] = useState('');
+  const [options, setOptionsState] = useState<SearchOptions>(loadOptions);
+  const [index, setIndex] = useState(0);
+
+  const { matches, error } = useMemo(
+    () => isOpen ? findMatches(text, query, options) : { matches: [], error: null },
+    [isOpen, text, query, options]
+  );
+  const currentIndex = matches.length > 0 ? Math.min(index, matches.length - 1) : -1;
+
+  const open = useCallback((initialQuery?: string) => {
+    if (initialQuery) {
+      setQuery(initialQuery);
+      setIndex(0);
+    }
+    setIsOpen(true);
+  }, []);
+
+  const changeQuery = (value: string) => {
+    setQuery(value);
+    setIndex(0);
+  };
+
+  const setOptions = (next: SearchOptions) => {
+    setOptionsState(next);
+    setIndex(0);
+    localStorage.setItem(OPTIONS_STORAGE_KEY, JSON.stringify(next));
+  };
+
+  // Both directions wrap around
+  const next = () => setIndex(matches.length > 0 ? (currentIndex + 1) % matches.length : 0);
+  const previous = () => setIndex(matches.length > 0 ? (currentIndex - 1 + matches.length) % matches.length : 0);
+
+  return {
+    isOpen,
+    open,
+    close: () => setIsOpen(false),
+    query,
+    setQuery: changeQuery,
+    replacement,
+    setReplacement,
+    options,
+    setOptions,
+    matches,
+    error,
+    currentIndex,
+    next,
+    previous,
+  };
+};
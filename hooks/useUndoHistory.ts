@@ -0,0 +1,68 @@
+import { useState, useCallback } from 'react';
+
+// Keystrokes closer together than this are undone as one step
+const TYPING_GROUP_MS = 1000;
+const MAX_ENTRIES = 200;
+
+interface UndoState {
+  past: string[];
+  present: string;
+  future: string[];
+  lastTypingAt: number; // 0 once the current step is closed
+}
+
+export interface SetValueOptions {
+  typing?: boolean; // Groups with the previous keystrokes instead of adding a step
+  replace?: boolean; // Updates the current step in place, e.g. for streamed text
+}
+
+/**
+ * Undo/redo stack for a text value. Every change is a step unless it is
+ * grouped with recent typing or replaces the current step.
+ */
+export const useUndoHistory = (initial: string) => {
+  const [state, setState] = useState<UndoState>({ past: [], present: initial, future: [], lastTypingAt: 0 });
+
+  const set = useCallback((value: string, { typing = false, replace = false }: SetValueOptions = {}) => {
+    setState(prev => {
+      if (value === prev.present) return prev;
+      const now = Date.now();
+      if (replace || (typing && prev.lastTypingAt > 0 && now - prev.lastTypingAt < TYPING_GROUP_MS)) {
+        return { ...prev, present: value, future: [], lastTypingAt: typing ? now : prev.lastTypingAt };
+      }
+      return {
+        past: [...prev.past, prev.present].slice(-MAX_ENTRIES),
+        present: value,
+        future: [],
+        lastTypingAt: typing ? now : 0,
+      };
+    });
+  }, []);
+
+  const undo = useCallback(() => {
+    setState(prev => prev.past.length === 0 ? prev : {
+      past: prev.past.slice(0, -1),
+      present: prev.past[prev.past.length - 1],
+      future: [prev.present, ...prev.future],
+      lastTypingAt: 0,
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setState(prev => prev.future.length === 0 ? prev : {
+      past: [...prev.past, prev.present],
+      present: prev.future[0],
+      future: prev.future.slice(1),
+      lastTypingAt: 0,
+    });
+  }, []);
+
+  return {
+    value: state.present,
+    set,
+    undo,
+    redo,
+    canUndo: state.past.length > 0,
+    canRedo: state.future.length > 0,
+  };
+};
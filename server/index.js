@@ -0,0 +1,64 @@
+// @ts-check
+/**
+ * Starts the OCR proxy. Configuration comes from the environment (and
+ * .env.local, like the Vite app):
+ *
+ *   GEMINI_API_KEY         Key for all upstream requests (required unless --mock)
+ *   OCR_SERVER_PORT        Port to listen on (default 8787)
+ *   GEMINI_UPSTREAM_URL    Gemini API origin (default https://generativelanguage.googleapis.com)
+ *   GEMINI_MODEL           Model name (default gemini-2.5-flash)
+ *   RATE_LIMIT_PER_MINUTE  Requests per client per minute (default 10, 0 = off)
+ *   RATE_LIMIT_PER_DAY     Requests per client per day (default 200, 0 = off)
+ *   TRUST_PROXY            Set to 1 behind a reverse proxy to limit by X-Forwarded-For
+ *
+ * With --mock the proxy talks to a local mock upstream instead of Gemini.
+ */
+import { existsSync } from 'node:fs';
+import { createOcrServer } from './ocrServer.js';
+import { createRateLimiter } from './rateLimiter.js';
+import { createMockUpstream } from './mockUpstream.js';
+
+if (existsSync('.env.local')) process.loadEnvFile('.env.local');
+
+const env = process.env;
+const useMock = process.argv.includes('--mock');
+const port = Number(env.OCR_SERVER_PORT) || 8787;
+
+/** @param {string | undefined} value @param {number} fallback */
+const parseLimit = (value, fallback) => value === undefined || value === '' ? fallback : Math.max(0, parseInt(value) || 0);
+
+/** @returns {Promise<string>} Origin of the mock upstream on a free port */
+const startMockUpstream = () =>
+  new Promise((resolve) => {
+    const upstream = createMockUpstream();
+    upstream.listen(0, '127.0.0.1', () => {
+      const address = upstream.address();
+      resolve(`http://127.0.0.1:${typeof address === 'object' && address ? address.port : 0}`);
+    });
+  });
+
+const upstreamUrl = useMock ? await startMockUpstream() : (env.GEMINI_UPSTREAM_URL || 'https://generativelanguage.googleapis.com');
+const apiKey = env.GEMINI_API_KEY || (useMock ? 'mock-key' : '');
+if (!apiKey) {
+  console.error("GEMINI_API_KEY is not set. Add it to .env.local or run with --mock.");
+  process.exit(1);
+}
+
+const rateLimiter = createRateLimiter({
+  perMinute: parseLimit(env.RATE_LIMIT_PER_MINUTE, 10),
+  perDay: parseLimit(env.RATE_LIMIT_PER_DAY, 200),
+});
+setInterval(rateLimiter.prune, 60 * 60 * 1000).unref();
+
+const server = createOcrServer({
+  apiKey,
+  upstreamUrl,
+  model: env.GEMINI_MODEL || 'gemini-2.5-flash',
+  rateLimiter,
+  trustProxy: env.TRUST_PROXY === '1',
+  maxBodyBytes: 20 * 1024 * 1024,
+});
+
+server.listen(port, () => {
+  console.log(`OCR proxy listening on http://localhost:${port} (upstream: ${useMock ? `mock at ${upstreamUrl}` : upstreamUrl})`);
+});
@@ -0,0 +1,92 @@
+// @ts-check
+import http from 'node:http';
+import { createHash } from 'node:crypto';
+
+/**
+ * @param {string} base64Data
+ * @param {string} mimeType
+ */
+const buildMockLines = (base64Data, mimeType) => [
+  "این یک متن آزمایشی است.",
+  "This is a mock OCR result.",
+  `type: ${mimeType}`,
+  `size: ${Math.floor(base64Data.length * 3 / 4)} bytes`,
+  `fingerprint: ${createHash('sha256').update(base64Data).digest('hex').slice(0, 8)}`,
+];
+
+/**
+ * Answers the way Gemini would for the requested schema: layout JSON,
+ * table JSON or plain text.
+ *
+ * @param {string[]} lines
+ * @param {any} schema
+ */
+const buildMockText = (lines, schema) => {
+  if (schema?.properties?.blocks) {
+    // Boxes use Gemini's [ymin, xmin, ymax, xmax] on a 0-1000 scale
+    const blocks = [{
+      box: [100, 100, 150 + (lines.length - 1) * 150, 900],
+      confidence: 1,
+      lines: lines.map((text, i) => {
+        const top = 100 + i * 150;
+        const tokens = text.split(' ');
+        const width = 800 / tokens.length;
+        return {
+          text,
+          box: [top, 100, top + 100, 900],
+          words: tokens.map((word, w) => ({ text: word, box: [top, 100 + width * w, top + 100, 100 + width * (w + 1)] })),
+        };
+      }),
+    }];
+    return JSON.stringify({ blocks });
+  }
+  if (schema?.properties?.tables) {
+    const rows = lines.map((line, i) => {
+      const [key, value = ''] = line.split(': ');
+      return [String(i + 1), key, value];
+    });
+    return JSON.stringify({ tables: [{ hasHeader: true, rows: [["ردیف", "شرح", "مقدار"], ...rows] }] });
+  }
+  return lines.join('\n');
+};
+
+/**
+ * Stand-in for the Gemini REST API so the proxy can run and be tested
+ * offline. Only generateContent is implemented; responses are derived from
+ * the image bytes, so the same image always gives the same text.
+ */
+export const createMockUpstream = () =>
+  http.createServer((req, res) => {
+    /** @param {number} status @param {unknown} body */
+    const send = (status, body) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    };
+
+    if (req.method !== 'POST' || !/:generateContent$/.test(new URL(req.url || '/', 'http://localhost').pathname)) {
+      send(404, { error: { code: 404, message: "Not found", status: 'NOT_FOUND' } });
+      return;
+    }
+    if (!req.headers['x-goog-api-key']) {
+      send(403, { error: { code: 403, message: "API key missing", status: 'PERMISSION_DENIED' } });
+      return;
+    }
+
+    /** @type {Buffer[]} */
+    const chunks = [];
+    req.on('data', (chunk) => chunks.push(chunk));
+    req.on('end', () => {
+      try {
+        const { contents, generationConfig } = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+        const image = contents?.[0]?.parts?.find((/** @type {any} */ part) => part.inlineData)?.inlineData;
+        if (!image?.data) {
+          send(400, { error: { code: 400, message: "No image in request", status: 'INVALID_ARGUMENT' } });
+          return;
+        }
+        const text = buildMockText(buildMockLines(image.data, image.mimeType), generationConfig?.responseJsonSchema);
+        send(200, { candidates: [{ content: { role: 'model', parts: [{ text }] }, finishReason: 'STOP' }] });
+      } catch {
+        send(400, { error: { code: 400, message: "Invalid JSON payload", status: 'INVALID_ARGUMENT' } });
+      }
+    });
+  });
@@ -0,0 +1,202 @@
+// @ts-check
+import http from 'node:http';
+
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'RECITATION', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII'];
+
+/**
+ * @typedef {object} OcrServerOptions
+ * @property {string} apiKey Gemini key used for every upstream call
+ * @property {string} upstreamUrl Gemini API origin, or the mock upstream
+ * @property {string} model
+ * @property {ReturnType<typeof import('./rateLimiter.js').createRateLimiter>} rateLimiter
+ * @property {boolean} trustProxy Identify clients by X-Forwarded-For
+ * @property {number} maxBodyBytes
+ */
+
+/**
+ * @typedef {object} OcrRequestBody
+ * @property {string} base64Data Raw base64 image
+ * @property {string} mimeType
+ * @property {string} prompt
+ * @property {unknown} [schema] JSON schema for layout and table modes
+ */
+
+class HttpError extends Error {
+  /**
+   * @param {number} status
+   * @param {string} message
+   * @param {Record<string, string>} [headers]
+   * @param {Record<string, unknown>} [details] Extra fields for the JSON body
+   */
+  constructor(status, message, headers = {}, details = {}) {
+    super(message);
+    this.status = status;
+    this.headers = headers;
+    this.details = details;
+  }
+}
+
+/**
+ * @param {http.ServerResponse} res
+ * @param {number} status
+ * @param {unknown} body
+ * @param {Record<string, string>} [headers]
+ */
+const sendJson = (res, status, body, headers = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+/**
+ * @param {http.IncomingMessage} req
+ * @param {number} maxBytes
+ * @returns {Promise<string>}
+ */
+const readBody = (req, maxBytes) =>
+  new Promise((resolve, reject) => {
+    /** @type {Buffer[]} */
+    const chunks = [];
+    let size = 0;
+    req.on('data', (chunk) => {
+      if (size > maxBytes) return; // Drain the rest so the 413 can still be sent
+      size += chunk.length;
+      if (size > maxBytes) {
+        chunks.length = 0;
+        reject(new HttpError(413, "Image is too large"));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+
+/**
+ * @param {string} raw
+ * @returns {OcrRequestBody}
+ */
+const parseRequestBody = (raw) => {
+  let body;
+  try {
+    body = JSON.parse(raw);
+  } catch {
+    throw new HttpError(400, "Request body is not valid JSON");
+  }
+  for (const field of ['base64Data', 'mimeType', 'prompt']) {
+    if (typeof body?.[field] !== 'string' || !body[field]) throw new HttpError(400, `Missing "${field}"`);
+  }
+  return body;
+};
+
+/**
+ * @param {http.IncomingMessage} req
+ * @param {boolean} trustProxy
+ */
+const clientIdOf = (req, trustProxy) => {
+  const forwarded = req.headers['x-forwarded-for'];
+  if (trustProxy && typeof forwarded === 'string') return forwarded.split(',')[0].trim();
+  return req.socket.remoteAddress || 'unknown';
+};
+
+/**
+ * Calls Gemini's generateContent REST endpoint and returns the response text.
+ * Upstream failures are mapped to statuses the browser can act on: key
+ * problems on the server are not the visitor's fault and become 502.
+ *
+ * @param {OcrRequestBody} body
+ * @param {OcrServerOptions} options
+ * @param {AbortSignal} signal
+ */
+const generateText = async ({ base64Data, mimeType, prompt, schema }, { apiKey, upstreamUrl, model }, signal) => {
+  let response;
+  try {
+    response = await fetch(`${upstreamUrl.replace(/\/+$/, '')}/v1beta/models/${model}:generateContent`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'x-goog-api-key': apiKey },
+      body: JSON.stringify({
+        contents: [{ parts: [{ inlineData: { mimeType, data: base64Data } }, { text: prompt }] }],
+        generationConfig: schema ? { responseMimeType: 'application/json', responseJsonSchema: schema } : undefined,
+      }),
+      signal,
+    });
+  } catch (error) {
+    if (signal.aborted) throw error;
+    throw new HttpError(502, "OCR upstream is unreachable");
+  }
+
+  const payload = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    const message = payload?.error?.message || response.statusText;
+    console.error(`Upstream error ${response.status}: ${message}`);
+    if (response.status === 429) {
+      const retryAfter = response.headers.get('retry-after');
+      throw new HttpError(429, "The shared OCR quota is exhausted", retryAfter ? { 'Retry-After': retryAfter } : {});
+    }
+    if (response.status >= 500) throw new HttpError(503, "OCR upstream is unavailable");
+    throw new HttpError(502, "OCR upstream rejected the request");
+  }
+
+  const blockReason = payload?.promptFeedback?.blockReason;
+  const candidate = payload?.candidates?.[0];
+  if (blockReason || BLOCKED_FINISH_REASONS.includes(candidate?.finishReason)) {
+    throw new HttpError(422, `Response blocked: ${blockReason || candidate.finishReason}`, {}, { blocked: true });
+  }
+  /** @type {{ text?: string }[]} */
+  const parts = candidate?.content?.parts || [];
+  return parts.map(part => part.text || '').join('');
+};
+
+/**
+ * HTTP server for the "server" OCR provider. It holds the Gemini key, so the
+ * browser bundle never contains it, and applies per-client rate limits.
+ *
+ *   POST /api/ocr     { base64Data, mimeType, prompt, schema? } -> { text }
+ *   GET  /api/health  -> { ok: true }
+ *
+ * Errors are JSON `{ error }` with the status the client should react to;
+ * 429 responses carry Retry-After.
+ *
+ * @param {OcrServerOptions} options
+ */
+export const createOcrServer = (options) =>
+  http.createServer(async (req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+
+    if (req.method === 'GET' && url.pathname === '/api/health') {
+      sendJson(res, 200, { ok: true });
+      return;
+    }
+    if (url.pathname !== '/api/ocr') {
+      sendJson(res, 404, { error: "Not found" });
+      return;
+    }
+    if (req.method !== 'POST') {
+      sendJson(res, 405, { error: "Method not allowed" }, { Allow: 'POST' });
+      return;
+    }
+
+    // Stop the upstream call when the browser cancels the extraction
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableFinished) controller.abort();
+    });
+
+    try {
+      const limit = options.rateLimiter.take(clientIdOf(req, options.trustProxy));
+      if (!limit.allowed) {
+        throw new HttpError(429, "Too many requests", { 'Retry-After': String(Math.ceil(limit.retryAfterMs / 1000)) });
+      }
+
+      const body = parseRequestBody(await readBody(req, options.maxBodyBytes));
+      const text = await generateText(body, options, controller.signal);
+      sendJson(res, 200, { text });
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      if (error instanceof HttpError) {
+        sendJson(res, error.status, { error: error.message, ...error.details }, error.headers);
+        return;
+      }
+      console.error("OCR proxy error:", error);
+      sendJson(res, 500, { error: "Internal server error" });
+    }
+  });
@@ -0,0 +1,109 @@
+// @ts-check
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createOcrServer } from './ocrServer.js';
+import { createRateLimiter } from './rateLimiter.js';
+import { createMockUpstream } from './mockUpstream.js';
+
+const MINUTE = 60 * 1000;
+
+/**
+ * @param {import('node:http').Server} server
+ * @returns {Promise<string>} Origin of the server on a free port
+ */
+const listen = (server) =>
+  new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      const address = server.address();
+      resolve(`http://127.0.0.1:${typeof address === 'object' && address ? address.port : 0}`);
+    });
+  });
+
+/** @param {import('node:http').Server} server */
+const close = (server) => new Promise(resolve => server.close(resolve));
+
+const IMAGE = { base64Data: Buffer.from('image bytes').toString('base64'), mimeType: 'image/png', prompt: 'Extract the text' };
+
+describe('OCR server', () => {
+  const clock = { time: 0 };
+  const upstream = createMockUpstream();
+  /** @type {import('node:http').Server} */
+  let server;
+  let origin = '';
+
+  /**
+   * @param {string} clientIp Sent as X-Forwarded-For, which the server trusts here
+   * @param {unknown} [body]
+   */
+  const postOcr = (clientIp, body = IMAGE) =>
+    fetch(`${origin}/api/ocr`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-Forwarded-For': clientIp },
+      body: JSON.stringify(body),
+    });
+
+  beforeAll(async () => {
+    server = createOcrServer({
+      apiKey: 'test-key',
+      upstreamUrl: await listen(upstream),
+      model: 'test-model',
+      rateLimiter: createRateLimiter({ perMinute: 2, perDay: 0, now: () => clock.time }),
+      trustProxy: true,
+      maxBodyBytes: 1024 * 1024,
+    });
+    origin = await listen(server);
+  });
+
+  afterAll(async () => {
+    await close(server);
+    await close(upstream);
+  });
+
+  beforeEach(() => {
+    clock.time += 10 * MINUTE; // Every test starts with empty windows
+  });
+
+  it('proxies the image to the upstream and returns its text', async () => {
+    const response = await postOcr('10.0.0.1');
+    expect(response.status).toBe(200);
+    const { text } = await response.json();
+    expect(text).toContain('This is a mock OCR result.');
+    expect(text).toContain('type: image/png');
+  });
+
+  it('answers 429 with Retry-After once the minute is full', async () => {
+    expect((await postOcr('10.0.0.2')).status).toBe(200);
+    clock.time += 15 * 1000;
+    expect((await postOcr('10.0.0.2')).status).toBe(200);
+
+    const limited = await postOcr('10.0.0.2');
+    expect(limited.status).toBe(429);
+    expect(limited.headers.get('retry-after')).toBe('45');
+    expect(await limited.json()).toEqual({ error: "Too many requests" });
+  });
+
+  it('limits each client IP separately', async () => {
+    await postOcr('10.0.0.3');
+    await postOcr('10.0.0.3');
+    expect((await postOcr('10.0.0.3')).status).toBe(429);
+    expect((await postOcr('10.0.0.4')).status).toBe(200);
+  });
+
+  it('serves a limited client again after the window passes', async () => {
+    await postOcr('10.0.0.5');
+    await postOcr('10.0.0.5');
+    expect((await postOcr('10.0.0.5')).status).toBe(429);
+    clock.time += MINUTE;
+    expect((await postOcr('10.0.0.5')).status).toBe(200);
+  });
+
+  it('rejects a request without an image', async () => {
+    const response = await postOcr('10.0.0.6', { ...IMAGE, base64Data: '' });
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: 'Missing "base64Data"' });
+  });
+
+  it('answers health checks', async () => {
+    const response = await fetch(`${origin}/api/health`);
+    expect(await response.json()).toEqual({ ok: true });
+  });
+});
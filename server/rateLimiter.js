@@ -0,0 +1,58 @@
+// @ts-check
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+/**
+ * @typedef {{ allowed: boolean, retryAfterMs: number }} RateLimitResult retryAfterMs is 0 when allowed
+ */
+
+/**
+ * Per-client limits for the OCR proxy: a sliding one-minute window and a
+ * daily allowance that starts with the client's first request of the day.
+ * A limit of 0 disables that window.
+ *
+ * @param {{ perMinute: number, perDay: number, now?: () => number }} options
+ */
+export const createRateLimiter = ({ perMinute, perDay, now = Date.now }) => {
+  /** @type {Map<string, { recent: number[], dayStart: number, dayCount: number }>} */
+  const clients = new Map();
+
+  /**
+   * Counts a request for `clientId` if it is within both limits.
+   * @param {string} clientId
+   * @returns {RateLimitResult}
+   */
+  const take = (clientId) => {
+    const time = now();
+    const client = clients.get(clientId) || { recent: [], dayStart: time, dayCount: 0 };
+    clients.set(clientId, client);
+
+    client.recent = client.recent.filter(stamp => time - stamp < MINUTE);
+    if (time - client.dayStart >= DAY) {
+      client.dayStart = time;
+      client.dayCount = 0;
+    }
+
+    if (perDay > 0 && client.dayCount >= perDay) {
+      return { allowed: false, retryAfterMs: client.dayStart + DAY - time };
+    }
+    if (perMinute > 0 && client.recent.length >= perMinute) {
+      return { allowed: false, retryAfterMs: client.recent[0] + MINUTE - time };
+    }
+
+    client.recent.push(time);
+    client.dayCount++;
+    return { allowed: true, retryAfterMs: 0 };
+  };
+
+  // Forgets clients whose daily window has passed, so the map stays small
+  const prune = () => {
+    const time = now();
+    for (const [clientId, client] of clients) {
+      if (time - client.dayStart >= DAY) clients.delete(clientId);
+    }
+  };
+
+  return { take, prune };
+};
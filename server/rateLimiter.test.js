@@ -0,0 +1,79 @@
+// @ts-check
+import { describe, it, expect } from 'vitest';
+import { createRateLimiter } from './rateLimiter.js';
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+/** @param {{ perMinute: number, perDay: number }} limits */
+const createClockedLimiter = (limits) => {
+  const clock = { time: 0 };
+  const limiter = createRateLimiter({ ...limits, now: () => clock.time });
+  return { clock, limiter };
+};
+
+describe('createRateLimiter', () => {
+  it('refuses requests once the minute is full and says when to retry', () => {
+    const { clock, limiter } = createClockedLimiter({ perMinute: 2, perDay: 0 });
+    expect(limiter.take('a').allowed).toBe(true);
+    clock.time = 10 * 1000;
+    expect(limiter.take('a').allowed).toBe(true);
+    clock.time = 20 * 1000;
+    expect(limiter.take('a')).toEqual({ allowed: false, retryAfterMs: 40 * 1000 });
+  });
+
+  it('keeps a separate window for each client', () => {
+    const { limiter } = createClockedLimiter({ perMinute: 1, perDay: 0 });
+    expect(limiter.take('a').allowed).toBe(true);
+    expect(limiter.take('a').allowed).toBe(false);
+    expect(limiter.take('b').allowed).toBe(true);
+  });
+
+  it('lets requests through again as the window slides', () => {
+    const { clock, limiter } = createClockedLimiter({ perMinute: 2, perDay: 0 });
+    limiter.take('a');
+    clock.time = 30 * 1000;
+    limiter.take('a');
+    clock.time = MINUTE - 1;
+    expect(limiter.take('a').allowed).toBe(false);
+    clock.time = MINUTE;
+    expect(limiter.take('a').allowed).toBe(true);
+    expect(limiter.take('a').allowed).toBe(false);
+  });
+
+  it('does not count refused requests', () => {
+    const { clock, limiter } = createClockedLimiter({ perMinute: 1, perDay: 0 });
+    limiter.take('a');
+    clock.time = 30 * 1000;
+    limiter.take('a');
+    clock.time = MINUTE;
+    expect(limiter.take('a').allowed).toBe(true);
+  });
+
+  it('enforces the daily allowance until a day after the first request', () => {
+    const { clock, limiter } = createClockedLimiter({ perMinute: 0, perDay: 2 });
+    limiter.take('a');
+    clock.time = 5 * MINUTE;
+    limiter.take('a');
+    clock.time = 10 * MINUTE;
+    expect(limiter.take('a')).toEqual({ allowed: false, retryAfterMs: DAY - 10 * MINUTE });
+    clock.time = DAY;
+    expect(limiter.take('a').allowed).toBe(true);
+  });
+
+  it('treats a limit of 0 as no limit', () => {
+    const { limiter } = createClockedLimiter({ perMinute: 0, perDay: 0 });
+    for (let i = 0; i < 100; i++) expect(limiter.take('a').allowed).toBe(true);
+  });
+
+  it('prunes clients whose day has passed without resetting the others', () => {
+    const { clock, limiter } = createClockedLimiter({ perMinute: 0, perDay: 1 });
+    limiter.take('a');
+    clock.time = DAY / 2;
+    limiter.take('b');
+    clock.time = DAY;
+    limiter.prune();
+    expect(limiter.take('a').allowed).toBe(true);
+    expect(limiter.take('b').allowed).toBe(false);
+  });
+});
@@ -0,0 +1,202 @@
+import { ApiKeyEntry, KeyRotationMode } from "../types";
+import { decryptJson, encryptJson, EncryptedBlob, VaultKey } from "./keyVault";
+
+const STORAGE_KEY = 'app_api_keys';
+const OPENAI_KEY_STORAGE_KEY = 'app_openai_key';
+const VAULT_STORAGE_KEY = 'app_api_keys_vault';
+const ROTATION_STORAGE_KEY = 'app_key_rotation';
+const AUTO_LOCK_STORAGE_KEY = 'app_key_auto_lock';
+
+export const DEFAULT_AUTO_LOCK_MINUTES = 15;
+
+// Gemini's free tier allows 1500 requests a day and resets at midnight Pacific time
+export const DEFAULT_DAILY_LIMIT = 1500;
+export const DEFAULT_RESET_TIME_ZONE = 'America/Los_Angeles';
+export const BUILT_IN_KEY_ID = 'built-in';
+
+// Everything the vault holds. Vaults written before the OpenAI-compatible key moved in hold just the entries.
+export interface StoredKeys {
+  entries: ApiKeyEntry[];
+  openaiKey: string;
+}
+
+/**
+ * Today's date (YYYY-MM-DD) in the given time zone.
+ */
+export const dayInTimeZone = (timeZone: string, date = new Date()): string => {
+  try {
+    return new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(date);
+  } catch {
+    return date.toISOString().slice(0, 10); // Unknown zone: fall back to UTC
+  }
+};
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Requests counted against the key today; yesterday's count no longer applies.
+ */
+export const getCurrentUsage = (entry: ApiKeyEntry, now = new Date()): number =>
+  entry.usageDate === dayInTimeZone(entry.resetTimeZone, now) ? entry.usage : 0;
+
+export const addUsage = (entry: ApiKeyEntry, amount = 1, now = new Date()): ApiKeyEntry => ({
+  ...entry,
+  usage: getCurrentUsage(entry, now) + amount,
+  usageDate: dayInTimeZone(entry.resetTimeZone, now),
+});
+
+export const createApiKeyEntry = (key: string, label: string): ApiKeyEntry => ({
+  id: key ? `key-${Date.now()}-${Math.random().toString(36).slice(2, 8)}` : BUILT_IN_KEY_ID,
+  label,
+  key,
+  dailyLimit: DEFAULT_DAILY_LIMIT,
+  resetTimeZone: DEFAULT_RESET_TIME_ZONE,
+  usage: 0,
+  usageDate: dayInTimeZone(DEFAULT_RESET_TIME_ZONE),
+});
+
+/**
+ * Masks all but the last four characters, for display next to the label.
+ */
+export const maskKey = (key: string): string => key.length <= 4 ? key : `••••${key.slice(-4)}`;
+
+/**
+ * Keys requests may use: the user's own keys, or the built-in key when there are none.
+ */
+export const getActiveKeys = (entries: ApiKeyEntry[]): ApiKeyEntry[] => {
+  const own = entries.filter(entry => entry.key);
+  return own.length > 0 ? own : entries.filter(entry => !entry.key);
+};
+
+/**
+ * Loads the stored keys, carrying over the single key and usage counter that
+ * earlier versions kept. The built-in key entry is always present.
+ */
+export const loadApiKeys = (): ApiKeyEntry[] => {
+  let entries: ApiKeyEntry[] = [];
+  try {
+    entries = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+  } catch {
+    localStorage.removeItem(STORAGE_KEY);
+  }
+
+  if (!entries.some(entry => entry.id === BUILT_IN_KEY_ID)) {
+    const builtIn = createApiKeyEntry('', 'Built-in');
+    // The old global counter only ran while the built-in key was in use
+    const legacyCount = parseInt(localStorage.getItem('usage_count') || '0') || 0;
+    entries = [{ ...builtIn, usage: legacyCount }, ...entries];
+  }
+
+  const legacyKey = localStorage.getItem('user_gemini_api_key');
+  if (legacyKey) {
+    if (!entries.some(entry => entry.key === legacyKey)) entries.push(createApiKeyEntry(legacyKey, 'Gemini'));
+    localStorage.removeItem('user_gemini_api_key');
+  }
+  localStorage.removeItem('usage_count');
+  localStorage.removeItem('usage_date');
+
+  saveApiKeys(entries);
+  return entries;
+};
+
+export const saveApiKeys = (entries: ApiKeyEntry[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+};
+
+/**
+ * Whether the keys are stored encrypted and need the passphrase to load.
+ */
+export const isKeyStoreEncrypted = (): boolean => localStorage.getItem(VAULT_STORAGE_KEY) !== null;
+
+/**
+ * Loads the OpenAI-compatible endpoint's key while encryption is off, moving
+ * over the key earlier versions kept in the provider settings.
+ */
+export const loadOpenAiKey = (): string => {
+  try {
+    const settings = JSON.parse(localStorage.getItem('app_ocr_provider') || 'null');
+    if (settings?.openai && 'apiKey' in settings.openai) {
+      if (settings.openai.apiKey) localStorage.setItem(OPENAI_KEY_STORAGE_KEY, settings.openai.apiKey);
+      delete settings.openai.apiKey;
+      localStorage.setItem('app_ocr_provider', JSON.stringify(settings));
+    }
+  } catch {
+    // Unreadable provider settings are dropped when the app loads them
+  }
+  return localStorage.getItem(OPENAI_KEY_STORAGE_KEY) || '';
+};
+
+export const saveOpenAiKey = (key: string) => {
+  if (key) localStorage.setItem(OPENAI_KEY_STORAGE_KEY, key);
+  else localStorage.removeItem(OPENAI_KEY_STORAGE_KEY);
+};
+
+/**
+ * Decrypts the stored keys. Throws when the passphrase is wrong.
+ */
+export const unlockApiKeys = async (passphrase: string): Promise<{ keys: StoredKeys; vault: VaultKey }> => {
+  const blob: EncryptedBlob = JSON.parse(localStorage.getItem(VAULT_STORAGE_KEY) || 'null');
+  if (!blob) throw new Error("No encrypted keys stored");
+  const { value, vault } = await decryptJson<StoredKeys | ApiKeyEntry[]>(blob, passphrase);
+  return { keys: Array.isArray(value) ? { entries: value, openaiKey: '' } : value, vault };
+};
+
+/**
+ * Stores the keys encrypted and drops any plaintext copy.
+ */
+export const saveEncryptedApiKeys = async (keys: StoredKeys, vault: VaultKey): Promise<void> => {
+  localStorage.setItem(VAULT_STORAGE_KEY, JSON.stringify(await encryptJson(keys, vault)));
+  localStorage.removeItem(STORAGE_KEY);
+  localStorage.removeItem(OPENAI_KEY_STORAGE_KEY);
+};
+
+export const removeKeyEncryption = ({ entries, openaiKey }: StoredKeys) => {
+  localStorage.removeItem(VAULT_STORAGE_KEY);
+  saveApiKeys(entries);
+  saveOpenAiKey(openaiKey);
+};
+
+// 0 disables auto-lock
+export const loadAutoLockMinutes = (): number => {
+  const saved = localStorage.getItem(AUTO_LOCK_STORAGE_KEY);
+  return saved === null ? DEFAULT_AUTO_LOCK_MINUTES : Math.max(0, parseInt(saved) || 0);
+};
+
+export const saveAutoLockMinutes = (minutes: number) => {
+  localStorage.setItem(AUTO_LOCK_STORAGE_KEY, minutes.toString());
+};
+
+export const loadRotationMode = (): KeyRotationMode =>
+  localStorage.getItem(ROTATION_STORAGE_KEY) === 'failover' ? 'failover' : 'round-robin';
+
+export const saveRotationMode = (mode: KeyRotationMode) => {
+  localStorage.setItem(ROTATION_STORAGE_KEY, mode);
+};
+
+/**
+ * Picks the key for the next request among those under their daily limit and
+ * not cooling down. Round-robin continues after the last key handed out;
+ * failover always prefers the first usable key in list order.
+ */
+export const selectKey = (
+  entries: ApiKeyEntry[],
+  mode: KeyRotationMode,
+  lastIndex: number,
+  isCoolingDown: (entry: ApiKeyEntry) => boolean,
+  now = new Date()
+): number => {
+  const start = mode === 'round-robin' ? lastIndex + 1 : 0;
+  for (let offset = 0; offset < entries.length; offset++) {
+    const index = (start + offset) % entries.length;
+    const entry = entries[index];
+    if (getCurrentUsage(entry, now) < entry.dailyLimit && !isCoolingDown(entry)) return index;
+  }
+  return -1;
+};
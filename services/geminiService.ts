@@ -1,4 +1,9 @@
-import { GoogleGenAI } from "@google/genai";
+import { ApiKeyPool, OCRResult, OCRTable, OcrProviderSettings, OcrRequest, ProviderProgress } from "../types";
+import { STRUCTURED_PROMPT_SUFFIX } from "./structuredOcr";
+import { TABLE_PROMPT_SUFFIX, tablesToText, textToTables } from "./tableOcr";
+import { getProvider, DEFAULT_PROVIDER_SETTINGS } from "./providerRegistry";
+import { classifyError, withRetry, DEFAULT_RETRY_OPTIONS, EmptyResultError, OcrError, QuotaExceededError } from "./ocrErrors";
+import { createCacheKey, getCachedResult, putCachedResult, CacheKeyInput } from "./resultCache";
 
 /**
  * Resizes an image if it exceeds dimensions, to save tokens/bandwidth.
@@ -47,36 +52,9 @@ const resizeImageBase64 = (base64Str: string, maxWidth = 1000): Promise<string>
 };
 
 /**
- * Extracts text from a base64 encoded image using Gemini 2.5 Flash.
- * Allows dynamic API key injection and custom user instructions.
+ * Builds the OCR prompt sent to language-model providers.
  */
-export const extractTextFromImage = async (
-  base64Data: string, 
-  mimeType: string, 
-  userApiKey?: string,
-  customInstructions?: string,
-  isEcoMode: boolean = false
-): Promise<string> => {
-  try {
-    // 1. Determine API Key
-    const apiKey = userApiKey || process.env.API_KEY;
-    if (!apiKey) {
-      throw new Error("API Key یافت نشد. لطفاً در تنظیمات کلید خود را وارد کنید.");
-    }
-
-    // 2. Initialize Client with the specific key
-    const ai = new GoogleGenAI({ apiKey });
-
-    // 3. Resize if Eco Mode is enabled
-    let finalBase64 = base64Data;
-    if (isEcoMode) {
-        finalBase64 = await resizeImageBase64(base64Data, 1000); // Resize to max 1000px
-    }
-
-    // 4. Clean Base64
-    const cleanBase64 = finalBase64.split(',')[1] || finalBase64;
-
-    // 5. Construct Prompt
+const buildPrompt = (customInstructions?: string): string => {
     let promptText = `You are an expert OCR specialist and editor. 
             Extract all text from the provided image with high accuracy.
             
@@ -91,7 +69,7 @@ export const extractTextFromImage = async (
             
             3. **Formatting**: Preserve line breaks and paragraph structure.`;
 
-    // 6. Append Custom Instructions if provided
+    // Append Custom Instructions if provided
     if (customInstructions && customInstructions.trim().length > 0) {
       promptText += `\n\nUSER CUSTOM INSTRUCTIONS (PRIORITY):
       The user has provided specific rules for this extraction. Follow them strictly:
@@ -99,31 +77,225 @@ export const extractTextFromImage = async (
     }
 
     promptText += `\n\nReturn ONLY the extracted and corrected text. Do not add any conversational output.`;
+    return promptText;
+};
+
+export interface ExtractionProgress {
+  stage: 'preparing' | 'sending' | 'receiving';
+  percent: number; // 0-100 for this request
+  text?: string; // Text received so far while streaming
+}
 
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: {
-        parts: [
-          {
-            inlineData: {
-              mimeType: mimeType,
-              data: cleanBase64,
-            },
-          },
-          {
-            text: promptText
-          },
-        ],
-      },
+export interface ExtractionOptions {
+  // Called before each automatic retry of a rate-limited or failed request
+  onRetry?: (error: OcrError, attempt: number, delayMs: number) => void;
+  signal?: AbortSignal;
+  // Setting this makes text extraction stream partial results where the provider can
+  onProgress?: (progress: ExtractionProgress) => void;
+  forceRefresh?: boolean; // Skip the cache lookup; the fresh result replaces the cached one
+  onCacheHit?: () => void;
+  keyPool?: ApiKeyPool; // Takes precedence over the single userApiKey
+}
+
+// Streams don't announce their length, so received text fills the bar asymptotically
+const STREAM_HALF_LENGTH = 1500;
+
+const toExtractionProgress = ({ text, fraction }: ProviderProgress): ExtractionProgress => ({
+  stage: 'receiving',
+  percent: 20 + 75 * (fraction ?? (text ? text.length / (text.length + STREAM_HALF_LENGTH) : 0)),
+  text,
+});
+
+/**
+ * Applies Eco Mode resizing and builds the provider request.
+ */
+const prepareRequest = async (
+  base64Data: string,
+  mimeType: string,
+  prompt: string,
+  userApiKey: string | undefined,
+  isEcoMode: boolean,
+  providerSettings: OcrProviderSettings,
+  { signal, onProgress }: ExtractionOptions
+): Promise<OcrRequest> => {
+  onProgress?.({ stage: 'preparing', percent: 5 });
+  // Resize if Eco Mode is enabled
+  let finalBase64 = base64Data;
+  if (isEcoMode) {
+      finalBase64 = await resizeImageBase64(base64Data, 1000); // Resize to max 1000px
+  }
+
+  // Clean Base64
+  const cleanBase64 = finalBase64.split(',')[1] || finalBase64;
+
+  onProgress?.({ stage: 'sending', percent: 20 });
+  return {
+    base64Data: cleanBase64,
+    mimeType,
+    prompt,
+    apiKey: userApiKey,
+    settings: providerSettings,
+    signal,
+    onProgress: onProgress && (update => onProgress(toExtractionProgress(update))),
+  };
+};
+
+const toTypedError = (error: any, signal?: AbortSignal): Error => {
+  // Providers report aborts in their own way; the signal's reason is the reliable one
+  if (signal?.aborted) return signal.reason;
+  console.error("OCR Error:", error);
+  return classifyError(error);
+};
+
+// Engines that can't be interrupted still finish, but their late result is dropped
+const retrying = async <T>(run: () => Promise<T>, options: ExtractionOptions): Promise<T> => {
+  const result = await withRetry(run, { ...DEFAULT_RETRY_OPTIONS, onRetry: options.onRetry, signal: options.signal });
+  options.signal?.throwIfAborted();
+  return result;
+};
+
+/**
+ * Runs a provider call with retries. With a key pool, every attempt takes the
+ * pool's next key, and a quota failure moves straight on to another key.
+ * The built-in path backs off like any other rate limit.
+ */
+const callProvider = <T>(request: OcrRequest, options: ExtractionOptions, run: (request: OcrRequest) => Promise<T>): Promise<T> => {
+  const pool = options.keyPool;
+  if (!pool) return retrying(() => run(request), options);
+
+  return retrying(async () => {
+    for (;;) {
+      const apiKey = pool.acquire();
+      try {
+        const result = await run({ ...request, apiKey });
+        pool.reportUse(apiKey);
+        return result;
+      } catch (error) {
+        const typed = classifyError(error);
+        // The built-in path has no other key to move on to, so withRetry waits out its Retry-After
+        if (!(typed instanceof QuotaExceededError) || !apiKey) throw typed;
+        pool.reportQuotaExceeded(apiKey, typed.retryAfterMs);
+      }
+    }
+  }, options);
+};
+
+const requireText = (text: string): string => {
+  if (!text.trim()) throw new EmptyResultError();
+  return text;
+};
+
+/**
+ * Returns the cached result for this image and settings if there is one,
+ * otherwise runs the extraction and caches its result. The cache is best
+ * effort: when it is unavailable, every call goes to the provider.
+ */
+const withCache = async (input: CacheKeyInput, options: ExtractionOptions, run: () => Promise<OCRResult>): Promise<OCRResult> => {
+  let key: string | undefined;
+  try {
+    key = await createCacheKey(input);
+    const hit = options.forceRefresh ? undefined : await getCachedResult(key);
+    if (hit) {
+      options.onCacheHit?.();
+      return hit;
+    }
+  } catch (error) {
+    console.error("Result cache unavailable", error);
+  }
+
+  const result = await run();
+  if (key) putCachedResult(key, result).catch(error => console.error("Could not cache result", error));
+  return result;
+};
+
+/**
+ * Extracts text from a base64 encoded image using the selected OCR provider
+ * (Gemini 2.5 Flash by default).
+ * Allows dynamic API key injection and custom user instructions.
+ * With `options.onProgress`, text is streamed and reported as it arrives.
+ * Results are cached by image hash and settings (see resultCache).
+ */
+export const extractTextFromImage = async (
+  base64Data: string, 
+  mimeType: string, 
+  userApiKey?: string,
+  customInstructions?: string,
+  isEcoMode: boolean = false,
+  providerSettings: OcrProviderSettings = DEFAULT_PROVIDER_SETTINGS,
+  options: ExtractionOptions = {}
+): Promise<string> => {
+  try {
+    const provider = getProvider(providerSettings.providerId);
+    const result = await withCache({ base64Data, mode: 'text', providerSettings, customInstructions, isEcoMode }, options, async () => {
+      const request = await prepareRequest(base64Data, mimeType, buildPrompt(customInstructions), userApiKey, isEcoMode, providerSettings, options);
+      return { text: requireText(await callProvider(request, options, keyed => provider.extractText(keyed))) };
+    });
+    return result.text;
+  } catch (error: any) {
+    throw toTypedError(error, options.signal);
+  }
+};
+
+/**
+ * Layout-aware variant of extractTextFromImage: asks the provider for blocks,
+ * lines and words with bounding boxes, validated against the schema.
+ * Providers without structured support fall back to plain text without geometry.
+ */
+export const extractStructuredTextFromImage = async (
+  base64Data: string, 
+  mimeType: string, 
+  userApiKey?: string,
+  customInstructions?: string,
+  isEcoMode: boolean = false,
+  providerSettings: OcrProviderSettings = DEFAULT_PROVIDER_SETTINGS,
+  options: ExtractionOptions = {}
+): Promise<OCRResult> => {
+  try {
+    const provider = getProvider(providerSettings.providerId);
+    return await withCache({ base64Data, mode: 'layout', providerSettings, customInstructions, isEcoMode }, options, async () => {
+      if (!provider.extractStructured) {
+        const request = await prepareRequest(base64Data, mimeType, buildPrompt(customInstructions), userApiKey, isEcoMode, providerSettings, options);
+        return { text: requireText(await callProvider(request, options, keyed => provider.extractText(keyed))) };
+      }
+
+      const request = await prepareRequest(base64Data, mimeType, buildPrompt(customInstructions) + STRUCTURED_PROMPT_SUFFIX, userApiKey, isEcoMode, providerSettings, options);
+      const result = await callProvider(request, options, keyed => provider.extractStructured!(keyed));
+      requireText(result.text);
+      return result;
     });
+  } catch (error: any) {
+    throw toTypedError(error, options.signal);
+  }
+};
 
-    return response.text || "";
+/**
+ * Table-mode variant of extractTextFromImage: asks the provider for tabular
+ * structure. Providers without table support fall back to splitting plain
+ * text into columns.
+ */
+export const extractTablesFromImage = async (
+  base64Data: string, 
+  mimeType: string, 
+  userApiKey?: string,
+  customInstructions?: string,
+  isEcoMode: boolean = false,
+  providerSettings: OcrProviderSettings = DEFAULT_PROVIDER_SETTINGS,
+  options: ExtractionOptions = {}
+): Promise<OCRResult> => {
+  try {
+    const provider = getProvider(providerSettings.providerId);
+    return await withCache({ base64Data, mode: 'table', providerSettings, customInstructions, isEcoMode }, options, async () => {
+      let tables: OCRTable[];
+      if (provider.extractTables) {
+        const request = await prepareRequest(base64Data, mimeType, buildPrompt(customInstructions) + TABLE_PROMPT_SUFFIX, userApiKey, isEcoMode, providerSettings, options);
+        tables = await callProvider(request, options, keyed => provider.extractTables!(keyed));
+      } else {
+        const request = await prepareRequest(base64Data, mimeType, buildPrompt(customInstructions), userApiKey, isEcoMode, providerSettings, options);
+        tables = textToTables(await callProvider(request, options, keyed => provider.extractText(keyed)));
+      }
+      return { text: requireText(tablesToText(tables)), tables };
+    });
   } catch (error: any) {
-    console.error("Gemini OCR Error:", error);
-    // User friendly error mapping
-    if (error.message.includes("API key") || error.message.includes("403")) {
-      throw new Error("کلید API نامعتبر است (403). لطفا کلید خود را بررسی کنید.");
-    }
-    throw new Error(error.message || "خطا در استخراج متن از تصویر");
+    throw toTypedError(error, options.signal);
   }
 };
@@ -0,0 +1,155 @@
+import { HistoryEntry } from "../types";
+import { foldLetter } from "../utils/textSearch";
+
+/**
+ * Text folded for matching, with the original offset of every folded character
+ * so matches can be highlighted in the unmodified text.
+ */
+interface FoldedText {
+  text: string;
+  offsets: number[];
+}
+
+interface IndexedDocument {
+  entry: HistoryEntry;
+  source: string;
+  folded: FoldedText;
+}
+
+export interface SearchIndex {
+  tokens: Map<string, Set<string>>; // Folded token -> entry ids
+  documents: Map<string, IndexedDocument>;
+}
+
+export interface SnippetPart {
+  text: string;
+  highlight: boolean;
+}
+
+export interface SearchHit {
+  entry: HistoryEntry;
+  snippet: SnippetPart[];
+  matches: number;
+}
+
+// Harakat, superscript alef and tatweel carry no meaning for search
+const IGNORED = /[\u064B-\u065F\u0670\u0640]/;
+// ZWNJ is folded to a space so "می‌روم" and "می روم" match
+const SPACE = /[\s\u200C\u200E\u200F]/;
+const TOKEN = /[\p{L}\p{N}]+/gu;
+
+const foldChar = (char: string): string => foldLetter(char).toLowerCase();
+
+export const foldText = (source: string): FoldedText => {
+  let text = '';
+  const offsets: number[] = [];
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (IGNORED.test(char)) continue;
+    if (SPACE.test(char)) {
+      // Collapse whitespace runs into one space
+      if (text.length > 0 && text[text.length - 1] !== ' ') {
+        text += ' ';
+        offsets.push(i);
+      }
+      continue;
+    }
+    const folded = foldChar(char);
+    for (const part of folded) {
+      text += part;
+      offsets.push(i);
+    }
+  }
+  return { text, offsets };
+};
+
+export const normalizeForSearch = (value: string): string => foldText(value).text.trim();
+
+const tokenize = (folded: string): string[] => folded.match(TOKEN) || [];
+
+export const createSearchIndex = (entries: HistoryEntry[]): SearchIndex => {
+  const index: SearchIndex = { tokens: new Map(), documents: new Map() };
+  for (const entry of entries) {
+    const source = entry.editedText ?? entry.text;
+    const folded = foldText(source);
+    index.documents.set(entry.id, { entry, source, folded });
+    for (const token of tokenize(folded.text)) {
+      if (!index.tokens.has(token)) index.tokens.set(token, new Set());
+      index.tokens.get(token)!.add(entry.id);
+    }
+  }
+  return index;
+};
+
+// Ids of entries containing a token that starts with the query term
+const lookup = (index: SearchIndex, term: string): Set<string> => {
+  const ids = new Set<string>();
+  index.tokens.forEach((entryIds, token) => {
+    if (token.startsWith(term)) entryIds.forEach(id => ids.add(id));
+  });
+  return ids;
+};
+
+const findRanges = (folded: string, terms: string[]): [number, number][] => {
+  const ranges: [number, number][] = [];
+  for (const term of terms) {
+    let from = folded.indexOf(term);
+    while (from !== -1) {
+      ranges.push([from, from + term.length]);
+      from = folded.indexOf(term, from + term.length);
+    }
+  }
+  return ranges.sort((a, b) => a[0] - b[0]);
+};
+
+/**
+ * Cuts a window of the original text around the first match and marks every
+ * match inside it.
+ */
+const buildSnippet = ({ source, folded }: IndexedDocument, ranges: [number, number][], radius: number): SnippetPart[] => {
+  // Map folded ranges back to the original text; the end offset includes the whole last character
+  const original = ranges.map(([start, end]) => [folded.offsets[start], folded.offsets[end - 1] + 1] as [number, number]);
+  const windowStart = Math.max(0, original[0][0] - radius);
+  const windowEnd = Math.min(source.length, original[0][1] + radius * 2);
+
+  const parts: SnippetPart[] = [];
+  let cursor = windowStart;
+  for (const [start, end] of original) {
+    if (start < cursor) continue; // Overlapping match
+    if (end > windowEnd) break;
+    if (start > cursor) parts.push({ text: source.slice(cursor, start), highlight: false });
+    parts.push({ text: source.slice(start, end), highlight: true });
+    cursor = end;
+  }
+  if (cursor < windowEnd) parts.push({ text: source.slice(cursor, windowEnd), highlight: false });
+
+  if (windowStart > 0) parts.unshift({ text: '…', highlight: false });
+  if (windowEnd < source.length) parts.push({ text: '…', highlight: false });
+  return parts.map(part => ({ ...part, text: part.text.replace(/\s+/g, ' ') }));
+};
+
+/**
+ * Entries containing every query term (prefix match on folded tokens),
+ * ranked by match count and then recency.
+ */
+export const searchHistory = (index: SearchIndex, query: string, snippetRadius = 40): SearchHit[] => {
+  const terms = tokenize(normalizeForSearch(query));
+  if (terms.length === 0) return [];
+
+  let ids: Set<string> | null = null;
+  for (const term of terms) {
+    const found = lookup(index, term);
+    ids = ids === null ? found : new Set([...ids].filter(id => found.has(id)));
+    if (ids.size === 0) return [];
+  }
+
+  const hits: SearchHit[] = [];
+  ids!.forEach(id => {
+    const document = index.documents.get(id)!;
+    const ranges = findRanges(document.folded.text, terms);
+    if (ranges.length === 0) return;
+    hits.push({ entry: document.entry, snippet: buildSnippet(document, ranges, snippetRadius), matches: ranges.length });
+  });
+
+  return hits.sort((a, b) => b.matches - a.matches || b.entry.updatedAt.localeCompare(a.entry.updatedAt));
+};
@@ -0,0 +1,102 @@
+import { HistoryEntry } from "../types";
+
+const DB_NAME = 'axkhan_history';
+const DB_VERSION = 1;
+const STORE = 'entries';
+
+// Oldest entries are evicted once the stored results grow past this size
+export const HISTORY_STORAGE_LIMIT = 50 * 1024 * 1024;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error("IndexedDB is not supported in this browser"));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: 'id' });
+        store.createIndex('updatedAt', 'updatedAt');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error || new Error("Could not open history database"));
+    });
+    // Allow a later call to retry after a failed open
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return promisify(run(db.transaction(STORE, mode).objectStore(STORE)));
+};
+
+/**
+ * Rough UTF-16 size of an entry; good enough to enforce the storage cap.
+ */
+export const estimateEntrySize = (entry: Omit<HistoryEntry, 'size'>): number =>
+  JSON.stringify(entry).length * 2;
+
+/**
+ * All entries, most recently updated first.
+ */
+export const listHistoryEntries = async (): Promise<HistoryEntry[]> => {
+  const entries = await withStore('readonly', store => store.getAll() as IDBRequest<HistoryEntry[]>);
+  return entries.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+export const getHistoryEntry = (id: string): Promise<HistoryEntry | undefined> =>
+  withStore('readonly', store => store.get(id) as IDBRequest<HistoryEntry | undefined>);
+
+export const deleteHistoryEntry = async (id: string): Promise<void> => {
+  await withStore('readwrite', store => store.delete(id));
+};
+
+export const clearHistory = async (): Promise<void> => {
+  await withStore('readwrite', store => store.clear());
+};
+
+/**
+ * Deletes the oldest entries until the total size fits the limit.
+ * The newest entry is always kept, even if it alone exceeds the limit.
+ */
+export const pruneHistory = async (limit = HISTORY_STORAGE_LIMIT): Promise<void> => {
+  const entries = await listHistoryEntries();
+  let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+  for (let i = entries.length - 1; i > 0 && total > limit; i--) {
+    await deleteHistoryEntry(entries[i].id);
+    total -= entries[i].size;
+  }
+};
+
+export const saveHistoryEntry = async (entry: Omit<HistoryEntry, 'size'>): Promise<HistoryEntry> => {
+  const stored = { ...entry, size: estimateEntrySize(entry) };
+  await withStore('readwrite', store => store.put(stored));
+  await pruneHistory();
+  return stored;
+};
+
+/**
+ * Stores the editor's latest text on an existing entry and returns it, or
+ * undefined when the entry is gone. Edits skip pruning, which reads every
+ * entry; the size cap is enforced again when the next result is saved.
+ */
+export const updateHistoryText = async (id: string, editedText: string): Promise<HistoryEntry | undefined> => {
+  const entry = await getHistoryEntry(id);
+  if (!entry) return undefined;
+  const { size, ...rest } = entry;
+  const updated = { ...rest, editedText, updatedAt: new Date().toISOString() };
+  const stored = { ...updated, size: estimateEntrySize(updated) };
+  await withStore('readwrite', store => store.put(stored));
+  return stored;
+};
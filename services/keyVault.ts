@@ -0,0 +1,80 @@
+/**
+ * Passphrase-based encryption for data kept in localStorage.
+ * The passphrase is stretched with PBKDF2-SHA-256 into a non-extractable
+ * AES-GCM key; every write uses a fresh IV.
+ */
+
+const PBKDF2_ITERATIONS = 310000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+export interface EncryptedBlob {
+  version: 1;
+  iterations: number;
+  salt: string; // Base64
+  iv: string; // Base64
+  data: string; // Base64 ciphertext including the GCM tag
+}
+
+// The derived key, kept in memory only while unlocked
+export interface VaultKey {
+  key: CryptoKey;
+  salt: Uint8Array;
+  iterations: number;
+}
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary);
+};
+
+const fromBase64 = (base64: string): Uint8Array => Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+
+/**
+ * Derives the encryption key for `passphrase`. Without a salt a new random
+ * one is generated, as when encryption is first turned on.
+ */
+export const deriveVaultKey = async (
+  passphrase: string,
+  salt: Uint8Array = crypto.getRandomValues(new Uint8Array(SALT_BYTES)),
+  iterations = PBKDF2_ITERATIONS
+): Promise<VaultKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  const key = await crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+  return { key, salt, iterations };
+};
+
+export const encryptJson = async (value: unknown, vault: VaultKey): Promise<EncryptedBlob> => {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const plaintext = new TextEncoder().encode(JSON.stringify(value));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, vault.key, plaintext);
+  return {
+    version: 1,
+    iterations: vault.iterations,
+    salt: toBase64(vault.salt),
+    iv: toBase64(iv),
+    data: toBase64(new Uint8Array(ciphertext)),
+  };
+};
+
+/**
+ * Decrypts a blob written by encryptJson and returns the key for later writes.
+ * A wrong passphrase fails the GCM authentication check and throws.
+ */
+export const decryptJson = async <T>(blob: EncryptedBlob, passphrase: string): Promise<{ value: T; vault: VaultKey }> => {
+  const vault = await deriveVaultKey(passphrase, fromBase64(blob.salt), blob.iterations);
+  let plaintext: ArrayBuffer;
+  try {
+    plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(blob.iv) }, vault.key, fromBase64(blob.data));
+  } catch {
+    throw new Error("Incorrect passphrase");
+  }
+  return { value: JSON.parse(new TextDecoder().decode(plaintext)), vault };
+};
@@ -0,0 +1,124 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  classifyError, withRetry, getRetryDelay, parseRetryAfter, DEFAULT_RETRY_OPTIONS, RetryOptions,
+  NetworkError, SafetyBlockedError, QuotaExceededError, ServerError, InvalidKeyError,
+} from './ocrErrors';
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.useRealTimers();
+});
+
+describe('classifyError', () => {
+  it('treats transport failures that mention "blocked" as retryable network errors', () => {
+    for (const error of [
+      new TypeError('Failed to fetch'),
+      new TypeError('Request blocked by CORS policy'),
+      new Error('net::ERR_BLOCKED_BY_CLIENT: network request blocked by client'),
+    ]) {
+      const classified = classifyError(error);
+      expect(classified).toBeInstanceOf(NetworkError);
+      expect((classified as NetworkError).retryable).toBe(true);
+    }
+  });
+
+  it('recognizes Gemini block reasons in the message or on the error', () => {
+    expect(classifyError(new Error('Gemini blocked the response: SAFETY'))).toBeInstanceOf(SafetyBlockedError);
+    expect(classifyError(new Error('Candidate finished with PROHIBITED_CONTENT'))).toBeInstanceOf(SafetyBlockedError);
+    expect(classifyError(Object.assign(new Error('No text'), { blockReason: 'BLOCKLIST' }))).toBeInstanceOf(SafetyBlockedError);
+  });
+
+  it('does not treat any message containing "blocked" as a safety block', () => {
+    const classified = classifyError(new Error('Account temporarily blocked'));
+    expect(classified).not.toBeInstanceOf(SafetyBlockedError);
+  });
+
+  it('keeps status-based classification', () => {
+    expect(classifyError(Object.assign(new Error('Too many requests'), { status: 429 }))).toBeInstanceOf(QuotaExceededError);
+    expect(classifyError(Object.assign(new Error('Bad gateway'), { status: 502 }))).toBeInstanceOf(ServerError);
+  });
+
+  it('reads the status from a numeric code field before the message', () => {
+    expect(classifyError(Object.assign(new Error('Request failed'), { code: 403 }))).toBeInstanceOf(InvalidKeyError);
+    expect(classifyError({ error: { code: 503, message: 'Try again later' } })).toBeInstanceOf(ServerError);
+    expect(classifyError(Object.assign(new Error('got status: 500'), { status: 401 }))).toBeInstanceOf(InvalidKeyError);
+  });
+
+  it('falls back to the status in known SDK messages only', () => {
+    expect(classifyError(new Error('got status: 429 . {"error":{}}'))).toBeInstanceOf(QuotaExceededError);
+    expect(classifyError(new Error('{"error":{"code":401,"message":"Denied"}}'))).toBeInstanceOf(InvalidKeyError);
+    expect(classifyError(new Error('Page 503 of the scan could not be read'))).not.toBeInstanceOf(ServerError);
+  });
+});
+
+const FAST: RetryOptions = { maxRetries: 2, baseDelayMs: 1, maxDelayMs: 10 };
+
+describe('withRetry', () => {
+  it('retries retryable errors up to maxRetries and reports each wait', async () => {
+    const run = vi.fn().mockRejectedValue(new ServerError('Unavailable', 503));
+    const onRetry = vi.fn();
+    await expect(withRetry(run, { ...FAST, onRetry })).rejects.toBeInstanceOf(ServerError);
+    expect(run).toHaveBeenCalledTimes(3);
+    expect(onRetry.mock.calls.map(call => call[1])).toEqual([1, 2]);
+  });
+
+  it('returns the first successful result', async () => {
+    const run = vi.fn().mockRejectedValueOnce(new NetworkError('Failed to fetch')).mockResolvedValue('text');
+    expect(await withRetry(run, FAST)).toBe('text');
+    expect(run).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not retry errors retrying cannot fix', async () => {
+    const run = vi.fn().mockRejectedValue(Object.assign(new Error('Forbidden'), { status: 403 }));
+    await expect(withRetry(run, FAST)).rejects.toBeInstanceOf(InvalidKeyError);
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops waiting as soon as the signal is aborted', async () => {
+    const controller = new AbortController();
+    const run = vi.fn().mockRejectedValue(new QuotaExceededError('Slow down', 60000));
+    const retrying = withRetry(run, {
+      ...DEFAULT_RETRY_OPTIONS,
+      maxDelayMs: 60000,
+      signal: controller.signal,
+      onRetry: () => controller.abort(new Error('Cancelled')),
+    });
+    await expect(retrying).rejects.toThrow('Cancelled');
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('getRetryDelay', () => {
+  it('waits as long as the server asked, up to maxDelayMs', () => {
+    expect(getRetryDelay(new QuotaExceededError('Slow down', 5000), 0, DEFAULT_RETRY_OPTIONS)).toBe(5000);
+    expect(getRetryDelay(new QuotaExceededError('Slow down', 120000), 0, DEFAULT_RETRY_OPTIONS)).toBe(DEFAULT_RETRY_OPTIONS.maxDelayMs);
+  });
+
+  it('jitters between half and all of the exponential delay', () => {
+    const error = new ServerError('Unavailable', 503);
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    expect(getRetryDelay(error, 2, DEFAULT_RETRY_OPTIONS)).toBe(2000);
+    vi.spyOn(Math, 'random').mockReturnValue(0.999999);
+    expect(getRetryDelay(error, 2, DEFAULT_RETRY_OPTIONS)).toBeCloseTo(4000, 0);
+    expect(getRetryDelay(error, 10, DEFAULT_RETRY_OPTIONS)).toBeLessThanOrEqual(DEFAULT_RETRY_OPTIONS.maxDelayMs);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('reads delays in seconds', () => {
+    expect(parseRetryAfter('45')).toBe(45000);
+    expect(parseRetryAfter('0.5')).toBe(500);
+  });
+
+  it('reads HTTP dates relative to now and never goes negative', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-01-01T12:00:00Z'));
+    expect(parseRetryAfter('Wed, 01 Jan 2025 12:00:30 GMT')).toBe(30000);
+    expect(parseRetryAfter('Wed, 01 Jan 2025 11:59:00 GMT')).toBe(0);
+  });
+
+  it('ignores missing or unreadable values', () => {
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter('soon')).toBeUndefined();
+  });
+});
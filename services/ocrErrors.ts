@@ -0,0 +1,216 @@
+/**
+ * Typed failures for OCR calls. `message` is for logs; the UI shows the
+ * translation named by `messageKey`.
+ */
+export type OcrErrorMessageKey =
+  | 'errorInvalidKey'
+  | 'errorMissingKey'
+  | 'errorQuota'
+  | 'errorSafety'
+  | 'errorNetwork'
+  | 'errorServer'
+  | 'errorEmpty'
+  | 'errorKeysExhausted'
+  | 'errorKeysLocked';
+
+export class OcrError extends Error {
+  messageKey: OcrErrorMessageKey;
+  retryable: boolean;
+  status?: number;
+  retryAfterMs?: number; // Server-requested wait before the next attempt
+
+  constructor(message: string, messageKey: OcrErrorMessageKey, retryable = false, status?: number) {
+    super(message);
+    this.name = 'OcrError';
+    this.messageKey = messageKey;
+    this.retryable = retryable;
+    this.status = status;
+  }
+}
+
+export class InvalidKeyError extends OcrError {
+  constructor(message = "Invalid API key", status?: number, missing = false) {
+    super(message, missing ? 'errorMissingKey' : 'errorInvalidKey', false, status);
+    this.name = 'InvalidKeyError';
+  }
+}
+
+export class QuotaExceededError extends OcrError {
+  constructor(message = "Quota exceeded", retryAfterMs?: number) {
+    super(message, 'errorQuota', true, 429);
+    this.name = 'QuotaExceededError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+// Every configured key is over its daily limit or cooling down after a 429
+export class KeysExhaustedError extends OcrError {
+  constructor(message = "All API keys have reached their limit") {
+    super(message, 'errorKeysExhausted', false, 429);
+    this.name = 'KeysExhaustedError';
+  }
+}
+
+// Stored keys are encrypted and have not been unlocked with the passphrase
+export class KeysLockedError extends OcrError {
+  constructor(message = "API keys are locked") {
+    super(message, 'errorKeysLocked', false);
+    this.name = 'KeysLockedError';
+  }
+}
+
+export class SafetyBlockedError extends OcrError {
+  constructor(message = "Response blocked by safety filters") {
+    super(message, 'errorSafety');
+    this.name = 'SafetyBlockedError';
+  }
+}
+
+export class NetworkError extends OcrError {
+  constructor(message = "Network request failed") {
+    super(message, 'errorNetwork', true);
+    this.name = 'NetworkError';
+  }
+}
+
+export class ServerError extends OcrError {
+  constructor(message = "OCR service is unavailable", status?: number, retryAfterMs?: number) {
+    super(message, 'errorServer', true, status);
+    this.name = 'ServerError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export class EmptyResultError extends OcrError {
+  constructor(message = "No text was returned for this image") {
+    super(message, 'errorEmpty');
+    this.name = 'EmptyResultError';
+  }
+}
+
+/**
+ * True for the rejection of anything stopped through an AbortSignal.
+ */
+export const isAbortError = (error: any): boolean => error?.name === 'AbortError';
+
+/**
+ * Waits `ms`, rejecting with the signal's reason as soon as it is aborted.
+ */
+export const delay = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Parses a Retry-After header (seconds or an HTTP date) into milliseconds.
+ */
+export const parseRetryAfter = (value: string | null | undefined): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+/**
+ * Builds the typed error for an HTTP failure status. Other client errors stay
+ * plain, so their message from the service is shown as is.
+ */
+export const errorFromStatus = (status: number, message: string, retryAfterMs?: number): Error => {
+  if (status === 401 || status === 403) return new InvalidKeyError(message, status);
+  if (status === 429) return new QuotaExceededError(message, retryAfterMs);
+  if (status >= 500) return new ServerError(message, status, retryAfterMs);
+  return new Error(message);
+};
+
+// Gemini's finishReason/blockReason values for a response withheld by its filters
+const BLOCK_REASONS = /\b(SAFETY|PROHIBITED_CONTENT|BLOCKLIST|SPII)\b/;
+
+const asHttpStatus = (value: unknown): number | undefined =>
+  typeof value === 'number' && value >= 100 && value < 600 ? value : undefined;
+
+// Only formats the Gemini SDK is known to use, so a number in free text isn't mistaken for a status
+const SDK_STATUS_PATTERNS = [/got status: (\d{3})\b/, /"code":\s*(\d{3})\b/, /\[(\d{3}) [A-Z]/];
+
+const statusFromMessage = (message: string): number | undefined => {
+  for (const pattern of SDK_STATUS_PATTERNS) {
+    const match = message.match(pattern);
+    if (match) return asHttpStatus(Number(match[1]));
+  }
+  return undefined;
+};
+
+/**
+ * Maps anything thrown by a provider or SDK onto a typed error. The status
+ * comes from the error's own `status` or `code` fields where it has them;
+ * only otherwise is it read from a known SDK message format.
+ */
+export const classifyError = (error: any): Error => {
+  if (error instanceof OcrError || isAbortError(error)) return error;
+  const message: string = error?.message || String(error);
+
+  const status = asHttpStatus(error?.status) ?? asHttpStatus(error?.code) ?? asHttpStatus(error?.error?.code) ?? statusFromMessage(message);
+  // Gemini reports the suggested wait inside the error details
+  const retryDelay = message.match(/"retryDelay":\s*"(\d+(?:\.\d+)?)s"/);
+  const retryAfterMs = retryDelay ? parseFloat(retryDelay[1]) * 1000 : undefined;
+
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota|rate limit/i.test(message)) return new QuotaExceededError(message, retryAfterMs);
+  if (status === 401 || status === 403 || /API key|PERMISSION_DENIED|UNAUTHENTICATED/i.test(message)) return new InvalidKeyError(message, status);
+  if ((status && status >= 500) || /UNAVAILABLE|INTERNAL|overloaded/i.test(message)) return new ServerError(message, status, retryAfterMs);
+  // Before the block reasons: CORS and ad blocker failures also say "blocked"
+  if (error instanceof TypeError || /failed to fetch|network|fetch failed/i.test(message)) return new NetworkError(message);
+  if (BLOCK_REASONS.test(`${error?.blockReason} ${error?.finishReason} ${message}`)) return new SafetyBlockedError(message);
+  if (status) return errorFromStatus(status, message, retryAfterMs);
+  return error instanceof Error ? error : new Error(message);
+};
+
+export interface RetryOptions {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  onRetry?: (error: OcrError, attempt: number, delayMs: number) => void;
+  signal?: AbortSignal; // Aborting also ends a pending backoff wait
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxRetries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+};
+
+/**
+ * Exponential backoff with jitter: attempt n waits between half and the full
+ * base * 2^n, unless the server asked for a specific delay.
+ */
+export const getRetryDelay = (error: OcrError, attempt: number, options: RetryOptions): number => {
+  if (error.retryAfterMs !== undefined) return Math.min(error.retryAfterMs, options.maxDelayMs);
+  const exponential = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+  return exponential / 2 + Math.random() * (exponential / 2);
+};
+
+/**
+ * Runs `run`, retrying rate-limit, server and network failures. Other errors
+ * are rethrown immediately, already classified.
+ */
+export const withRetry = async <T>(run: () => Promise<T>, options: RetryOptions = DEFAULT_RETRY_OPTIONS): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await run();
+    } catch (rawError) {
+      const error = classifyError(rawError);
+      if (!(error instanceof OcrError) || !error.retryable || options.signal?.aborted || attempt >= options.maxRetries) throw error;
+      const wait = getRetryDelay(error, attempt, options);
+      options.onRetry?.(error, attempt + 1, wait);
+      await delay(wait, options.signal);
+    }
+  }
+};
@@ -0,0 +1,55 @@
+import { ExtractionMeta, OcrProvider, OcrProviderId, OcrProviderSettings } from "../types";
+import { geminiProvider, GEMINI_MODEL } from "./providers/geminiProvider";
+import { serverProvider } from "./providers/serverProvider";
+import { openaiProvider } from "./providers/openaiProvider";
+import { tesseractProvider } from "./providers/tesseractProvider";
+import { mockProvider } from "./providers/mockProvider";
+
+const registry = new Map<OcrProviderId, OcrProvider>();
+
+export const registerProvider = (provider: OcrProvider) => {
+  registry.set(provider.id, provider);
+};
+
+export const getProvider = (id: OcrProviderId): OcrProvider => {
+  const provider = registry.get(id);
+  if (!provider) {
+    throw new Error(`Unknown OCR provider: ${id}`);
+  }
+  return provider;
+};
+
+export const listProviders = (): OcrProvider[] => Array.from(registry.values());
+
+[geminiProvider, serverProvider, openaiProvider, tesseractProvider, mockProvider].forEach(registerProvider);
+
+export const DEFAULT_PROVIDER_SETTINGS: OcrProviderSettings = {
+  providerId: 'gemini',
+  openai: {
+    baseUrl: 'https://api.openai.com/v1',
+    model: 'gpt-4o-mini',
+  },
+  tesseract: {
+    languages: 'fas+eng',
+  },
+};
+
+/**
+ * Human readable model name for the given settings, e.g. "gemini-2.5-flash".
+ */
+export const describeModel = (settings: OcrProviderSettings): string => {
+  switch (settings.providerId) {
+    case 'gemini': return GEMINI_MODEL;
+    case 'server': return `${GEMINI_MODEL} (server)`;
+    case 'openai': return settings.openai.model;
+    case 'tesseract': return `tesseract.js (${settings.tesseract.languages})`;
+    case 'mock': return 'mock';
+  }
+};
+
+export const createExtractionMeta = (settings: OcrProviderSettings, instructions: string): ExtractionMeta => ({
+  provider: settings.providerId,
+  model: describeModel(settings),
+  instructions,
+  createdAt: new Date().toISOString(),
+});
@@ -0,0 +1,116 @@
+import { GoogleGenAI, GenerateContentResponse, FinishReason } from "@google/genai";
+import { OcrProvider, OcrRequest } from "../../types";
+import { InvalidKeyError, SafetyBlockedError } from "../ocrErrors";
+import { STRUCTURED_OCR_SCHEMA, parseStructuredJson } from "../structuredOcr";
+import { TABLE_OCR_SCHEMA, parseTableJson } from "../tableOcr";
+import { serverProvider } from "./serverProvider";
+
+export const GEMINI_MODEL = 'gemini-2.5-flash';
+
+const createClient = (apiKey?: string) => {
+  if (!apiKey) {
+    throw new InvalidKeyError("No Gemini API key configured", undefined, true);
+  }
+  return new GoogleGenAI({ apiKey });
+};
+
+const buildContents = ({ base64Data, mimeType, prompt }: OcrRequest) => ({
+  parts: [
+    {
+      inlineData: {
+        mimeType: mimeType,
+        data: base64Data,
+      },
+    },
+    {
+      text: prompt
+    },
+  ],
+});
+
+const BLOCKED_FINISH_REASONS: (FinishReason | undefined)[] = [
+  FinishReason.SAFETY,
+  FinishReason.RECITATION,
+  FinishReason.BLOCKLIST,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.SPII,
+];
+
+// A blocked response has no text; report why instead of returning ""
+const readText = (response: GenerateContentResponse): string => {
+  const blockReason = response.promptFeedback?.blockReason;
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (blockReason || BLOCKED_FINISH_REASONS.includes(finishReason)) {
+    throw new SafetyBlockedError(`Gemini blocked the response: ${blockReason || finishReason}`);
+  }
+  return response.text || "";
+};
+
+const streamText = async (request: OcrRequest, onProgress: NonNullable<OcrRequest['onProgress']>): Promise<string> => {
+  const ai = createClient(request.apiKey);
+
+  const stream = await ai.models.generateContentStream({
+    model: GEMINI_MODEL,
+    contents: buildContents(request),
+    config: { abortSignal: request.signal },
+  });
+
+  let text = "";
+  for await (const chunk of stream) {
+    const part = readText(chunk);
+    if (!part) continue;
+    text += part;
+    onProgress({ text });
+  }
+  return text;
+};
+
+const generateJson = async (request: OcrRequest, schema: unknown): Promise<string> => {
+  const ai = createClient(request.apiKey);
+
+  const response = await ai.models.generateContent({
+    model: GEMINI_MODEL,
+    contents: buildContents(request),
+    config: {
+      responseMimeType: 'application/json',
+      responseJsonSchema: schema,
+      abortSignal: request.signal,
+    },
+  });
+
+  return readText(response);
+};
+
+export const geminiProvider: OcrProvider = {
+  id: 'gemini',
+  label: 'Google Gemini 2.5',
+  requiresApiKey: true,
+  // Without an own key the built-in one is used, and that only exists on the app server
+  extractText: async (request) => {
+    if (!request.apiKey) return serverProvider.extractText(request);
+    if (request.onProgress) return streamText(request, request.onProgress);
+    const ai = createClient(request.apiKey);
+
+    const response = await ai.models.generateContent({
+      model: GEMINI_MODEL,
+      contents: buildContents(request),
+      config: { abortSignal: request.signal },
+    });
+
+    return readText(response);
+  },
+  extractStructured: async (request) => request.apiKey
+    ? parseStructuredJson(await generateJson(request, STRUCTURED_OCR_SCHEMA))
+    : serverProvider.extractStructured!(request),
+  extractTables: async (request) => request.apiKey
+    ? parseTableJson(await generateJson(request, TABLE_OCR_SCHEMA))
+    : serverProvider.extractTables!(request),
+};
+
+/**
+ * Checks that a key is accepted and can use the OCR model, without spending
+ * a generation request.
+ */
+export const validateGeminiKey = async (apiKey: string): Promise<void> => {
+  await createClient(apiKey).models.get({ model: GEMINI_MODEL });
+};
@@ -0,0 +1,57 @@
+import { OcrProvider, OcrRequest } from "../../types";
+import { averageConfidence, blocksToText } from "../structuredOcr";
+
+const buildMockLines = ({ base64Data, mimeType }: OcrRequest): string[] => {
+  // Simple FNV-1a fingerprint of the payload so different images differ
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < base64Data.length; i++) {
+    hash ^= base64Data.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+
+  return [
+    "این یک متن آزمایشی است.",
+    "This is a mock OCR result.",
+    `type: ${mimeType}`,
+    `size: ${Math.floor(base64Data.length * 3 / 4)} bytes`,
+    `fingerprint: ${hash.toString(16).padStart(8, '0')}`,
+  ];
+};
+
+/**
+ * Deterministic provider for demos and offline development.
+ * The same image always yields the same text and no network is used.
+ */
+export const mockProvider: OcrProvider = {
+  id: 'mock',
+  label: 'Mock (Offline)',
+  requiresApiKey: false,
+  extractText: async (request) => buildMockLines(request).join('\n'),
+  extractStructured: async (request) => {
+    // One block with evenly stacked lines; words split the line width equally
+    const lines = buildMockLines(request).map((text, i) => {
+      const box = { x: 0.1, y: 0.1 + i * 0.15, width: 0.8, height: 0.1 };
+      const tokens = text.split(' ');
+      return {
+        text,
+        box,
+        words: tokens.map((word, w) => ({
+          text: word,
+          box: { x: box.x + (box.width / tokens.length) * w, y: box.y, width: box.width / tokens.length, height: box.height },
+        })),
+      };
+    });
+    const blocks = [{ box: { x: 0.1, y: 0.1, width: 0.8, height: 0.1 + (lines.length - 1) * 0.15 }, confidence: 1, lines }];
+    return { text: blocksToText(blocks), confidence: averageConfidence(blocks), blocks };
+  },
+  extractTables: async (request) => [{
+    hasHeader: true,
+    rows: [
+      ["ردیف", "شرح", "مقدار"],
+      ...buildMockLines(request).map((line, i) => {
+        const [key, value = ''] = line.split(': ');
+        return [String(i + 1), key, value];
+      }),
+    ],
+  }],
+};
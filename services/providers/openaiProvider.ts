@@ -0,0 +1,116 @@
+import { OcrProvider, OcrRequest } from "../../types";
+import { STRUCTURED_OCR_SCHEMA, parseStructuredJson } from "../structuredOcr";
+import { TABLE_OCR_SCHEMA, parseTableJson } from "../tableOcr";
+import { errorFromStatus, parseRetryAfter, SafetyBlockedError } from "../ocrErrors";
+
+const sendCompletion = async (
+  { base64Data, mimeType, prompt, apiKey, settings, signal }: OcrRequest,
+  extraBody: Record<string, unknown>
+): Promise<Response> => {
+  const { baseUrl, model } = settings.openai;
+  if (!baseUrl || !model) {
+    throw new Error("OpenAI-compatible endpoint is not configured (base URL and model are required).");
+  }
+
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (apiKey) headers['Authorization'] = `Bearer ${apiKey}`;
+
+  const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({
+      model,
+      messages: [
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: prompt },
+            { type: 'image_url', image_url: { url: `data:${mimeType};base64,${base64Data}` } },
+          ],
+        },
+      ],
+      ...extraBody,
+    }),
+    signal,
+  });
+
+  if (!response.ok) {
+    const body = await response.text().catch(() => '');
+    throw errorFromStatus(
+      response.status,
+      `OpenAI-compatible endpoint returned ${response.status}: ${body.slice(0, 200)}`,
+      parseRetryAfter(response.headers.get('retry-after'))
+    );
+  }
+  return response;
+};
+
+const readChoice = (choice: any, content: string | undefined): string => {
+  if (choice?.finish_reason === 'content_filter') {
+    throw new SafetyBlockedError("OpenAI-compatible endpoint filtered the response");
+  }
+  return content || "";
+};
+
+const requestCompletion = async (request: OcrRequest, extraBody: Record<string, unknown> = {}): Promise<string> => {
+  const data = await (await sendCompletion(request, extraBody)).json();
+  const choice = data?.choices?.[0];
+  return readChoice(choice, choice?.message?.content);
+};
+
+/**
+ * Reads a server-sent event stream of completion deltas. Servers that ignore
+ * `stream` and answer with plain JSON are handled too.
+ */
+const streamCompletion = async (request: OcrRequest, onProgress: NonNullable<OcrRequest['onProgress']>): Promise<string> => {
+  const response = await sendCompletion(request, { stream: true });
+  if (!response.body || response.headers.get('content-type')?.includes('application/json')) {
+    const choice = (await response.json())?.choices?.[0];
+    return readChoice(choice, choice?.message?.content);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let text = "";
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || "";
+
+    for (const line of lines) {
+      if (!line.startsWith('data:')) continue;
+      const payload = line.slice(5).trim();
+      if (payload === '[DONE]') return text;
+      const choice = JSON.parse(payload)?.choices?.[0];
+      const delta = readChoice(choice, choice?.delta?.content);
+      if (!delta) continue;
+      text += delta;
+      onProgress({ text });
+    }
+  }
+  return text;
+};
+
+const requestJson = (request: OcrRequest, name: string, schema: unknown) =>
+  requestCompletion(request, {
+    response_format: {
+      type: 'json_schema',
+      json_schema: { name, schema },
+    },
+  });
+
+/**
+ * Any endpoint that speaks the OpenAI Chat Completions API with image input
+ * (OpenAI itself, Azure, OpenRouter, vLLM, Ollama, LM Studio...).
+ */
+export const openaiProvider: OcrProvider = {
+  id: 'openai',
+  label: 'OpenAI-compatible',
+  requiresApiKey: true,
+  extractText: (request) => request.onProgress ? streamCompletion(request, request.onProgress) : requestCompletion(request),
+  extractStructured: async (request) => parseStructuredJson(await requestJson(request, 'ocr_layout', STRUCTURED_OCR_SCHEMA)),
+  extractTables: async (request) => parseTableJson(await requestJson(request, 'ocr_tables', TABLE_OCR_SCHEMA)),
+};
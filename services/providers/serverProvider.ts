@@ -0,0 +1,37 @@
+import { OcrProvider, OcrRequest } from "../../types";
+import { STRUCTURED_OCR_SCHEMA, parseStructuredJson } from "../structuredOcr";
+import { TABLE_OCR_SCHEMA, parseTableJson } from "../tableOcr";
+import { errorFromStatus, parseRetryAfter, SafetyBlockedError } from "../ocrErrors";
+
+// Served by server/index.js; the Vite dev and preview servers proxy /api to it
+export const SERVER_OCR_ENDPOINT = '/api/ocr';
+
+const requestText = async ({ base64Data, mimeType, prompt, signal }: OcrRequest, schema?: unknown): Promise<string> => {
+  const response = await fetch(SERVER_OCR_ENDPOINT, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ base64Data, mimeType, prompt, schema }),
+    signal,
+  });
+
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    const message = `OCR server returned ${response.status}: ${body?.error || response.statusText}`;
+    if (body?.blocked) throw new SafetyBlockedError(message);
+    throw errorFromStatus(response.status, message, parseRetryAfter(response.headers.get('retry-after')));
+  }
+  return body?.text || "";
+};
+
+/**
+ * Gemini through the app's own backend, which keeps the shared key and
+ * enforces per-client rate limits. Responses are not streamed.
+ */
+export const serverProvider: OcrProvider = {
+  id: 'server',
+  label: 'Gemini via App Server',
+  requiresApiKey: false,
+  extractText: (request) => requestText(request),
+  extractStructured: async (request) => parseStructuredJson(await requestText(request, STRUCTURED_OCR_SCHEMA)),
+  extractTables: async (request) => parseTableJson(await requestText(request, TABLE_OCR_SCHEMA)),
+};
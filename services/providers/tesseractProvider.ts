@@ -0,0 +1,63 @@
+import type { Bbox } from "tesseract.js";
+import { BoundingBox, OcrProvider, OcrRequest } from "../../types";
+import { averageConfidence, blocksToText } from "../structuredOcr";
+import { getImageSize } from "../../utils/imageUtils";
+
+const recognize = async ({ base64Data, mimeType, settings, signal, onProgress }: OcrRequest, blocks: boolean) => {
+  // Loaded lazily so the engine only ships to users who pick it
+  const { createWorker } = await import('tesseract.js');
+  const worker = await createWorker(settings.tesseract.languages || 'fas+eng', undefined, {
+    logger: message => {
+      if (message.status === 'recognizing text') onProgress?.({ fraction: message.progress });
+    },
+  });
+  // Terminating the worker is the only way to stop a running recognition
+  const stop = () => { worker.terminate(); };
+  signal?.addEventListener('abort', stop, { once: true });
+  try {
+    signal?.throwIfAborted();
+    return await worker.recognize(`data:${mimeType};base64,${base64Data}`, {}, { text: true, blocks });
+  } finally {
+    signal?.removeEventListener('abort', stop);
+    if (!signal?.aborted) await worker.terminate();
+  }
+};
+
+/**
+ * Runs Tesseract.js fully in the browser. The prompt is ignored since this is
+ * a classic OCR engine, not a language model.
+ */
+export const tesseractProvider: OcrProvider = {
+  id: 'tesseract',
+  label: 'Tesseract.js (Local)',
+  requiresApiKey: false,
+  extractText: async (request) => {
+    const { data } = await recognize(request, false);
+    return data.text || "";
+  },
+  extractStructured: async (request) => {
+    const [{ data }, size] = await Promise.all([
+      recognize(request, true),
+      getImageSize(`data:${request.mimeType};base64,${request.base64Data}`),
+    ]);
+
+    const toBox = ({ x0, y0, x1, y1 }: Bbox): BoundingBox => ({
+      x: x0 / size.width,
+      y: y0 / size.height,
+      width: (x1 - x0) / size.width,
+      height: (y1 - y0) / size.height,
+    });
+
+    const blocks = (data.blocks || []).map(block => ({
+      box: toBox(block.bbox),
+      confidence: block.confidence / 100,
+      lines: block.paragraphs.flatMap(paragraph => paragraph.lines).map(line => ({
+        text: line.text.trim(),
+        box: toBox(line.bbox),
+        words: line.words.map(word => ({ text: word.text, box: toBox(word.bbox) })),
+      })),
+    }));
+
+    return { text: blocksToText(blocks), confidence: averageConfidence(blocks), blocks };
+  },
+};
@@ -0,0 +1,112 @@
+import { ExtractionMode, OCRResult, OcrProviderSettings } from "../types";
+import { describeModel } from "./providerRegistry";
+
+const DB_NAME = 'axkhan_cache';
+const DB_VERSION = 1;
+const STORE = 'results';
+
+// Cached results older than this are ignored and evicted
+export const RESULT_CACHE_TTL = 7 * 24 * 60 * 60 * 1000;
+
+interface CachedResult {
+  key: string;
+  result: OCRResult;
+  createdAt: number; // Epoch milliseconds
+}
+
+export interface CacheKeyInput {
+  base64Data: string; // Data URL or raw base64
+  mode: ExtractionMode;
+  providerSettings: OcrProviderSettings;
+  customInstructions?: string;
+  isEcoMode: boolean;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error("IndexedDB is not supported in this browser"));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: 'key' });
+        store.createIndex('createdAt', 'createdAt');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error || new Error("Could not open result cache"));
+    });
+    // Allow a later call to retry after a failed open
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return promisify(run(db.transaction(STORE, mode).objectStore(STORE)));
+};
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+
+/**
+ * SHA-256 over the image bytes and every setting that changes the result:
+ * provider and model, extraction mode, instructions and Eco Mode.
+ */
+export const createCacheKey = async ({ base64Data, mode, providerSettings, customInstructions, isEcoMode }: CacheKeyInput): Promise<string> => {
+  const binary = atob(base64Data.split(',')[1] || base64Data);
+  const image = Uint8Array.from(binary, char => char.charCodeAt(0));
+  const settings = new TextEncoder().encode(JSON.stringify({
+    provider: providerSettings.providerId,
+    model: describeModel(providerSettings),
+    endpoint: providerSettings.providerId === 'openai' ? providerSettings.openai.baseUrl : undefined,
+    mode,
+    instructions: customInstructions?.trim() || '',
+    eco: isEcoMode,
+  }));
+
+  const data = new Uint8Array(image.length + settings.length);
+  data.set(image);
+  data.set(settings, image.length);
+  return toHex(await crypto.subtle.digest('SHA-256', data));
+};
+
+/**
+ * The stored result for `key`, unless it is missing or older than the TTL.
+ */
+export const getCachedResult = async (key: string): Promise<OCRResult | undefined> => {
+  const entry = await withStore('readonly', store => store.get(key) as IDBRequest<CachedResult | undefined>);
+  if (!entry) return undefined;
+  if (Date.now() - entry.createdAt > RESULT_CACHE_TTL) {
+    await withStore('readwrite', store => store.delete(key));
+    return undefined;
+  }
+  return entry.result;
+};
+
+/**
+ * Deletes every entry past the TTL.
+ */
+export const pruneResultCache = async (): Promise<void> => {
+  const expired = IDBKeyRange.upperBound(Date.now() - RESULT_CACHE_TTL);
+  const keys = await withStore('readonly', store => store.index('createdAt').getAllKeys(expired));
+  for (const key of keys) {
+    await withStore('readwrite', store => store.delete(key));
+  }
+};
+
+export const putCachedResult = async (key: string, result: OCRResult): Promise<void> => {
+  const entry: CachedResult = { key, result, createdAt: Date.now() };
+  await withStore('readwrite', store => store.put(entry));
+  await pruneResultCache();
+};
@@ -0,0 +1,162 @@
+import { BoundingBox, OCRBlock, OCRLine, OCRResult, OCRWord } from "../types";
+
+/**
+ * JSON schema requested from language-model providers in layout mode.
+ * Boxes follow Gemini's native convention: [ymin, xmin, ymax, xmax] on a 0-1000 grid.
+ */
+export const STRUCTURED_OCR_SCHEMA = {
+  type: 'object',
+  properties: {
+    blocks: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          box: { type: 'array', items: { type: 'number' } },
+          confidence: { type: 'number' },
+          lines: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                text: { type: 'string' },
+                box: { type: 'array', items: { type: 'number' } },
+                words: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      text: { type: 'string' },
+                      box: { type: 'array', items: { type: 'number' } },
+                    },
+                    required: ['text', 'box'],
+                  },
+                },
+              },
+              required: ['text', 'box', 'words'],
+            },
+          },
+        },
+        required: ['box', 'confidence', 'lines'],
+      },
+    },
+  },
+  required: ['blocks'],
+};
+
+export const STRUCTURED_PROMPT_SUFFIX = `
+
+LAYOUT MODE:
+Return a JSON object following the provided schema instead of plain text.
+- Group text into blocks (paragraphs, columns, captions) in reading order.
+- Every block, line and word has a "box" as [ymin, xmin, ymax, xmax] normalized to 0-1000.
+- "confidence" is your certainty for the block between 0 and 1.
+- Apply all text corrections above to the "text" fields.`;
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+const fail = (path: string, reason: string): never => {
+  throw new Error(`Invalid structured OCR response at ${path}: ${reason}`);
+};
+
+/**
+ * Whether `raw` is a box in the model convention: four finite numbers.
+ */
+export const isGridBox = (raw: unknown): raw is number[] =>
+  Array.isArray(raw) && raw.length === 4 && raw.every(v => typeof v === 'number' && isFinite(v));
+
+/**
+ * Converts [ymin, xmin, ymax, xmax] on the 0-1000 grid to a normalized box.
+ */
+export const gridBoxToBounds = (values: number[]): BoundingBox => {
+  const [ymin, xmin, ymax, xmax] = values.map(v => clamp01(v / 1000));
+  return {
+    x: Math.min(xmin, xmax),
+    y: Math.min(ymin, ymax),
+    width: Math.abs(xmax - xmin),
+    height: Math.abs(ymax - ymin),
+  };
+};
+
+const parseBox = (raw: unknown, path: string): BoundingBox =>
+  isGridBox(raw) ? gridBoxToBounds(raw) : fail(path, 'expected [ymin, xmin, ymax, xmax]');
+
+const parseString = (raw: unknown, path: string): string =>
+  typeof raw === 'string' ? raw : fail(path, 'expected a string');
+
+const parseArray = (raw: unknown, path: string): unknown[] =>
+  Array.isArray(raw) ? raw : fail(path, 'expected an array');
+
+const parseObject = (raw: unknown, path: string): Record<string, unknown> =>
+  typeof raw === 'object' && raw !== null && !Array.isArray(raw) ? raw as Record<string, unknown> : fail(path, 'expected an object');
+
+/**
+ * Joins blocks into the plain text shown in the editor:
+ * one line per OCR line, blank line between blocks.
+ */
+export const blocksToText = (blocks: OCRBlock[]): string =>
+  blocks.map(block => block.lines.map(line => line.text).join('\n')).join('\n\n');
+
+export const averageConfidence = (blocks: OCRBlock[]): number | undefined =>
+  blocks.length > 0
+    ? blocks.reduce((sum, block) => sum + block.confidence, 0) / blocks.length
+    : undefined;
+
+/**
+ * Validates an untrusted model response and converts it to an OCRResult.
+ * Throws with the offending path when the shape doesn't match the schema.
+ */
+export const parseStructuredResult = (raw: unknown): OCRResult => {
+  const root = parseObject(raw, '$');
+
+  const blocks: OCRBlock[] = parseArray(root.blocks, '$.blocks').map((item, b) => {
+    const blockPath = `$.blocks[${b}]`;
+    const rawBlock = parseObject(item, blockPath);
+
+    const lines: OCRLine[] = parseArray(rawBlock.lines, `${blockPath}.lines`).map((lineItem, l) => {
+      const linePath = `${blockPath}.lines[${l}]`;
+      const rawLine = parseObject(lineItem, linePath);
+      const words: OCRWord[] = parseArray(rawLine.words ?? [], `${linePath}.words`).map((wordItem, w) => {
+        const wordPath = `${linePath}.words[${w}]`;
+        const rawWord = parseObject(wordItem, wordPath);
+        return {
+          text: parseString(rawWord.text, `${wordPath}.text`),
+          box: parseBox(rawWord.box, `${wordPath}.box`),
+        };
+      });
+      return {
+        text: parseString(rawLine.text, `${linePath}.text`),
+        box: parseBox(rawLine.box, `${linePath}.box`),
+        words,
+      };
+    });
+
+    const confidence = typeof rawBlock.confidence === 'number' ? clamp01(rawBlock.confidence) : fail(`${blockPath}.confidence`, 'expected a number');
+
+    return {
+      box: parseBox(rawBlock.box, `${blockPath}.box`),
+      confidence,
+      lines,
+    };
+  });
+
+  return {
+    text: blocksToText(blocks),
+    confidence: averageConfidence(blocks),
+    blocks,
+  };
+};
+
+/**
+ * Parses a JSON string from a model, tolerating ```json fences.
+ */
+export const parseStructuredJson = (raw: string): OCRResult => {
+  const cleaned = raw.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  let json: unknown;
+  try {
+    json = JSON.parse(cleaned);
+  } catch {
+    throw new Error("Structured OCR response is not valid JSON");
+  }
+  return parseStructuredResult(json);
+};
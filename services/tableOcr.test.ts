@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest';
+import { tablesToText, tablesFromText } from './tableOcr';
+import { OCRTable } from '../types';
+
+const TABLES: OCRTable[] = [
+  { hasHeader: true, rows: [['نام', 'قیمت'], ['', '۱۲'], ['قلم  آبی', '']] },
+  { hasHeader: false, rows: [['a', 'b', 'c']] },
+];
+
+describe('tablesFromText', () => {
+  it('reads back what tablesToText wrote, including empty cells', () => {
+    expect(tablesFromText(tablesToText(TABLES), TABLES)).toEqual(TABLES);
+  });
+
+  it('only splits cells on tabs', () => {
+    expect(tablesFromText('قلم  آبی\t۳', [])[0].rows).toEqual([['قلم  آبی', '۳']]);
+  });
+
+  it('pads short rows and keeps header flags by position', () => {
+    const edited = 'نام\tقیمت\tتعداد\nخودکار\n\nx';
+    expect(tablesFromText(edited, TABLES)).toEqual([
+      { hasHeader: true, rows: [['نام', 'قیمت', 'تعداد'], ['خودکار', '', '']] },
+      { hasHeader: false, rows: [['x']] },
+    ]);
+  });
+});
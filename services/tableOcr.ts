@@ -0,0 +1,130 @@
+import { BoundingBox, OCRTable } from "../types";
+import { isGridBox, gridBoxToBounds } from "./structuredOcr";
+
+/**
+ * JSON schema requested from language-model providers in table mode.
+ */
+export const TABLE_OCR_SCHEMA = {
+  type: 'object',
+  properties: {
+    tables: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          box: { type: 'array', items: { type: 'number' } },
+          hasHeader: { type: 'boolean' },
+          rows: {
+            type: 'array',
+            items: { type: 'array', items: { type: 'string' } },
+          },
+        },
+        required: ['box', 'hasHeader', 'rows'],
+      },
+    },
+  },
+  required: ['tables'],
+};
+
+export const TABLE_PROMPT_SUFFIX = `
+
+TABLE MODE:
+Return a JSON object following the provided schema instead of plain text.
+- Detect every table in the image (invoices, forms, price lists...).
+- List the cells of each row in reading order: right to left for Persian/Arabic tables, left to right otherwise.
+- Keep merged cells as a single cell followed by empty strings so every row has the same number of columns.
+- Set "hasHeader" when the first row contains column titles.
+- "box" is the table's [ymin, xmin, ymax, xmax] normalized to 0-1000.
+- Apply all text corrections above to the cell values.`;
+
+const fail = (path: string, reason: string): never => {
+  throw new Error(`Invalid table OCR response at ${path}: ${reason}`);
+};
+
+const parseArray = (raw: unknown, path: string): unknown[] =>
+  Array.isArray(raw) ? raw : fail(path, 'expected an array');
+
+const parseObject = (raw: unknown, path: string): Record<string, unknown> =>
+  typeof raw === 'object' && raw !== null && !Array.isArray(raw) ? raw as Record<string, unknown> : fail(path, 'expected an object');
+
+// Optional: engines that don't locate tables leave it out
+const parseBox = (raw: unknown, path: string): BoundingBox | undefined => {
+  if (raw === undefined || raw === null) return undefined;
+  return isGridBox(raw) ? gridBoxToBounds(raw) : fail(path, 'expected [ymin, xmin, ymax, xmax]');
+};
+
+/**
+ * Pads rows to the same width so grids and spreadsheets stay rectangular.
+ */
+export const normalizeTable = (table: OCRTable): OCRTable => {
+  const columns = Math.max(1, ...table.rows.map(row => row.length));
+  return {
+    ...table,
+    rows: table.rows.map(row => [...row, ...Array(columns - row.length).fill('')]),
+  };
+};
+
+/**
+ * Validates an untrusted model response and converts it to tables.
+ */
+export const parseTableResult = (raw: unknown): OCRTable[] => {
+  const root = parseObject(raw, '$');
+
+  return parseArray(root.tables, '$.tables').map((item, t) => {
+    const path = `$.tables[${t}]`;
+    const rawTable = parseObject(item, path);
+    const rows = parseArray(rawTable.rows, `${path}.rows`).map((rawRow, r) =>
+      parseArray(rawRow, `${path}.rows[${r}]`).map(cell => cell === null || cell === undefined ? '' : String(cell))
+    );
+    const box = parseBox(rawTable.box, `${path}.box`);
+    return normalizeTable({ rows, hasHeader: rawTable.hasHeader === true, ...(box ? { box } : {}) });
+  }).filter(table => table.rows.length > 0);
+};
+
+/**
+ * Parses a JSON string from a model, tolerating ```json fences.
+ */
+export const parseTableJson = (raw: string): OCRTable[] => {
+  const cleaned = raw.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  let json: unknown;
+  try {
+    json = JSON.parse(cleaned);
+  } catch {
+    throw new Error("Table OCR response is not valid JSON");
+  }
+  return parseTableResult(json);
+};
+
+/**
+ * Tab-separated text for the editor; tables are separated by a blank line.
+ */
+export const tablesToText = (tables: OCRTable[]): string =>
+  tables.map(table => table.rows.map(row => row.join('\t')).join('\n')).join('\n\n');
+
+/**
+ * Reads text in the tablesToText layout back into tables, so edits made to
+ * the text show up in the grid. Only tabs split cells; header flags are
+ * kept from `previous` by position.
+ */
+export const tablesFromText = (text: string, previous: OCRTable[]): OCRTable[] =>
+  text
+    .split(/\n{2,}/)
+    .filter(chunk => chunk.trim())
+    .map((chunk, i) => normalizeTable({
+      rows: chunk.split('\n').map(line => line.split('\t')),
+      hasHeader: previous[i]?.hasHeader ?? false,
+    }));
+
+/**
+ * Best-effort fallback for engines without table support: cells are split
+ * on tabs, pipes or runs of two or more spaces, tables on blank lines.
+ */
+export const textToTables = (text: string): OCRTable[] =>
+  text
+    .split(/\n\s*\n/)
+    .map(chunk => chunk.split('\n').filter(line => line.trim()))
+    .filter(lines => lines.length > 0)
+    .map(lines => normalizeTable({
+      rows: lines.map(line => line.replace(/^\s*\||\|\s*$/g, '').split(/\t|\s*\|\s*| {2,}/).map(cell => cell.trim())),
+      hasHeader: false,
+    }));
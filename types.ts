@@ -1,8 +1,44 @@
+// Geometry is normalized to the image size (0-1) so it survives resizing
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface OCRWord {
+  text: string;
+  box: BoundingBox;
+}
+
+export interface OCRLine {
+  text: string;
+  box: BoundingBox;
+  words: OCRWord[];
+}
+
+export interface OCRBlock {
+  box: BoundingBox;
+  confidence: number; // 0-1
+  lines: OCRLine[];
+}
+
+// Cells are listed in reading order, so for RTL tables the first cell is the rightmost
+export interface OCRTable {
+  rows: string[][];
+  hasHeader: boolean;
+  box?: BoundingBox; // Normalized position in the image, when the engine reports it
+}
+
 export interface OCRResult {
   text: string;
   confidence?: number;
+  blocks?: OCRBlock[];
+  tables?: OCRTable[];
 }
 
+export type ExtractionMode = 'text' | 'layout' | 'table';
+
 export enum TextDirection {
   RTL = 'rtl',
   LTR = 'ltr',
@@ -12,4 +48,153 @@ export interface ProcessingState {
   isLoading: boolean;
   error: string | null;
   progress: string;
-}
\ No newline at end of file
+}
+
+export type OcrProviderId = 'gemini' | 'server' | 'openai' | 'tesseract' | 'mock';
+
+export interface OcrProviderSettings {
+  providerId: OcrProviderId;
+  openai: {
+    baseUrl: string;
+    model: string;
+  };
+  tesseract: {
+    languages: string;
+  };
+}
+
+export interface OcrRequest {
+  base64Data: string; // Raw base64, without the data URL prefix
+  mimeType: string;
+  prompt: string;
+  apiKey?: string; // Gemini key from the pool, or the OpenAI-compatible endpoint's key
+  settings: OcrProviderSettings;
+  signal?: AbortSignal; // Providers stop their work when it is aborted
+  onProgress?: (update: ProviderProgress) => void; // When set, extractText streams if it can
+}
+
+export type KeyRotationMode = 'round-robin' | 'failover';
+
+export interface ApiKeyEntry {
+  id: string;
+  label: string;
+  key: string; // Empty for the built-in key the app ships with
+  dailyLimit: number;
+  resetTimeZone: string; // IANA zone whose midnight resets the counter
+  usage: number;
+  usageDate: string; // YYYY-MM-DD in resetTimeZone that `usage` counts
+}
+
+/**
+ * Hands out Gemini keys for requests and collects what happened with them.
+ */
+export interface ApiKeyPool {
+  acquire: () => string; // '' for the built-in path; throws KeysExhaustedError when every user key is used up
+  reportUse: (key: string) => void;
+  reportQuotaExceeded: (key: string, retryAfterMs?: number) => void;
+}
+
+export interface ProviderProgress {
+  text?: string; // Text received so far, from streaming providers
+  fraction?: number; // 0-1, from engines that know how far along they are
+}
+
+export interface OcrProvider {
+  id: OcrProviderId;
+  label: string;
+  requiresApiKey: boolean;
+  extractText: (request: OcrRequest) => Promise<string>;
+  // Optional layout-aware extraction (blocks, lines, words with boxes)
+  extractStructured?: (request: OcrRequest) => Promise<OCRResult>;
+  // Optional table extraction for invoices, forms and spreadsheets
+  extractTables?: (request: OcrRequest) => Promise<OCRTable[]>;
+}
+
+export type BatchItemStatus = 'pending' | 'running' | 'done' | 'failed' | 'retry';
+
+export interface BatchItem {
+  id: string;
+  name: string;
+  base64: string; // Data URL
+  mimeType: string;
+  status: BatchItemStatus;
+  attempts: number;
+  text?: string;
+  blocks?: OCRBlock[];
+  tables?: OCRTable[];
+  meta?: ExtractionMeta; // Settings the item actually ran with
+  message?: string; // Progress note while running, e.g. a retry countdown
+  error?: string;
+}
+
+// Describes how a result was produced; carried into exports and history
+export interface ExtractionMeta {
+  provider: OcrProviderId;
+  model: string;
+  instructions: string;
+  createdAt: string; // ISO timestamp
+}
+
+export interface HistoryEntry {
+  id: string;
+  thumbnail: string; // Small JPEG data URL for the sidebar
+  image: string | null; // Full-size source image (first page for PDFs)
+  pages: string[];
+  text: string; // Text from the OCR engine after post-processing
+  rawText?: string; // Unprocessed engine output, kept when post-processing changed it
+  editedText?: string; // Latest user edits from the editor
+  blocks: OCRBlock[];
+  tables: OCRTable[];
+  meta: ExtractionMeta;
+  size: number; // Approximate bytes, used for the storage cap
+  updatedAt: string; // ISO timestamp
+}
+
+// Canvas steps applied to photos before OCR; run in the order listed
+export interface PreprocessingSettings {
+  autoRotate: boolean; // Honor EXIF orientation from phone cameras
+  deskew: boolean;
+  grayscale: boolean;
+  autoContrast: boolean; // Stretch levels, clipping the darkest/brightest 1%
+  denoise: boolean;
+  binarize: boolean; // Adaptive threshold, robust to shadows
+}
+
+// Post-OCR clean-up rules for Persian text, each toggled separately
+export interface NormalizerSettings {
+  removeKashida: boolean; // Tatweel used to stretch words
+  arabicLetters: boolean; // Arabic ي/ك to Persian ی/ک
+  collapseWhitespace: boolean;
+  zwnj: boolean; // Half-space for می/نمی, ها, تر and similar affixes written with a space
+  punctuationSpacing: boolean;
+  persianDigits: boolean;
+}
+
+export type BuiltInPostProcessorId = 'normalize' | 'optionLetters' | 'collapseBlankLines';
+
+export interface BuiltInPostProcessingStep {
+  id: string;
+  enabled: boolean;
+  kind: 'builtin';
+  builtin: BuiltInPostProcessorId;
+}
+
+export interface ReplaceRuleStep {
+  id: string;
+  enabled: boolean;
+  kind: 'replace';
+  name: string;
+  find: string;
+  replace: string; // May use $1, $& etc. when `regex` is set
+  regex: boolean;
+  caseSensitive: boolean;
+}
+
+// One step of the post-processing pipeline, run in list order on extracted text
+export type PostProcessingStep = BuiltInPostProcessingStep | ReplaceRuleStep;
+
+// Normalized (0-1) image coordinate
+export interface Point {
+  x: number;
+  y: number;
+}
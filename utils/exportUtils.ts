@@ -1,12 +1,85 @@
-import { Document, Packer, Paragraph, TextRun, AlignmentType } from "docx";
+import { Document, Packer, Paragraph, TextRun, AlignmentType, PageBreak, Table, TableRow, TableCell, WidthType } from "docx";
 import saveAs from "file-saver";
-import { TextDirection } from "../types";
+import { PDFDocument, TextRenderingMode, setTextRenderingMode, setCharacterSqueeze, pushGraphicsState, popGraphicsState } from "pdf-lib";
+import fontkit from "@pdf-lib/fontkit";
+import { BoundingBox, OCRBlock, OCRTable, TextDirection } from "../types";
+import { isPageSeparator } from "./pdfUtils";
+import { loadImage } from "./imageUtils";
+import { flattenLines } from "./lineMapping";
+// Vazirmatn covers Persian, Arabic and Latin, so one font serves the text layer.
+// It is bundled with the app so export works offline.
+import VAZIRMATN_TTF_URL from "vazirmatn/fonts/ttf/Vazirmatn-Regular.ttf?url";
+
+/**
+ * Native Word tables; `visuallyRightToLeft` puts the first column on the right for RTL.
+ */
+const buildWordTables = (tables: OCRTable[], direction: TextDirection) => {
+  const isRtl = direction === TextDirection.RTL;
+  return tables.flatMap(table => [
+    new Table({
+      visuallyRightToLeft: isRtl,
+      width: { size: 100, type: WidthType.PERCENTAGE },
+      rows: table.rows.map((row, rowIndex) => {
+        const isHeader = table.hasHeader && rowIndex === 0;
+        return new TableRow({
+          tableHeader: isHeader,
+          children: row.map(cell => new TableCell({
+            children: [
+              new Paragraph({
+                alignment: isRtl ? AlignmentType.RIGHT : AlignmentType.LEFT,
+                bidirectional: isRtl,
+                children: [
+                  new TextRun({
+                    text: cell,
+                    font: "Vazirmatn",
+                    size: 22, // 11pt
+                    bold: isHeader,
+                    rightToLeft: isRtl,
+                  }),
+                ],
+              }),
+            ],
+          })),
+        });
+      }),
+    }),
+    // Empty paragraph so consecutive tables don't merge
+    new Paragraph({ spacing: { after: 200 } }),
+  ]);
+};
+
+export const exportToWord = async (text: string, direction: TextDirection, tables: OCRTable[] = []) => {
+  if (tables.length > 0) {
+    const doc = new Document({
+      sections: [
+        {
+          properties: {},
+          children: buildWordTables(tables, direction),
+        },
+      ],
+    });
+    saveAs(await Packer.toBlob(doc), "extracted-text.docx");
+    return;
+  }
 
-export const exportToWord = async (text: string, direction: TextDirection) => {
   const lines = text.split('\n');
 
   // Create paragraphs from lines
-  const paragraphs = lines.map(line => {
+  const paragraphs = lines.map((line, index) => {
+    // Page separators from multi-page PDFs become real page breaks
+    if (isPageSeparator(line)) {
+      return new Paragraph({
+        alignment: AlignmentType.CENTER,
+        children: [
+          ...(index > 0 ? [new PageBreak()] : []),
+          new TextRun({ text: line.trim(), size: 18, color: "888888" }),
+        ],
+        spacing: {
+          after: 200,
+        }
+      });
+    }
+
     return new Paragraph({
       alignment: direction === TextDirection.RTL ? AlignmentType.RIGHT : AlignmentType.LEFT,
       bidirectional: direction === TextDirection.RTL,
@@ -35,4 +108,110 @@ export const exportToWord = async (text: string, direction: TextDirection) => {
 
   const blob = await Packer.toBlob(doc);
   saveAs(blob, "extracted-text.docx");
-};
\ No newline at end of file
+};
+
+let fontBytesCache: ArrayBuffer | null = null;
+
+const loadFontBytes = async () => {
+  if (!fontBytesCache) {
+    const response = await fetch(VAZIRMATN_TTF_URL);
+    if (!response.ok) throw new Error(`Could not load font (${response.status})`);
+    fontBytesCache = await response.arrayBuffer();
+  }
+  return fontBytesCache;
+};
+
+const RTL_CHAR = /[\u0590-\u08FF\uFB1D-\uFDFF\uFE70-\uFEFF]/;
+const BIDI_RUNS = /[\u0590-\u08FF\uFB1D-\uFDFF\uFE70-\uFEFF\u200C]+|[^\u0590-\u08FF\uFB1D-\uFDFF\uFE70-\uFEFF\u200C]+/g;
+
+/**
+ * PDF text is drawn left to right, so RTL lines are converted to visual order
+ * (runs reversed, RTL runs mirrored). Viewers undo this when copying/searching.
+ */
+const toVisualOrder = (line: string) =>
+  (line.match(BIDI_RUNS) || [])
+    .reverse()
+    .map(run => RTL_CHAR.test(run) ? Array.from(run).reverse().join('') : run)
+    .join('');
+
+const embedImage = async (pdfDoc: PDFDocument, src: string) => {
+  if (src.startsWith('data:image/png')) {
+    return pdfDoc.embedPng(src);
+  }
+  if (src.startsWith('data:image/jpeg') || src.startsWith('data:image/jpg')) {
+    return pdfDoc.embedJpg(src);
+  }
+  // pdf-lib only understands PNG and JPEG; re-encode anything else
+  const img = await loadImage(src);
+  const canvas = document.createElement('canvas');
+  canvas.width = img.naturalWidth;
+  canvas.height = img.naturalHeight;
+  canvas.getContext('2d')?.drawImage(img, 0, 0);
+  return pdfDoc.embedPng(canvas.toDataURL('image/png'));
+};
+
+// Boxes for `count` lines spread evenly down the page, for text without geometry
+const spreadBoxes = (count: number): BoundingBox[] => {
+  const lineHeight = Math.min(0.05, 0.9 / Math.max(count, 1));
+  return Array.from({ length: count }, (_, i) => ({ x: 0.05, y: 0.05 + i * lineHeight, width: 0.9, height: lineHeight }));
+};
+
+export interface PdfExportPage {
+  image: string;
+  text: string;
+  blocks?: OCRBlock[];
+}
+
+/**
+ * Builds a searchable PDF: each page shows the original image with the text
+ * laid under it as an invisible, selectable layer.
+ * Lines are placed on their OCR boxes when geometry is available; lines
+ * without one (no geometry, or added while editing) are spread evenly down the page.
+ */
+export const exportToSearchablePdf = async (pages: PdfExportPage[], direction: TextDirection) => {
+  const pdfDoc = await PDFDocument.create();
+  pdfDoc.registerFontkit(fontkit);
+  const font = await pdfDoc.embedFont(await loadFontBytes(), { subset: true });
+
+  for (const { image, text, blocks } of pages) {
+    const embedded = await embedImage(pdfDoc, image);
+    // 96 DPI screen pixels to 72 DPI PDF points
+    const width = embedded.width * 0.75;
+    const height = embedded.height * 0.75;
+    const page = pdfDoc.addPage([width, height]);
+    page.drawImage(embedded, { x: 0, y: 0, width, height });
+
+    const textLines = text.split('\n').filter(line => line.trim());
+    const ocrLines = blocks ? flattenLines(blocks) : [];
+    // Lines added while editing have no OCR box; they still go into the text layer
+    const boxes = [
+      ...ocrLines.map(line => line.box),
+      ...spreadBoxes(Math.max(0, textLines.length - ocrLines.length)),
+    ];
+
+    page.pushOperators(pushGraphicsState(), setTextRenderingMode(TextRenderingMode.Invisible));
+    boxes.forEach((box, i) => {
+      // Prefer the edited text; fall back to what the model returned
+      const line = (textLines[i] ?? ocrLines[i]?.text ?? '').trim();
+      if (!line) return;
+
+      const drawn = direction === TextDirection.RTL || RTL_CHAR.test(line) ? toVisualOrder(line) : line;
+      const size = Math.max(1, box.height * height * 0.8);
+      const naturalWidth = font.widthOfTextAtSize(drawn, size);
+      const squeeze = naturalWidth > 0 ? (box.width * width / naturalWidth) * 100 : 100;
+
+      page.pushOperators(pushGraphicsState(), setCharacterSqueeze(squeeze));
+      page.drawText(drawn, {
+        x: box.x * width,
+        y: height - (box.y + box.height) * height + box.height * height * 0.2,
+        size,
+        font,
+      });
+      page.pushOperators(popGraphicsState());
+    });
+    page.pushOperators(popGraphicsState());
+  }
+
+  const bytes = await pdfDoc.save();
+  saveAs(new Blob([bytes], { type: 'application/pdf' }), "extracted-text.pdf");
+};
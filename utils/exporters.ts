@@ -0,0 +1,251 @@
+import saveAs from "file-saver";
+import * as XLSX from "xlsx";
+import { ExtractionMeta, OCRBlock, OCRTable, TextDirection } from "../types";
+import { exportToWord, exportToSearchablePdf, PdfExportPage } from "./exportUtils";
+import { isPageSeparator, splitPageTexts } from "./pdfUtils";
+import { readFileAsDataUrl } from "./fileUtils";
+import VAZIRMATN_WOFF2_URL from "vazirmatn/fonts/webfonts/Vazirmatn-Regular.woff2?url";
+
+export type ExporterId = 'docx' | 'pdf' | 'md' | 'html' | 'txt' | 'txt-bom' | 'json' | 'csv' | 'xlsx';
+
+export interface ExportContext {
+  text: string;
+  direction: TextDirection;
+  imageSrc?: string | null;
+  pages: string[];
+  blocks: OCRBlock[];
+  tables: OCRTable[];
+  meta?: ExtractionMeta;
+}
+
+export interface Exporter {
+  id: ExporterId;
+  label: string;
+  requiresImage: boolean;
+  requiresTables?: boolean;
+  export: (context: ExportContext) => Promise<void>;
+}
+
+const FILE_NAME = "extracted-text";
+
+const saveText = (content: string, extension: string, mimeType: string) => {
+  saveAs(new Blob([content], { type: `${mimeType};charset=utf-8` }), `${FILE_NAME}.${extension}`);
+};
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/**
+ * Splits text into paragraphs (blank-line separated), keeping page
+ * separators as their own entries.
+ */
+const toParagraphs = (text: string): string[][] => {
+  const paragraphs: string[][] = [];
+  let current: string[] = [];
+  const flush = () => {
+    if (current.length > 0) paragraphs.push(current);
+    current = [];
+  };
+  for (const line of text.split('\n')) {
+    if (isPageSeparator(line)) {
+      flush();
+      paragraphs.push([line.trim()]);
+    } else if (!line.trim()) {
+      flush();
+    } else {
+      current.push(line);
+    }
+  }
+  flush();
+  return paragraphs;
+};
+
+const buildMarkdown = ({ text, direction }: ExportContext): string => {
+  const body = toParagraphs(text)
+    .map(lines => isPageSeparator(lines[0])
+      ? `---\n\n### ${lines[0].replace(/-/g, '').trim()}`
+      // Two trailing spaces keep single line breaks inside a paragraph
+      : lines.join('  \n'))
+    .join('\n\n');
+
+  // Markdown has no direction syntax; an HTML wrapper is honored by most renderers
+  return direction === TextDirection.RTL
+    ? `<div dir="rtl">\n\n${body}\n\n</div>\n`
+    : `${body}\n`;
+};
+
+// Without the bundled font the file falls back to an installed Vazirmatn, then to system fonts
+const FONT_FACE_LOCAL = "@font-face { font-family: 'Vazirmatn'; src: local('Vazirmatn'); }";
+
+/**
+ * @font-face rule with Vazirmatn embedded as base64, so the exported file
+ * renders the same offline.
+ */
+const loadEmbeddedFontFace = async (): Promise<string> => {
+  try {
+    const response = await fetch(VAZIRMATN_WOFF2_URL);
+    if (!response.ok) throw new Error(`Could not load font (${response.status})`);
+    const font = new File([await response.blob()], 'Vazirmatn-Regular.woff2', { type: 'font/woff2' });
+    return `@font-face { font-family: 'Vazirmatn'; src: local('Vazirmatn'), url(${await readFileAsDataUrl(font)}) format('woff2'); }`;
+  } catch (err) {
+    console.error("Could not embed font in HTML export", err);
+    return FONT_FACE_LOCAL;
+  }
+};
+
+const buildHtml = ({ text, direction, meta }: ExportContext, fontFace: string): string => {
+  const body = toParagraphs(text)
+    .map(lines => isPageSeparator(lines[0])
+      ? `    <hr>\n    <h2 dir="ltr">${escapeHtml(lines[0].replace(/-/g, '').trim())}</h2>`
+      : `    <p dir="auto">${lines.map(escapeHtml).join('<br>\n')}</p>`)
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="${direction === TextDirection.RTL ? 'fa' : 'en'}" dir="${direction}">
+  <head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <meta name="generator" content="AxKhan Pro">${meta ? `\n    <meta name="ocr-model" content="${escapeHtml(meta.model)}">` : ''}
+    <title>${FILE_NAME}</title>
+    <style>
+      ${fontFace}
+      body { font-family: 'Vazirmatn', Tahoma, 'Segoe UI', Arial, sans-serif; line-height: 2; max-width: 48rem; margin: 2rem auto; padding: 0 1rem; color: #1e293b; }
+      hr { border: none; border-top: 1px dashed #cbd5e1; margin: 2rem 0 1rem; }
+      h2 { font-size: 0.8rem; color: #94a3b8; text-align: center; }
+    </style>
+  </head>
+  <body dir="${direction}">
+${body}
+  </body>
+</html>
+`;
+};
+
+const buildJson = ({ text, direction, pages, blocks, tables, meta }: ExportContext): string =>
+  JSON.stringify({
+    text,
+    ...(pages.length > 0 ? { pages: splitPageTexts(text) } : {}),
+    ...(blocks.length > 0 ? { blocks } : {}),
+    ...(tables.length > 0 ? { tables } : {}),
+    metadata: {
+      generator: 'AxKhan Pro',
+      direction,
+      characters: text.length,
+      exportedAt: new Date().toISOString(),
+      ...meta,
+    },
+  }, null, 2);
+
+const escapeCsvCell = (cell: string) =>
+  /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+
+/**
+ * Cells stay in reading order; CSV has no direction, so the first column is
+ * the first one read (the rightmost for RTL tables).
+ */
+const buildCsv = ({ tables }: ExportContext): string =>
+  tables
+    .map(table => table.rows.map(row => row.map(escapeCsvCell).join(',')).join('\r\n'))
+    .join('\r\n\r\n');
+
+const buildWorkbook = ({ tables, direction }: ExportContext) => {
+  const workbook = XLSX.utils.book_new();
+  tables.forEach((table, i) => {
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(table.rows), `Table ${i + 1}`);
+  });
+  // Right-to-left sheets show the first column on the right, like the source
+  if (direction === TextDirection.RTL) {
+    workbook.Workbook = { Views: [{ RTL: true }] };
+  }
+  return workbook;
+};
+
+const registry = new Map<ExporterId, Exporter>();
+
+export const registerExporter = (exporter: Exporter) => {
+  registry.set(exporter.id, exporter);
+};
+
+export const getExporter = (id: ExporterId): Exporter => {
+  const exporter = registry.get(id);
+  if (!exporter) {
+    throw new Error(`Unknown exporter: ${id}`);
+  }
+  return exporter;
+};
+
+export const listExporters = (): Exporter[] => Array.from(registry.values());
+
+const builtInExporters: Exporter[] = [
+  {
+    id: 'docx',
+    label: 'Word (.docx)',
+    requiresImage: false,
+    export: ({ text, direction, tables }) => exportToWord(text, direction, tables),
+  },
+  {
+    id: 'pdf',
+    label: 'PDF (searchable)',
+    requiresImage: true,
+    export: ({ text, direction, imageSrc, pages, blocks }) => {
+      // Multi-page sources get one PDF page per rendered page
+      const pageTexts = splitPageTexts(text);
+      const exportPages: PdfExportPage[] = pages.length > 0
+        ? pages.map((image, i) => ({ image, text: pageTexts[i] ?? '' }))
+        : [{ image: imageSrc!, text, blocks }];
+      return exportToSearchablePdf(exportPages, direction);
+    },
+  },
+  {
+    id: 'md',
+    label: 'Markdown (.md)',
+    requiresImage: false,
+    export: async (context) => saveText(buildMarkdown(context), 'md', 'text/markdown'),
+  },
+  {
+    id: 'html',
+    label: 'HTML (.html)',
+    requiresImage: false,
+    export: async (context) => saveText(buildHtml(context, await loadEmbeddedFontFace()), 'html', 'text/html'),
+  },
+  {
+    id: 'txt',
+    label: 'Text (.txt)',
+    requiresImage: false,
+    export: async ({ text }) => saveText(text, 'txt', 'text/plain'),
+  },
+  {
+    id: 'txt-bom',
+    label: 'Text (.txt, BOM for Notepad)',
+    requiresImage: false,
+    // Older Notepad versions need the BOM to detect UTF-8 and render Persian correctly
+    export: async ({ text }) => saveText('\uFEFF' + text.replace(/\r?\n/g, '\r\n'), 'txt', 'text/plain'),
+  },
+  {
+    id: 'json',
+    label: 'JSON (.json)',
+    requiresImage: false,
+    export: async (context) => saveText(buildJson(context), 'json', 'application/json'),
+  },
+  {
+    id: 'csv',
+    label: 'CSV (.csv)',
+    requiresImage: false,
+    requiresTables: true,
+    // BOM so Excel opens Persian/Arabic CSV as UTF-8
+    export: async (context) => saveText('\uFEFF' + buildCsv(context), 'csv', 'text/csv'),
+  },
+  {
+    id: 'xlsx',
+    label: 'Excel (.xlsx)',
+    requiresImage: false,
+    requiresTables: true,
+    export: async (context) => XLSX.writeFile(buildWorkbook(context), `${FILE_NAME}.xlsx`),
+  },
+];
+
+builtInExporters.forEach(registerExporter);
@@ -0,0 +1,248 @@
+import { PreprocessingSettings } from "../types";
+
+export const DEFAULT_PREPROCESSING_SETTINGS: PreprocessingSettings = {
+  autoRotate: true,
+  deskew: false,
+  grayscale: false,
+  autoContrast: false,
+  denoise: false,
+  binarize: false,
+};
+
+export interface PreprocessedImage {
+  dataUrl: string;
+  mimeType: string;
+}
+
+const MAX_SKEW_DEGREES = 10;
+
+/**
+ * Reads the EXIF orientation tag (1-8) from a JPEG data URL; 1 means upright.
+ */
+export const readExifOrientation = (dataUrl: string): number => {
+  if (!dataUrl.startsWith('data:image/jpeg')) return 1;
+  // EXIF lives in the first 64KB; a multiple of 4 keeps the base64 decodable
+  const bytes = atob(dataUrl.split(',')[1].slice(0, 87384));
+  const byte = (i: number) => bytes.charCodeAt(i);
+  if (byte(0) !== 0xFF || byte(1) !== 0xD8) return 1;
+
+  let offset = 2;
+  while (offset + 4 < bytes.length && byte(offset) === 0xFF) {
+    const marker = byte(offset + 1);
+    const size = (byte(offset + 2) << 8) | byte(offset + 3);
+    if (marker === 0xE1 && bytes.slice(offset + 4, offset + 8) === 'Exif') {
+      const tiff = offset + 10;
+      const little = bytes.slice(tiff, tiff + 2) === 'II';
+      const read16 = (i: number) => little ? byte(i) | (byte(i + 1) << 8) : (byte(i) << 8) | byte(i + 1);
+      const read32 = (i: number) => little
+        ? (read16(i) | (read16(i + 2) << 16)) >>> 0
+        : ((read16(i) << 16) | read16(i + 2)) >>> 0;
+      const ifd = tiff + read32(tiff + 4);
+      const count = read16(ifd);
+      for (let i = 0; i < count; i++) {
+        const entry = ifd + 2 + i * 12;
+        if (read16(entry) === 0x0112) return read16(entry + 8);
+      }
+      return 1;
+    }
+    offset += 2 + size;
+  }
+  return 1;
+};
+
+export const needsPreprocessing = (src: string, settings: PreprocessingSettings): boolean =>
+  settings.deskew || settings.grayscale || settings.autoContrast || settings.denoise || settings.binarize ||
+  (settings.autoRotate && readExifOrientation(src) > 1);
+
+const toLuminance = (data: Uint8ClampedArray): Uint8ClampedArray => {
+  const gray = new Uint8ClampedArray(data.length / 4);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return gray;
+};
+
+/**
+ * Stretches levels so the darkest 1% becomes black and the brightest 1% white.
+ * Returns the mapping so colour images can apply it to every channel.
+ */
+const buildLevelsMap = (gray: Uint8ClampedArray): Uint8ClampedArray | null => {
+  const histogram = new Array(256).fill(0);
+  gray.forEach(v => histogram[v]++);
+  const clip = gray.length * 0.01;
+  let low = 0, high = 255, seen = 0;
+  while (low < 255 && (seen += histogram[low]) <= clip) low++;
+  seen = 0;
+  while (high > 0 && (seen += histogram[high]) <= clip) high--;
+  if (high <= low) return null;
+
+  const map = new Uint8ClampedArray(256);
+  for (let v = 0; v < 256; v++) map[v] = ((v - low) * 255) / (high - low);
+  return map;
+};
+
+// 3x3 median removes salt-and-pepper noise while keeping glyph edges sharp
+const medianFilter = (gray: Uint8ClampedArray, width: number, height: number): Uint8ClampedArray => {
+  const out = new Uint8ClampedArray(gray);
+  const window = new Array<number>(9);
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      let n = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) window[n++] = gray[(y + dy) * width + x + dx];
+      }
+      window.sort((a, b) => a - b);
+      out[y * width + x] = window[4];
+    }
+  }
+  return out;
+};
+
+/**
+ * Bradley adaptive thresholding: each pixel is compared with the mean of its
+ * neighbourhood, so shadows and uneven lighting don't swallow the text.
+ */
+const adaptiveThreshold = (gray: Uint8ClampedArray, width: number, height: number, sensitivity = 0.15): Uint8ClampedArray => {
+  const integral = new Float64Array((width + 1) * (height + 1));
+  for (let y = 1; y <= height; y++) {
+    let rowSum = 0;
+    for (let x = 1; x <= width; x++) {
+      rowSum += gray[(y - 1) * width + (x - 1)];
+      integral[y * (width + 1) + x] = integral[(y - 1) * (width + 1) + x] + rowSum;
+    }
+  }
+
+  const half = Math.max(4, Math.round(Math.max(width, height) / 32));
+  const out = new Uint8ClampedArray(gray.length);
+  for (let y = 0; y < height; y++) {
+    const y1 = Math.max(0, y - half), y2 = Math.min(height, y + half + 1);
+    for (let x = 0; x < width; x++) {
+      const x1 = Math.max(0, x - half), x2 = Math.min(width, x + half + 1);
+      const sum = integral[y2 * (width + 1) + x2] - integral[y1 * (width + 1) + x2]
+        - integral[y2 * (width + 1) + x1] + integral[y1 * (width + 1) + x1];
+      const count = (x2 - x1) * (y2 - y1);
+      out[y * width + x] = gray[y * width + x] * count <= sum * (1 - sensitivity) ? 0 : 255;
+    }
+  }
+  return out;
+};
+
+/**
+ * Estimates text skew in degrees with a projection profile: the angle at which
+ * dark pixels pile up into the sharpest rows wins.
+ */
+const estimateSkew = (gray: Uint8ClampedArray, width: number, height: number): number => {
+  const mean = gray.reduce((sum, v) => sum + v, 0) / gray.length;
+  const points: [number, number][] = [];
+  // Sample at most ~20k ink pixels to keep this fast on large photos
+  const step = Math.max(1, Math.floor(Math.sqrt((width * height) / 80000)));
+  for (let y = 0; y < height; y += step) {
+    for (let x = 0; x < width; x += step) {
+      if (gray[y * width + x] < mean * 0.7) points.push([x, y]);
+    }
+  }
+  if (points.length < 50) return 0;
+
+  const score = (degrees: number) => {
+    const radians = (degrees * Math.PI) / 180;
+    const sin = Math.sin(radians), cos = Math.cos(radians);
+    const bins = new Map<number, number>();
+    for (const [x, y] of points) {
+      const row = Math.round((y * cos - x * sin) / step);
+      bins.set(row, (bins.get(row) || 0) + 1);
+    }
+    let total = 0;
+    bins.forEach(count => { total += count * count; });
+    return total;
+  };
+
+  const search = (from: number, to: number, increment: number) => {
+    let best = 0, bestScore = -1;
+    for (let angle = from; angle <= to + 1e-9; angle += increment) {
+      const s = score(angle);
+      if (s > bestScore) { bestScore = s; best = angle; }
+    }
+    return best;
+  };
+
+  const coarse = search(-MAX_SKEW_DEGREES, MAX_SKEW_DEGREES, 0.5);
+  return search(coarse - 0.5, coarse + 0.5, 0.1);
+};
+
+const decodeImage = async (src: string, autoRotate: boolean): Promise<ImageBitmap> => {
+  const blob = await (await fetch(src)).blob();
+  return createImageBitmap(blob, { imageOrientation: autoRotate ? 'from-image' : 'none' });
+};
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("Canvas is not supported in this browser");
+  return { canvas, ctx };
+};
+
+/**
+ * Runs the enabled steps in order: orientation, deskew, grayscale,
+ * contrast, denoise, binarization. `maxSize` downscales first (for previews).
+ */
+export const preprocessImage = async (src: string, settings: PreprocessingSettings, maxSize?: number, signal?: AbortSignal): Promise<PreprocessedImage> => {
+  const bitmap = await decodeImage(src, settings.autoRotate);
+  if (signal?.aborted) {
+    bitmap.close();
+    signal.throwIfAborted();
+  }
+  const ratio = maxSize ? Math.min(1, maxSize / Math.max(bitmap.width, bitmap.height)) : 1;
+  const width = Math.max(1, Math.round(bitmap.width * ratio));
+  const height = Math.max(1, Math.round(bitmap.height * ratio));
+
+  // Transparent PNGs would otherwise read as black paper in the luminance steps
+  let { canvas, ctx } = createCanvas(width, height);
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, width, height);
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+
+  if (settings.deskew) {
+    const angle = estimateSkew(toLuminance(ctx.getImageData(0, 0, width, height).data), width, height);
+    if (Math.abs(angle) >= 0.1) {
+      const rotated = createCanvas(width, height);
+      rotated.ctx.fillStyle = '#ffffff';
+      rotated.ctx.fillRect(0, 0, width, height);
+      rotated.ctx.translate(width / 2, height / 2);
+      rotated.ctx.rotate((-angle * Math.PI) / 180);
+      rotated.ctx.drawImage(canvas, -width / 2, -height / 2);
+      ({ canvas, ctx } = rotated);
+    }
+  }
+
+  const toGray = settings.grayscale || settings.denoise || settings.binarize;
+  if (toGray || settings.autoContrast) {
+    const imageData = ctx.getImageData(0, 0, width, height);
+    const { data } = imageData;
+    let gray = toLuminance(data);
+    const levels = settings.autoContrast ? buildLevelsMap(gray) : null;
+
+    if (toGray) {
+      if (levels) gray = gray.map(v => levels[v]);
+      if (settings.denoise) gray = medianFilter(gray, width, height);
+      if (settings.binarize) gray = adaptiveThreshold(gray, width, height);
+      for (let i = 0; i < gray.length; i++) {
+        data[i * 4] = data[i * 4 + 1] = data[i * 4 + 2] = gray[i];
+      }
+    } else if (levels) {
+      // Same mapping on every channel keeps the colours' hue
+      for (let i = 0; i < data.length; i += 4) {
+        data[i] = levels[data[i]];
+        data[i + 1] = levels[data[i + 1]];
+        data[i + 2] = levels[data[i + 2]];
+      }
+    }
+    ctx.putImageData(imageData, 0, 0);
+  }
+
+  // Black-and-white output compresses far better as PNG; photos stay JPEG
+  const mimeType = settings.binarize ? 'image/png' : 'image/jpeg';
+  return { dataUrl: canvas.toDataURL(mimeType, 0.92), mimeType };
+};
@@ -0,0 +1,34 @@
+/**
+ * Loads a data URL into an HTMLImageElement.
+ */
+export const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Could not load image"));
+    img.src = src;
+  });
+};
+
+export const getImageSize = async (src: string) => {
+  const img = await loadImage(src);
+  return { width: img.naturalWidth, height: img.naturalHeight };
+};
+
+/**
+ * Downscales an image to a small JPEG data URL for lists and previews.
+ */
+export const createThumbnail = async (src: string, maxSize = 160, quality = 0.7): Promise<string> => {
+  const img = await loadImage(src);
+  const ratio = Math.min(1, maxSize / Math.max(img.naturalWidth, img.naturalHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(img.naturalWidth * ratio));
+  canvas.height = Math.max(1, Math.round(img.naturalHeight * ratio));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas is not supported in this browser");
+  // JPEG has no alpha; paint white so transparent scans don't turn black
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', quality);
+};
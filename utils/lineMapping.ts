@@ -0,0 +1,44 @@
+import { OCRBlock, OCRLine } from "../types";
+
+/**
+ * Helpers linking editor text to OCR line geometry.
+ * The n-th non-empty line of the text maps to the n-th OCR line, so blank
+ * lines between blocks (and ones the user adds) don't shift the mapping.
+ */
+
+export const flattenLines = (blocks: OCRBlock[]): OCRLine[] =>
+  blocks.flatMap(block => block.lines);
+
+/**
+ * Returns the index of the non-empty line containing `offset`, or -1 when
+ * the caret sits on an empty line.
+ */
+export const getLineIndexAtOffset = (text: string, offset: number): number => {
+  let index = -1;
+  let lineStart = 0;
+  for (const line of text.split('\n')) {
+    const lineEnd = lineStart + line.length;
+    if (line.trim()) index++;
+    if (offset <= lineEnd) return line.trim() ? index : -1;
+    lineStart = lineEnd + 1;
+  }
+  return -1;
+};
+
+/**
+ * Character range and visual line number of the n-th non-empty line.
+ */
+export const getLineRange = (text: string, index: number) => {
+  let current = -1;
+  let lineStart = 0;
+  const lines = text.split('\n');
+  for (let lineNumber = 0; lineNumber < lines.length; lineNumber++) {
+    const line = lines[lineNumber];
+    if (line.trim()) current++;
+    if (current === index && line.trim()) {
+      return { start: lineStart, end: lineStart + line.length, lineNumber, totalLines: lines.length };
+    }
+    lineStart += line.length + 1;
+  }
+  return null;
+};
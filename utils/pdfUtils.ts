@@ -0,0 +1,85 @@
+import * as pdfjsLib from "pdfjs-dist";
+
+pdfjsLib.GlobalWorkerOptions.workerSrc = new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url).toString();
+
+export const PDF_MIME_TYPE = 'application/pdf';
+
+// Marker placed between pages in merged text. Kept language-neutral so it
+// survives editing and can be turned back into a page break on export.
+const PAGE_SEPARATOR_REGEX = /^--- Page (\d+) ---$/;
+
+export const formatPageSeparator = (pageNumber: number) => `--- Page ${pageNumber} ---`;
+
+export const isPageSeparator = (line: string) => PAGE_SEPARATOR_REGEX.test(line.trim());
+
+export const isPdfFile = (file: File) =>
+  file.type === PDF_MIME_TYPE || file.name.toLowerCase().endsWith('.pdf');
+
+/**
+ * Joins per-page OCR results into a single text with page separators.
+ */
+export const mergePageTexts = (pageTexts: string[]): string => {
+  if (pageTexts.length === 1) return pageTexts[0];
+  return pageTexts
+    .map((text, i) => `${formatPageSeparator(i + 1)}\n${text.trim()}`)
+    .join('\n\n');
+};
+
+/**
+ * Inverse of mergePageTexts: splits merged text back into per-page texts.
+ * Text before the first separator is attached to the first page.
+ */
+export const splitPageTexts = (text: string): string[] => {
+  const pageTexts: string[] = [];
+  let current: string[] = [];
+  for (const line of text.split('\n')) {
+    if (isPageSeparator(line)) {
+      if (current.length > 0 || pageTexts.length > 0) pageTexts.push(current.join('\n').trim());
+      current = [];
+    } else {
+      current.push(line);
+    }
+  }
+  pageTexts.push(current.join('\n').trim());
+  return pageTexts;
+};
+
+/**
+ * Rasterizes every page of a PDF into a PNG data URL, entirely in the browser.
+ * `onPage` is called after each page so callers can report progress; an
+ * aborted `signal` stops before the next page.
+ */
+export const renderPdfPages = async (
+  file: File,
+  onPage?: (pageNumber: number, totalPages: number) => void,
+  signal?: AbortSignal,
+  scale = 2
+): Promise<string[]> => {
+  const data = new Uint8Array(await file.arrayBuffer());
+  const pdf = await pdfjsLib.getDocument({ data }).promise;
+  const pages: string[] = [];
+
+  try {
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      signal?.throwIfAborted();
+      const page = await pdf.getPage(pageNumber);
+      const viewport = page.getViewport({ scale });
+
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.floor(viewport.width);
+      canvas.height = Math.floor(viewport.height);
+      const ctx = canvas.getContext('2d');
+      if (!ctx) throw new Error("Canvas is not supported in this browser");
+
+      await page.render({ canvasContext: ctx, viewport }).promise;
+      pages.push(canvas.toDataURL('image/png'));
+      page.cleanup();
+
+      onPage?.(pageNumber, pdf.numPages);
+    }
+  } finally {
+    await pdf.destroy();
+  }
+
+  return pages;
+};
@@ -0,0 +1,156 @@
+import { describe, it, expect } from 'vitest';
+import { normalizePersianText, DEFAULT_NORMALIZER_SETTINGS } from './persianNormalizer';
+import { NormalizerSettings } from '../types';
+
+const ZWNJ = '\u200c';
+
+const ALL_OFF: NormalizerSettings = {
+  removeKashida: false,
+  arabicLetters: false,
+  collapseWhitespace: false,
+  zwnj: false,
+  punctuationSpacing: false,
+  persianDigits: false,
+};
+
+const ALL_ON: NormalizerSettings = { ...DEFAULT_NORMALIZER_SETTINGS, persianDigits: true };
+
+// Runs a single rule on its own
+const only = (rule: keyof NormalizerSettings) => (text: string) =>
+  normalizePersianText(text, { ...ALL_OFF, [rule]: true });
+
+describe('arabicLetters', () => {
+  const normalize = only('arabicLetters');
+
+  it('folds Arabic yeh, alef maksura and kaf into Persian forms', () => {
+    expect(normalize('علي كتاب مى')).toBe('علی کتاب می');
+  });
+
+  it('leaves Persian letters alone', () => {
+    expect(normalize('یک کتاب')).toBe('یک کتاب');
+  });
+});
+
+describe('zwnj', () => {
+  const normalize = only('zwnj');
+
+  it('joins می and نمی to the verb', () => {
+    expect(normalize('می روم')).toBe(`می${ZWNJ}روم`);
+    expect(normalize('نمی دانم')).toBe(`نمی${ZWNJ}دانم`);
+  });
+
+  it('only treats می as a prefix at the start of a word', () => {
+    expect(normalize('سمی است')).toBe('سمی است');
+  });
+
+  it('joins plural and comparative suffixes', () => {
+    expect(normalize('کتاب ها')).toBe(`کتاب${ZWNJ}ها`);
+    expect(normalize('کتاب های')).toBe(`کتاب${ZWNJ}های`);
+    expect(normalize('بزرگ تر')).toBe(`بزرگ${ZWNJ}تر`);
+    expect(normalize('بزرگ ترین')).toBe(`بزرگ${ZWNJ}ترین`);
+  });
+
+  it('does not join a suffix that starts a longer word', () => {
+    expect(normalize('کتاب هاتف')).toBe('کتاب هاتف');
+    expect(normalize('این ترس')).toBe('این ترس');
+  });
+
+  it('joins endings written after a final heh', () => {
+    expect(normalize('خانه ای')).toBe(`خانه${ZWNJ}ای`);
+    expect(normalize('رفته اند')).toBe(`رفته${ZWNJ}اند`);
+    expect(normalize('نامه ام')).toBe(`نامه${ZWNJ}ام`);
+  });
+
+  it('removes repeated and stray half-spaces', () => {
+    expect(normalize(`می${ZWNJ}${ZWNJ}روم`)).toBe(`می${ZWNJ}روم`);
+    expect(normalize(`کتاب${ZWNJ} خوب`)).toBe('کتاب خوب');
+  });
+});
+
+describe('punctuationSpacing', () => {
+  const normalize = only('punctuationSpacing');
+
+  it('removes the space before punctuation and adds one after it', () => {
+    expect(normalize('سلام ، خوبی ؟')).toBe('سلام، خوبی؟');
+    expect(normalize('سلام،خوبی')).toBe('سلام، خوبی');
+  });
+
+  it('tightens spaces inside quotes and brackets', () => {
+    expect(normalize('« سلام »')).toBe('«سلام»');
+    expect(normalize('( متن )')).toBe('(متن)');
+  });
+
+  it('keeps decimals, times and URLs intact', () => {
+    expect(normalize('3.14 و 12:30 و example.com')).toBe('3.14 و 12:30 و example.com');
+  });
+});
+
+describe('removeKashida', () => {
+  const normalize = only('removeKashida');
+
+  it('removes tatweel', () => {
+    expect(normalize('ســـلام')).toBe('سلام');
+  });
+});
+
+describe('collapseWhitespace', () => {
+  const normalize = only('collapseWhitespace');
+
+  it('collapses runs of spaces and trims each line', () => {
+    expect(normalize('  سلام    دنیا  \n  خط دوم ')).toBe('سلام دنیا\nخط دوم');
+  });
+
+  it('keeps tabs between table cells and the line count', () => {
+    expect(normalize('الف\tب\n\nج')).toBe('الف\tب\n\nج');
+  });
+
+  it('keeps the tabs of empty first and last cells', () => {
+    expect(normalize('\tب\t')).toBe('\tب\t');
+    expect(normalize('  \tب')).toBe('\tب');
+  });
+});
+
+describe('persianDigits', () => {
+  const normalize = only('persianDigits');
+
+  it('converts Latin and Arabic-Indic digits in Persian lines', () => {
+    expect(normalize('صفحه 123')).toBe('صفحه ۱۲۳');
+    expect(normalize('صفحه ٤٥')).toBe('صفحه ۴۵');
+  });
+
+  it('leaves lines without Persian text and Latin words alone', () => {
+    expect(normalize('--- Page 2 ---')).toBe('--- Page 2 ---');
+    expect(normalize('فایل mp3')).toBe('فایل mp3');
+  });
+});
+
+describe('normalizePersianText', () => {
+  it('runs every default rule', () => {
+    expect(normalizePersianText('علي  مـی رود ، كتاب ها', DEFAULT_NORMALIZER_SETTINGS))
+      .toBe(`علی می${ZWNJ}رود، کتاب${ZWNJ}ها`);
+  });
+
+  it('does not convert digits by default', () => {
+    expect(normalizePersianText('صفحه 12', DEFAULT_NORMALIZER_SETTINGS)).toBe('صفحه 12');
+  });
+
+  it('returns the text unchanged with every rule off', () => {
+    const text = 'علي  مـی رود ، كتاب ها 12';
+    expect(normalizePersianText(text, ALL_OFF)).toBe(text);
+  });
+
+  it.each(Object.keys(DEFAULT_NORMALIZER_SETTINGS) as (keyof NormalizerSettings)[])(
+    'skips %s when only that rule is turned off',
+    rule => {
+      const samples: Record<keyof NormalizerSettings, string> = {
+        removeKashida: 'ســلام',
+        arabicLetters: 'علي',
+        collapseWhitespace: 'سلام  دنیا',
+        zwnj: 'می روم',
+        punctuationSpacing: 'سلام ،',
+        persianDigits: 'صفحه 12',
+      };
+      expect(normalizePersianText(samples[rule], { ...ALL_ON, [rule]: false })).toBe(samples[rule]);
+    }
+  );
+});
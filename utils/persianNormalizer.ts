@@ -0,0 +1,86 @@
+import { NormalizerSettings } from "../types";
+
+export const DEFAULT_NORMALIZER_SETTINGS: NormalizerSettings = {
+  removeKashida: true,
+  arabicLetters: true,
+  collapseWhitespace: true,
+  zwnj: true,
+  punctuationSpacing: true,
+  persianDigits: false,
+};
+
+const ZWNJ = '\u200c';
+// Persian and Arabic letters, without tatweel, digits or punctuation
+const LETTER = 'ء-غف-يپچژکگی';
+const HAS_LETTER = new RegExp(`[${LETTER}]`);
+
+const SUFFIXES = ['ها', 'های', 'هایی', 'هایم', 'هایت', 'هایش', 'هایمان', 'هایتان', 'هایشان', 'تر', 'تری', 'ترین'];
+// Pronoun and verb endings written after a final ه, as in «خانه ای» or «رفته اند»
+const HEH_ENDINGS = ['ای', 'ایی', 'ام', 'ات', 'اش', 'ایم', 'اید', 'اند'];
+const alternatives = (words: string[]) => [...words].sort((a, b) => b.length - a.length).join('|');
+
+const PREFIX_PATTERN = new RegExp(`(^|[^${LETTER}])(ن?می) +(?=[${LETTER}])`, 'g');
+const SUFFIX_PATTERN = new RegExp(`([${LETTER}]) +(${alternatives(SUFFIXES)})(?![${LETTER}])`, 'g');
+const HEH_PATTERN = new RegExp(`(ه) +(${alternatives(HEH_ENDINGS)})(?![${LETTER}])`, 'g');
+
+const PERSIAN_DIGITS = '۰۱۲۳۴۵۶۷۸۹';
+
+/**
+ * Rules run in this order on every line; each is skipped when its setting is off.
+ * Lines are never joined or split, so the text keeps its line-to-box mapping.
+ */
+const RULES: { key: keyof NormalizerSettings; apply: (line: string) => string }[] = [
+  {
+    key: 'removeKashida',
+    apply: line => line.replace(/\u0640/g, ''),
+  },
+  {
+    key: 'arabicLetters',
+    apply: line => line.replace(/[يى]/g, 'ی').replace(/ك/g, 'ک'),
+  },
+  {
+    // Tabs separate table cells and are kept, even at the ends of a line
+    key: 'collapseWhitespace',
+    apply: line => line.replace(/\u200b/g, '').replace(/[ \u00a0]+/g, ' ').replace(/^[ \u00a0]+|[ \u00a0]+$/g, ''),
+  },
+  {
+    key: 'zwnj',
+    apply: line => line
+      .replace(/\u200c{2,}/g, ZWNJ)
+      .replace(/\u200c(?=\s|$)|(^|\s)\u200c/g, '$1') // Stray half-spaces next to spaces
+      .replace(PREFIX_PATTERN, `$1$2${ZWNJ}`)
+      .replace(SUFFIX_PATTERN, `$1${ZWNJ}$2`)
+      .replace(HEH_PATTERN, `$1${ZWNJ}$2`),
+  },
+  {
+    // Spaces are only added before letters, so decimals, times and URLs stay intact
+    key: 'punctuationSpacing',
+    apply: line => line
+      .replace(/ +([.,;:!?،؛؟»)\]])/g, '$1')
+      .replace(new RegExp(`([.,;:!?،؛؟»)\\]])(?=[${LETTER}«(])`, 'g'), '$1 ')
+      .replace(/([«(\[]) +/g, '$1'),
+  },
+  {
+    // Only in lines with Persian text, and not inside Latin words like mp3
+    key: 'persianDigits',
+    apply: line => HAS_LETTER.test(line)
+      ? line.replace(/(?<![A-Za-z])[0-9٠-٩]+(?![A-Za-z])/g, digits =>
+          digits.replace(/[0-9٠-٩]/g, digit => PERSIAN_DIGITS[digit.charCodeAt(0) % 16]))
+      : line,
+  },
+];
+
+/**
+ * Deterministic clean-up of Persian OCR output: Arabic letter forms,
+ * ZWNJ for affixes written with a space, punctuation spacing, kashida and
+ * repeated whitespace, and optionally Persian digits.
+ */
+export const normalizePersianText = (text: string, settings: NormalizerSettings): string => {
+  const rules = RULES.filter(rule => settings[rule.key]);
+  if (rules.length === 0) return text;
+  return text
+    .split('\n')
+    .map(line => rules.reduce((current, rule) => rule.apply(current), line))
+    .join('\n');
+};
+
@@ -0,0 +1,198 @@
+import { Point } from "../types";
+import { loadImage } from "./imageUtils";
+
+// Corner order used throughout: top-left, top-right, bottom-right, bottom-left
+export const FULL_IMAGE_CORNERS: Point[] = [
+  { x: 0, y: 0 },
+  { x: 1, y: 0 },
+  { x: 1, y: 1 },
+  { x: 0, y: 1 },
+];
+
+const DETECT_SIZE = 400;
+const MAX_OUTPUT_SIZE = 3000;
+// A detected page smaller than this share of the photo is probably not the page
+const MIN_PAGE_AREA = 0.2;
+
+const drawToCanvas = (img: HTMLImageElement, width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("Canvas is not supported in this browser");
+  ctx.drawImage(img, 0, 0, width, height);
+  return { canvas, ctx };
+};
+
+// Otsu's method: the threshold that best separates page from background
+const otsuThreshold = (gray: Uint8ClampedArray): number => {
+  const histogram = new Array(256).fill(0);
+  gray.forEach(v => histogram[v]++);
+  const total = gray.length;
+  const sumAll = histogram.reduce((sum, count, v) => sum + count * v, 0);
+
+  let sumBackground = 0, weightBackground = 0, best = 0, bestVariance = 0;
+  for (let t = 0; t < 256; t++) {
+    weightBackground += histogram[t];
+    if (weightBackground === 0) continue;
+    const weightForeground = total - weightBackground;
+    if (weightForeground === 0) break;
+    sumBackground += t * histogram[t];
+    const meanBackground = sumBackground / weightBackground;
+    const meanForeground = (sumAll - sumBackground) / weightForeground;
+    const variance = weightBackground * weightForeground * (meanBackground - meanForeground) ** 2;
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      best = t;
+    }
+  }
+  return best;
+};
+
+/**
+ * Finds the page as the largest bright region of the photo and returns its
+ * four extreme corners. Falls back to the whole image when nothing page-like
+ * is found.
+ */
+export const detectPageCorners = async (src: string): Promise<Point[]> => {
+  const img = await loadImage(src);
+  const ratio = Math.min(1, DETECT_SIZE / Math.max(img.naturalWidth, img.naturalHeight));
+  const width = Math.max(1, Math.round(img.naturalWidth * ratio));
+  const height = Math.max(1, Math.round(img.naturalHeight * ratio));
+  const { data } = drawToCanvas(img, width, height).ctx.getImageData(0, 0, width, height);
+
+  const gray = new Uint8ClampedArray(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  const threshold = otsuThreshold(gray);
+
+  // Flood-fill bright pixels, tracking each component's extreme points
+  const visited = new Uint8Array(width * height);
+  const stack: number[] = [];
+  let bestSize = 0;
+  let bestCorners = FULL_IMAGE_CORNERS;
+
+  for (let start = 0; start < gray.length; start++) {
+    if (visited[start] || gray[start] <= threshold) continue;
+    visited[start] = 1;
+    stack.push(start);
+    let size = 0;
+    const extremes = { minSum: Infinity, maxSum: -Infinity, minDiff: Infinity, maxDiff: -Infinity };
+    const corners: Point[] = [{ x: 0, y: 0 }, { x: 0, y: 0 }, { x: 0, y: 0 }, { x: 0, y: 0 }];
+
+    while (stack.length > 0) {
+      const index = stack.pop()!;
+      const x = index % width, y = (index - x) / width;
+      size++;
+      if (x + y < extremes.minSum) { extremes.minSum = x + y; corners[0] = { x, y }; }
+      if (x - y > extremes.maxDiff) { extremes.maxDiff = x - y; corners[1] = { x, y }; }
+      if (x + y > extremes.maxSum) { extremes.maxSum = x + y; corners[2] = { x, y }; }
+      if (x - y < extremes.minDiff) { extremes.minDiff = x - y; corners[3] = { x, y }; }
+
+      const neighbours = [x > 0 ? index - 1 : -1, x < width - 1 ? index + 1 : -1, index - width, index + width];
+      for (const next of neighbours) {
+        if (next >= 0 && next < gray.length && !visited[next] && gray[next] > threshold) {
+          visited[next] = 1;
+          stack.push(next);
+        }
+      }
+    }
+
+    if (size > bestSize) {
+      bestSize = size;
+      bestCorners = corners.map(p => ({ x: (p.x + 0.5) / width, y: (p.y + 0.5) / height }));
+    }
+  }
+
+  return bestSize >= gray.length * MIN_PAGE_AREA ? bestCorners : FULL_IMAGE_CORNERS;
+};
+
+/**
+ * Solves the 3x3 homography (h33 = 1) mapping each `from` point onto the
+ * matching `to` point, using Gaussian elimination on the 8x8 system.
+ */
+export const computeHomography = (from: Point[], to: Point[]): number[] => {
+  const matrix: number[][] = [];
+  for (let i = 0; i < 4; i++) {
+    const { x: u, y: v } = from[i];
+    const { x, y } = to[i];
+    matrix.push([u, v, 1, 0, 0, 0, -u * x, -v * x, x]);
+    matrix.push([0, 0, 0, u, v, 1, -u * y, -v * y, y]);
+  }
+
+  for (let col = 0; col < 8; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < 8; row++) {
+      if (Math.abs(matrix[row][col]) > Math.abs(matrix[pivot][col])) pivot = row;
+    }
+    if (Math.abs(matrix[pivot][col]) < 1e-12) throw new Error("The selected corners do not form a valid page");
+    [matrix[col], matrix[pivot]] = [matrix[pivot], matrix[col]];
+    for (let row = 0; row < 8; row++) {
+      if (row === col) continue;
+      const factor = matrix[row][col] / matrix[col][col];
+      for (let k = col; k < 9; k++) matrix[row][k] -= factor * matrix[col][k];
+    }
+  }
+  return matrix.map((row, i) => row[8] / row[i]);
+};
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+/**
+ * Warps the quadrilateral given by `corners` (normalized, TL/TR/BR/BL) into
+ * a flat rectangle and returns it as a JPEG data URL.
+ */
+export const warpPerspective = async (src: string, corners: Point[]): Promise<string> => {
+  const img = await loadImage(src);
+  const sourceWidth = img.naturalWidth, sourceHeight = img.naturalHeight;
+  const source = drawToCanvas(img, sourceWidth, sourceHeight).ctx.getImageData(0, 0, sourceWidth, sourceHeight).data;
+  const quad = corners.map(p => ({ x: p.x * sourceWidth, y: p.y * sourceHeight }));
+
+  // Output keeps the longer of each pair of opposite edges
+  let width = Math.max(distance(quad[0], quad[1]), distance(quad[3], quad[2]));
+  let height = Math.max(distance(quad[0], quad[3]), distance(quad[1], quad[2]));
+  const scale = Math.min(1, MAX_OUTPUT_SIZE / Math.max(width, height));
+  width = Math.max(1, Math.round(width * scale));
+  height = Math.max(1, Math.round(height * scale));
+
+  // Maps output pixels back to the source, so every output pixel gets a value
+  const rect = [{ x: 0, y: 0 }, { x: width, y: 0 }, { x: width, y: height }, { x: 0, y: height }];
+  const [a, b, c, d, e, f, g, h] = computeHomography(rect, quad);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas is not supported in this browser");
+  const output = ctx.createImageData(width, height);
+  const out = output.data;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const w = g * x + h * y + 1;
+      const sx = (a * x + b * y + c) / w;
+      const sy = (d * x + e * y + f) / w;
+      const o = (y * width + x) * 4;
+      out[o + 3] = 255;
+
+      const x0 = Math.floor(sx), y0 = Math.floor(sy);
+      if (x0 < 0 || y0 < 0 || x0 >= sourceWidth - 1 || y0 >= sourceHeight - 1) {
+        out[o] = out[o + 1] = out[o + 2] = 255;
+        continue;
+      }
+      // Bilinear sampling keeps thin strokes smooth
+      const fx = sx - x0, fy = sy - y0;
+      const i00 = (y0 * sourceWidth + x0) * 4, i10 = i00 + 4;
+      const i01 = i00 + sourceWidth * 4, i11 = i01 + 4;
+      for (let channel = 0; channel < 3; channel++) {
+        const top = source[i00 + channel] * (1 - fx) + source[i10 + channel] * fx;
+        const bottom = source[i01 + channel] * (1 - fx) + source[i11 + channel] * fx;
+        out[o + channel] = top * (1 - fy) + bottom * fy;
+      }
+    }
+  }
+
+  ctx.putImageData(output, 0, 0);
+  return canvas.toDataURL('image/jpeg', 0.92);
+};
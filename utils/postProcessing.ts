@@ -0,0 +1,158 @@
+import saveAs from "file-saver";
+import { BuiltInPostProcessorId, BuiltInPostProcessingStep, NormalizerSettings, OCRResult, PostProcessingStep, ReplaceRuleStep } from "../types";
+import { normalizePersianText } from "./persianNormalizer";
+import { escapeRegExp } from "./textSearch";
+
+type TextProcessor = (text: string) => string;
+
+const EXPORT_VERSION = 1;
+
+const builtInStep = (builtin: BuiltInPostProcessorId, enabled: boolean): BuiltInPostProcessingStep =>
+  ({ id: `builtin-${builtin}`, enabled, kind: 'builtin', builtin });
+
+export const DEFAULT_POST_PROCESSING_STEPS: PostProcessingStep[] = [
+  builtInStep('optionLetters', false),
+  builtInStep('normalize', true),
+  builtInStep('collapseBlankLines', false),
+];
+
+// Multiple-choice labels in order: «الف)» or «أ)» is option 1, «ب)» option 2 and so on
+const OPTION_NUMBERS: Record<string, number> = { 'الف': 1, 'أ': 1, 'ب': 2, 'ج': 3, 'د': 4, 'ه': 5, 'و': 6, 'ز': 7, 'ح': 8 };
+const OPTION_PATTERN = new RegExp(`(^|[\\s(])(${Object.keys(OPTION_NUMBERS).join('|')}) ?\\)`, 'gm');
+
+const BUILT_IN_PROCESSORS: Record<BuiltInPostProcessorId, (normalizer: NormalizerSettings) => TextProcessor> = {
+  normalize: normalizer => text => normalizePersianText(text, normalizer),
+  optionLetters: () => text => text.replace(OPTION_PATTERN, (_match, before, letter) => `${before}${OPTION_NUMBERS[letter]})`),
+  collapseBlankLines: () => text => text.replace(/\n[ \t]*\n(?:[ \t]*\n)+/g, '\n\n'),
+};
+
+export const createRuleStep = (): ReplaceRuleStep => ({
+  id: `rule-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  enabled: true,
+  kind: 'replace',
+  name: '',
+  find: '',
+  replace: '',
+  regex: false,
+  caseSensitive: false,
+});
+
+/**
+ * Builds the pattern of a find/replace rule. Throws a SyntaxError for an
+ * invalid regular expression.
+ */
+const compileRule = (step: ReplaceRuleStep) =>
+  new RegExp(step.regex ? step.find : escapeRegExp(step.find), step.caseSensitive ? 'gm' : 'gim');
+
+/**
+ * Message of the error in a rule's pattern, or null when it compiles.
+ */
+export const getRuleError = (step: PostProcessingStep): string | null => {
+  if (step.kind !== 'replace' || !step.regex) return null;
+  try {
+    compileRule(step);
+    return null;
+  } catch (err: any) {
+    return err.message;
+  }
+};
+
+const toProcessor = (step: PostProcessingStep, normalizer: NormalizerSettings): TextProcessor | null => {
+  if (step.kind === 'builtin') return BUILT_IN_PROCESSORS[step.builtin](normalizer);
+  if (!step.find) return null;
+  try {
+    const pattern = compileRule(step);
+    // Plain rules insert the replacement as typed, without $ substitutions
+    return step.regex
+      ? text => text.replace(pattern, step.replace)
+      : text => text.replace(pattern, () => step.replace);
+  } catch (err) {
+    console.error(`Skipping post-processing rule "${step.name}"`, err);
+    return null;
+  }
+};
+
+/**
+ * Combines the enabled steps, in list order, into one text transform.
+ */
+export const createPostProcessor = (steps: PostProcessingStep[], normalizer: NormalizerSettings): TextProcessor => {
+  const processors = steps
+    .filter(step => step.enabled)
+    .map(step => toProcessor(step, normalizer))
+    .filter((processor): processor is TextProcessor => processor !== null);
+  return text => processors.reduce((current, process) => process(current), text);
+};
+
+/**
+ * Runs the pipeline on a result's text and on each layout line, word and
+ * table cell. Lines that end up empty are dropped so that the n-th non-empty
+ * text line still matches the n-th OCR line (see lineMapping).
+ */
+export const postProcessResult = (result: OCRResult, process: TextProcessor): OCRResult => ({
+  ...result,
+  text: process(result.text),
+  blocks: result.blocks
+    ?.map(block => ({
+      ...block,
+      lines: block.lines
+        .map(line => ({
+          ...line,
+          text: process(line.text),
+          words: line.words.map(word => ({ ...word, text: process(word.text) })).filter(word => word.text.trim()),
+        }))
+        .filter(line => line.text.trim()),
+    }))
+    .filter(block => block.lines.length > 0),
+  tables: result.tables?.map(table => ({ ...table, rows: table.rows.map(row => row.map(process)) })),
+});
+
+const isBuiltInId = (value: unknown): value is BuiltInPostProcessorId =>
+  typeof value === 'string' && Object.hasOwn(BUILT_IN_PROCESSORS, value);
+
+const parseStep = (raw: unknown): PostProcessingStep => {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) throw new Error('Expected a post-processing step object');
+  const value = raw as Record<string, unknown>;
+  if (value.kind === 'builtin') {
+    if (!isBuiltInId(value.builtin)) throw new Error(`Unknown built-in step "${String(value.builtin)}"`);
+    return builtInStep(value.builtin, value.enabled !== false);
+  }
+  if (value.kind === 'replace') {
+    if (typeof value.find !== 'string') throw new Error('Rule is missing its "find" text');
+    return {
+      ...createRuleStep(),
+      enabled: value.enabled !== false,
+      name: typeof value.name === 'string' ? value.name : '',
+      find: value.find,
+      replace: typeof value.replace === 'string' ? value.replace : '',
+      regex: value.regex === true,
+      caseSensitive: value.caseSensitive === true,
+    };
+  }
+  throw new Error(`Unknown step kind "${String(value.kind)}"`);
+};
+
+/**
+ * Reads steps from saved or imported JSON, either `{ version, steps }` or a
+ * bare array. Rules get fresh ids, and built-ins the file leaves out are
+ * added at the end with their defaults. Throws when the JSON is not a pipeline.
+ */
+export const parsePostProcessingSteps = (json: string): PostProcessingStep[] => {
+  const data: unknown = JSON.parse(json);
+  const values: unknown = Array.isArray(data) || typeof data !== 'object' || data === null ? data : (data as Record<string, unknown>).steps;
+  if (!Array.isArray(values)) throw new Error('Expected a list of post-processing steps');
+
+  const steps: PostProcessingStep[] = [];
+  for (const step of values.map(parseStep)) {
+    if (!steps.some(existing => existing.id === step.id)) steps.push(step);
+  }
+  const missing = DEFAULT_POST_PROCESSING_STEPS.filter(builtIn => !steps.some(step => step.id === builtIn.id));
+  return [...steps, ...missing];
+};
+
+export const serializePostProcessingSteps = (steps: PostProcessingStep[]): string =>
+  JSON.stringify({ version: EXPORT_VERSION, steps }, null, 2);
+
+export const exportPostProcessingSteps = (steps: PostProcessingStep[]) => {
+  const json = serializePostProcessingSteps(steps);
+  saveAs(new Blob([json], { type: 'application/json;charset=utf-8' }), 'post-processing-rules.json');
+};
@@ -0,0 +1,54 @@
+import { BoundingBox, OCRBlock, OCRResult } from "../types";
+import { loadImage } from "./imageUtils";
+
+/**
+ * Crops a normalized region out of an image and returns it as a PNG data URL.
+ */
+export const cropRegion = async (src: string, region: BoundingBox): Promise<string> => {
+  const img = await loadImage(src);
+  const sx = Math.round(region.x * img.naturalWidth);
+  const sy = Math.round(region.y * img.naturalHeight);
+  const width = Math.max(1, Math.round(region.width * img.naturalWidth));
+  const height = Math.max(1, Math.round(region.height * img.naturalHeight));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas is not supported in this browser");
+  ctx.drawImage(img, sx, sy, width, height, 0, 0, width, height);
+  return canvas.toDataURL('image/png');
+};
+
+// Converts a box relative to a region into a box relative to the whole image
+export const toImageBox = (box: BoundingBox, region: BoundingBox): BoundingBox => ({
+  x: region.x + box.x * region.width,
+  y: region.y + box.y * region.height,
+  width: box.width * region.width,
+  height: box.height * region.height,
+});
+
+export const mapBlocksToImage = (blocks: OCRBlock[], region: BoundingBox): OCRBlock[] =>
+  blocks.map(block => ({
+    ...block,
+    box: toImageBox(block.box, region),
+    lines: block.lines.map(line => ({
+      ...line,
+      box: toImageBox(line.box, region),
+      words: line.words.map(word => ({ ...word, box: toImageBox(word.box, region) })),
+    })),
+  }));
+
+/**
+ * Joins per-region results in the given order. Text is separated by a blank
+ * line and geometry is moved back into whole-image coordinates.
+ */
+export const mergeRegionResults = (results: OCRResult[], regions: BoundingBox[]): OCRResult => {
+  const blocks = results.flatMap((result, i) => mapBlocksToImage(result.blocks || [], regions[i]));
+  const tables = results.flatMap(result => result.tables || []);
+  return {
+    text: results.map(result => result.text.trim()).filter(Boolean).join('\n\n'),
+    ...(blocks.length > 0 ? { blocks } : {}),
+    ...(tables.length > 0 ? { tables } : {}),
+  };
+};
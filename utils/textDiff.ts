@@ -0,0 +1,113 @@
+export type DiffOp = 'equal' | 'insert' | 'delete';
+
+export interface DiffSegment {
+  op: DiffOp;
+  text: string;
+}
+
+// Past this many LCS cells a changed region is shown as a plain replacement
+const MAX_LCS_CELLS = 4_000_000;
+
+const pushSegment = (segments: DiffSegment[], op: DiffOp, text: string) => {
+  if (!text) return;
+  const last = segments[segments.length - 1];
+  if (last && last.op === op) last.text += text;
+  else segments.push({ op, text });
+};
+
+/**
+ * Longest-common-subsequence diff of two token lists. The shared prefix and
+ * suffix are matched directly so the table only covers the changed middle.
+ */
+const diffTokens = (a: string[], b: string[]): DiffSegment[] => {
+  const segments: DiffSegment[] = [];
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  pushSegment(segments, 'equal', a.slice(0, start).join(''));
+
+  const n = endA - start;
+  const m = endB - start;
+  if (n * m > MAX_LCS_CELLS) {
+    pushSegment(segments, 'delete', a.slice(start, endA).join(''));
+    pushSegment(segments, 'insert', b.slice(start, endB).join(''));
+  } else {
+    // lengths[i * (m + 1) + j] = LCS length of a[start + i..endA) and b[start + j..endB)
+    const lengths = new Uint32Array((n + 1) * (m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lengths[i * (m + 1) + j] = a[start + i] === b[start + j]
+          ? lengths[(i + 1) * (m + 1) + j + 1] + 1
+          : Math.max(lengths[(i + 1) * (m + 1) + j], lengths[i * (m + 1) + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < n || j < m) {
+      if (i < n && j < m && a[start + i] === b[start + j]) {
+        pushSegment(segments, 'equal', a[start + i]);
+        i++;
+        j++;
+      } else if (i < n && (j === m || lengths[(i + 1) * (m + 1) + j] >= lengths[i * (m + 1) + j + 1])) {
+        pushSegment(segments, 'delete', a[start + i]);
+        i++;
+      } else {
+        pushSegment(segments, 'insert', b[start + j]);
+        j++;
+      }
+    }
+  }
+
+  pushSegment(segments, 'equal', a.slice(endA).join(''));
+  return segments;
+};
+
+const splitLines = (text: string) => text.match(/[^\n]*\n|[^\n]+$/g) || [];
+const splitWords = (text: string) => text.match(/\s+|[^\s]+/g) || [];
+
+/**
+ * What changed from `original` to `edited`: lines are compared first, then
+ * each run of changed lines is compared word by word, so small corrections
+ * show up as single words rather than whole lines.
+ */
+export const diffText = (original: string, edited: string): DiffSegment[] => {
+  const result: DiffSegment[] = [];
+  let deleted = '';
+  let inserted = '';
+
+  const flushChange = () => {
+    diffTokens(splitWords(deleted), splitWords(inserted)).forEach(segment => pushSegment(result, segment.op, segment.text));
+    deleted = '';
+    inserted = '';
+  };
+
+  for (const segment of diffTokens(splitLines(original), splitLines(edited))) {
+    if (segment.op === 'equal') {
+      flushChange();
+      pushSegment(result, 'equal', segment.text);
+    } else if (segment.op === 'delete') {
+      deleted += segment.text;
+    } else {
+      inserted += segment.text;
+    }
+  }
+  flushChange();
+  return result;
+};
+
+/**
+ * Number of words added and removed, for the diff summary.
+ */
+export const countChangedWords = (segments: DiffSegment[]) =>
+  segments.reduce((counts, { op, text }) => {
+    if (op === 'equal') return counts;
+    const words = text.split(/\s+/).filter(Boolean).length;
+    return op === 'insert' ? { ...counts, added: counts.added + words } : { ...counts, removed: counts.removed + words };
+  }, { added: 0, removed: 0 });
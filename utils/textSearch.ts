@@ -0,0 +1,133 @@
+export interface SearchOptions {
+  caseSensitive: boolean;
+  wholeWord: boolean;
+  regex: boolean;
+  ignoreVariants: boolean; // Skip ZWNJ, tatweel and harakat, and match Arabic/Persian letter forms
+}
+
+export const DEFAULT_SEARCH_OPTIONS: SearchOptions = {
+  caseSensitive: false,
+  wholeWord: false,
+  regex: false,
+  ignoreVariants: true,
+};
+
+export interface TextMatch {
+  start: number;
+  end: number;
+  groups: (string | undefined)[]; // Capture groups, for $1..$9 in regex replacements
+}
+
+export interface SearchResult {
+  matches: TextMatch[];
+  error: string | null; // Set when the regular expression is invalid
+}
+
+// Enough to highlight any real document while a pattern like "." stays responsive
+const MAX_MATCHES = 5000;
+
+// Letter variants models use interchangeably for the same Persian/Arabic word
+const CHAR_FOLDS: Record<string, string> = {
+  'ي': 'ی', // Arabic yeh
+  'ى': 'ی', // Alef maksura
+  'ك': 'ک', // Arabic kaf
+  'ة': 'ه', // Teh marbuta
+  'ۀ': 'ه', // Heh with yeh above
+  'أ': 'ا', // Alef with hamza above
+  'إ': 'ا', // Alef with hamza below
+  'آ': 'ا', // Alef with madda
+  'ؤ': 'و', // Waw with hamza
+  'ئ': 'ی', // Yeh with hamza
+};
+
+// Harakat, superscript alef, tatweel and ZWNJ, so «می‌روم» also matches «میروم»
+const IGNORED = /[\u064B-\u065F\u0670\u0640\u200C]/;
+
+/**
+ * Maps a letter variant or a Persian/Arabic-Indic digit to the form used for
+ * matching; other characters are returned unchanged.
+ */
+export const foldLetter = (char: string): string => {
+  const code = char.charCodeAt(0);
+  if (code >= 0x06F0 && code <= 0x06F9) return String(code - 0x06F0); // Persian digits
+  if (code >= 0x0660 && code <= 0x0669) return String(code - 0x0660); // Arabic-Indic digits
+  return CHAR_FOLDS[char] ?? char;
+};
+
+export const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Folded text with the original offset of every character, plus one past the
+ * end, so matches can be mapped back to the unmodified text.
+ */
+const foldText = (source: string) => {
+  let text = '';
+  const offsets: number[] = [];
+  for (let i = 0; i < source.length; i++) {
+    if (IGNORED.test(source[i])) continue;
+    text += foldLetter(source[i]);
+    offsets.push(i);
+  }
+  offsets.push(source.length);
+  return { text, offsets };
+};
+
+const buildPattern = (query: string, options: SearchOptions): RegExp => {
+  let source = options.regex ? query : escapeRegExp(query);
+  // Folding only swaps letters and drops marks, so regex syntax in the query survives it
+  if (options.ignoreVariants) source = foldText(source).text;
+  if (options.wholeWord) source = `(?<![\\p{L}\\p{N}_])(?:${source})(?![\\p{L}\\p{N}_])`;
+  return new RegExp(source, `gmud${options.caseSensitive ? '' : 'i'}`);
+};
+
+/**
+ * Every match of `query` in `text`, as ranges of the original text.
+ * Empty matches are skipped.
+ */
+export const findMatches = (text: string, query: string, options: SearchOptions): SearchResult => {
+  if (!query) return { matches: [], error: null };
+
+  let pattern: RegExp;
+  try {
+    pattern = buildPattern(query, options);
+  } catch (err: any) {
+    return { matches: [], error: err.message };
+  }
+
+  const folded = options.ignoreVariants ? foldText(text) : null;
+  const toOriginal = (start: number, end: number): [number, number] => {
+    if (!folded) return [start, end];
+    // The end includes the whole last character but not ignored marks after it
+    return [folded.offsets[start], end > start ? folded.offsets[end - 1] + 1 : folded.offsets[start]];
+  };
+
+  const matches: TextMatch[] = [];
+  let found: RegExpExecArray | null;
+  while (matches.length < MAX_MATCHES && (found = pattern.exec(folded ? folded.text : text))) {
+    if (found[0] === '') {
+      pattern.lastIndex++;
+      continue;
+    }
+    const [start, end] = toOriginal(found.index, found.index + found[0].length);
+    const groups = found.indices!.slice(1).map(range => range ? text.slice(...toOriginal(range[0], range[1])) : undefined);
+    matches.push({ start, end, groups });
+  }
+  return { matches, error: null };
+};
+
+/**
+ * Replaces the given matches. In regex mode the replacement may use $& and
+ * $1..$9, which take the matched text as it appears in the document.
+ */
+export const replaceMatches = (text: string, matches: TextMatch[], replacement: string, options: SearchOptions): string => {
+  let result = text;
+  // From the end, so earlier offsets stay valid
+  for (const match of [...matches].sort((a, b) => b.start - a.start)) {
+    const value = options.regex
+      ? replacement.replace(/\$([$&]|[1-9])/g, (_token, ref) =>
+          ref === '$' ? '$' : ref === '&' ? text.slice(match.start, match.end) : match.groups[Number(ref) - 1] ?? '')
+      : replacement;
+    result = result.slice(0, match.start) + value + result.slice(match.end);
+  }
+  return result;
+};
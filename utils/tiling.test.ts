@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { mergeTileResults, mergeTileTexts, ImageTile } from './tiling';
+import { BoundingBox, OCRBlock } from '../types';
+
+// Two columns (right one first) of two overlapping bands each
+const tile = (column: number, region: BoundingBox, owned: BoundingBox): ImageTile => ({ dataUrl: '', region, owned, column });
+const TILES: ImageTile[] = [
+  tile(0, { x: 0.4, y: 0, width: 0.6, height: 0.6 }, { x: 0.5, y: 0, width: 0.5, height: 0.5 }),
+  tile(0, { x: 0.4, y: 0.4, width: 0.6, height: 0.6 }, { x: 0.5, y: 0.5, width: 0.5, height: 0.5 }),
+  tile(1, { x: 0, y: 0, width: 0.6, height: 0.6 }, { x: 0, y: 0, width: 0.5, height: 0.5 }),
+  tile(1, { x: 0, y: 0.4, width: 0.6, height: 0.6 }, { x: 0, y: 0.5, width: 0.5, height: 0.5 }),
+];
+
+// A one-line block at a box relative to its tile
+const block = (text: string, box: BoundingBox): OCRBlock => ({ box, confidence: 1, lines: [{ text, box, words: [] }] });
+
+describe('mergeTileTexts', () => {
+  it('stitches bands within a column and separates the columns', () => {
+    const texts = ['الف\nب\nج', 'ب\nج\nد', 'x\ny', 'y\nz'];
+    expect(mergeTileTexts(texts, TILES)).toBe('الف\nب\nج\nد\n\nx\ny\nz');
+  });
+
+  it('merges the tiles read so far', () => {
+    expect(mergeTileTexts(['الف', 'ب'], TILES)).toBe('الف\nب');
+  });
+});
+
+describe('mergeTileResults', () => {
+  it('keeps each block once and builds the text from the kept blocks', () => {
+    // "overlap" sits in the shared band of the first column's tiles
+    const overlap = { x: 0.1, y: 0.8, width: 0.5, height: 0.1 }; // Center y = 0.51 of the image in tile 0
+    const results = [
+      { text: 'one\noverlap', blocks: [block('one', { x: 0.1, y: 0.1, width: 0.5, height: 0.1 }), block('overlap', overlap)] },
+      { text: 'overlap\ntwo', blocks: [block('overlap', { x: 0.1, y: 0.15, width: 0.5, height: 0.1 }), block('two', { x: 0.1, y: 0.6, width: 0.5, height: 0.1 })] },
+      { text: '', blocks: [] },
+      { text: 'three', blocks: [block('three', { x: 0.1, y: 0.5, width: 0.5, height: 0.1 })] },
+    ];
+    const merged = mergeTileResults(results, TILES);
+    expect(merged.blocks?.map(b => b.lines[0].text)).toEqual(['one', 'overlap', 'two', 'three']);
+    expect(merged.text).toBe('one\n\noverlap\n\ntwo\n\nthree');
+  });
+
+  it('drops tables read twice in an overlap', () => {
+    const located = { rows: [['a', 'b']], hasHeader: false, box: { x: 0.2, y: 0.85, width: 0.5, height: 0.1 } };
+    const unlocated = { rows: [['c']], hasHeader: false };
+    const results = [
+      { text: '', tables: [located, unlocated] },
+      { text: '', tables: [{ ...located, box: { x: 0.2, y: 0.18, width: 0.5, height: 0.1 } }, unlocated] },
+      { text: '' },
+      { text: '' },
+    ];
+    const merged = mergeTileResults(results, TILES);
+    expect(merged.tables?.map(table => table.rows)).toEqual([[['c']], [['a', 'b']]]);
+    expect(merged.text).toBe('c\n\na\tb');
+  });
+});
@@ -0,0 +1,203 @@
+import { BoundingBox, OCRResult, OCRTable } from "../types";
+import { loadImage } from "./imageUtils";
+import { mapBlocksToImage, toImageBox } from "./regionUtils";
+import { blocksToText } from "../services/structuredOcr";
+import { tablesToText } from "../services/tableOcr";
+
+export interface TilingOptions {
+  tileWidth: number;
+  tileHeight: number;
+  overlap: number; // Share of each tile repeated in the next one (0-1)
+  rightToLeft: boolean; // Order of columns when an image is split across its width
+}
+
+export interface ImageTile {
+  dataUrl: string;
+  region: BoundingBox; // Normalized position in the full image
+  // Normalized area this tile is authoritative for; overlaps are split in half
+  owned: BoundingBox;
+  column: number; // Column in reading order; texts are stitched within a column
+}
+
+export const DEFAULT_TILING_OPTIONS: TilingOptions = {
+  tileWidth: 2048,
+  tileHeight: 1536,
+  overlap: 0.15,
+  rightToLeft: true,
+};
+
+// Longest overlap, in lines, looked for when stitching two tiles
+const MAX_OVERLAP_LINES = 12;
+const LINE_SIMILARITY = 0.85;
+
+/**
+ * Splits `length` pixels into overlapping spans of at most `size`.
+ * A little extra length is cheaper than an extra request.
+ */
+const splitSpan = (length: number, size: number, overlap: number): [number, number][] => {
+  if (length <= size * 1.25) return [[0, length]];
+  const step = Math.round(size * (1 - overlap));
+  const spans: [number, number][] = [];
+  for (let start = 0; ; start += step) {
+    const end = Math.min(start + size, length);
+    spans.push([start, end]);
+    if (end >= length) break;
+  }
+  return spans;
+};
+
+// Normalized range span `i` owns: up to the middle of each overlap with a neighbour
+const ownedRange = (spans: [number, number][], i: number, length: number): [number, number] => [
+  i === 0 ? 0 : (spans[i][0] + spans[i - 1][1]) / 2 / length,
+  i === spans.length - 1 ? 1 : (spans[i][1] + spans[i + 1][0]) / 2 / length,
+];
+
+/**
+ * Cuts an image into overlapping tiles at full resolution, so a text line cut
+ * at the edge of one tile appears whole in the next. Images only wider than a
+ * tile are split into columns as well as bands. Tiles are ordered column by
+ * column in reading order, top to bottom within a column.
+ */
+export const splitIntoTiles = async (src: string, options: TilingOptions = DEFAULT_TILING_OPTIONS): Promise<ImageTile[]> => {
+  const img = await loadImage(src);
+  const width = img.naturalWidth;
+  const height = img.naturalHeight;
+  const columns = splitSpan(width, options.tileWidth, options.overlap);
+  const bands = splitSpan(height, options.tileHeight, options.overlap);
+
+  if (columns.length === 1 && bands.length === 1) {
+    const whole = { x: 0, y: 0, width: 1, height: 1 };
+    return [{ dataUrl: src, region: whole, owned: whole, column: 0 }];
+  }
+
+  const columnOrder = columns.map((_, i) => i);
+  if (options.rightToLeft) columnOrder.reverse();
+
+  return columnOrder.flatMap((c, column) => bands.map(([top, bottom], b) => {
+    const [left, right] = columns[c];
+    const canvas = document.createElement('canvas');
+    canvas.width = right - left;
+    canvas.height = bottom - top;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Canvas is not supported in this browser");
+    ctx.drawImage(img, left, top, right - left, bottom - top, 0, 0, right - left, bottom - top);
+
+    const [ownLeft, ownRight] = ownedRange(columns, c, width);
+    const [ownTop, ownBottom] = ownedRange(bands, b, height);
+    return {
+      dataUrl: canvas.toDataURL('image/png'),
+      region: { x: left / width, y: top / height, width: (right - left) / width, height: (bottom - top) / height },
+      owned: { x: ownLeft, y: ownTop, width: ownRight - ownLeft, height: ownBottom - ownTop },
+      column,
+    };
+  }));
+};
+
+const normalizeLine = (line: string) => line.replace(/[\s\u200C]+/g, '');
+
+const levenshtein = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Tiles are read separately, so the same line may differ by a character or two
+const isSameLine = (a: string, b: string): boolean => {
+  const x = normalizeLine(a), y = normalizeLine(b);
+  if (!x || !y) return x === y;
+  if (x === y) return true;
+  return 1 - levenshtein(x, y) / Math.max(x.length, y.length) >= LINE_SIMILARITY;
+};
+
+/**
+ * Joins two tile texts, dropping the lines both tiles read in the overlap.
+ * The overlap may leave one cut-off fragment at the end of `previous` and at
+ * the start of `next`; the whole version of each line is kept.
+ */
+const stitchPair = (previous: string[], next: string[]): string[] => {
+  for (let size = Math.min(MAX_OVERLAP_LINES, previous.length, next.length); size > 0; size--) {
+    for (const trailing of [0, 1]) {
+      const start = previous.length - size - trailing;
+      if (start < 0) continue;
+      for (const leading of [0, 1]) {
+        if (leading + size > next.length) continue;
+        const overlap = previous.slice(start, start + size);
+        // Blank lines alone are no evidence of an overlap
+        if (overlap.every(line => !line.trim())) continue;
+        let matches = true;
+        for (let k = 0; k < size && matches; k++) {
+          matches = isSameLine(previous[start + k], next[leading + k]);
+        }
+        if (matches) return [...previous.slice(0, start), ...next.slice(leading)];
+      }
+    }
+  }
+  return [...previous, ...next];
+};
+
+export const stitchTileTexts = (texts: string[]): string =>
+  texts
+    .map(text => text.split('\n'))
+    .reduce((merged, lines) => merged.length === 0 ? lines : stitchPair(merged, lines), [] as string[])
+    .join('\n')
+    .trim();
+
+/**
+ * Stitches the texts of consecutive tiles within each column and joins the
+ * columns with a blank line. `texts` may cover only the first tiles, as
+ * while the later ones are still being read.
+ */
+export const mergeTileTexts = (texts: string[], tiles: ImageTile[]): string => {
+  const columns: string[][] = [];
+  texts.forEach((text, i) => {
+    (columns[tiles[i].column] ??= []).push(text);
+  });
+  return columns.map(stitchTileTexts).filter(Boolean).join('\n\n');
+};
+
+const ownsPoint = (tile: ImageTile, x: number, y: number): boolean =>
+  x >= tile.owned.x && x < tile.owned.x + tile.owned.width && y >= tile.owned.y && y < tile.owned.y + tile.owned.height;
+
+const ownsBox = (tile: ImageTile, box: BoundingBox): boolean =>
+  ownsPoint(tile, box.x + box.width / 2, box.y + box.height / 2);
+
+/**
+ * Combines per-tile results. Each block and each located table is kept only
+ * by the tile that owns its center, so overlaps aren't read twice; tables
+ * without a position are kept once per distinct content. The text is built
+ * from the kept blocks or tables, so it matches them line for line; plain
+ * text results are stitched instead.
+ */
+export const mergeTileResults = (results: OCRResult[], tiles: ImageTile[]): OCRResult => {
+  const blocks = results.flatMap((result, i) =>
+    mapBlocksToImage(result.blocks || [], tiles[i].region).filter(block => ownsBox(tiles[i], block.box))
+  );
+
+  const seenTables = new Set<string>();
+  const tables = results.flatMap((result, i) =>
+    (result.tables || []).flatMap((table): OCRTable[] => {
+      if (table.box) {
+        const box = toImageBox(table.box, tiles[i].region);
+        return ownsBox(tiles[i], box) ? [{ ...table, box }] : [];
+      }
+      const content = tablesToText([table]);
+      if (seenTables.has(content)) return [];
+      seenTables.add(content);
+      return [table];
+    })
+  );
+
+  return {
+    text: blocks.length > 0 ? blocksToText(blocks)
+      : tables.length > 0 ? tablesToText(tables)
+      : mergeTileTexts(results.map(result => result.text), tiles),
+    ...(blocks.length > 0 ? { blocks } : {}),
+    ...(tables.length > 0 ? { tables } : {}),
+  };
+};
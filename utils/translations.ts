@@ -18,7 +18,7 @@ export const translations = {
     editor: "ویرایشگر متن",
     copy: "کپی متن",
     copied: "کپی شد",
-    export: "خروجی Word",
+    export: "خروجی",
     downloaded: "دانلود شد",
     image: "تصویر",
     originalImage: "تصویر اصلی",
@@ -55,11 +55,168 @@ export const translations = {
     toastInfo: "اطلاع",
     copySuccess: "متن با موفقیت کپی شد",
     exportSuccess: "فایل Word آماده شد",
-    fileTypeWarning: "لطفاً فقط فایل تصویر انتخاب کنید",
+    fileTypeWarning: "لطفاً فقط فایل تصویر یا PDF انتخاب کنید",
     dailyLimit: "سقف مجاز روزانه",
     remaining: "باقیمانده",
     freeTierNote: "بر اساس طرح رایگان Gemini",
     plan: "طرح فعال",
+    ocrProvider: "موتور استخراج متن",
+    ocrProviderDesc: "سرویسی که تصاویر برای استخراج متن به آن ارسال می‌شوند",
+    providerBaseUrl: "آدرس سرویس",
+    providerModel: "مدل",
+    providerApiKey: "کلید API سرویس",
+    tesseractLanguages: "زبان‌های تشخیص (مثال: fas+eng)",
+    loadingRenderingPdf: "آماده‌سازی صفحات PDF...",
+    page: "صفحه",
+    batchQueue: "صف پردازش گروهی",
+    batchStatusPending: "در انتظار",
+    batchStatusRunning: "در حال پردازش",
+    batchStatusDone: "انجام شد",
+    batchStatusFailed: "ناموفق",
+    batchStatusRetry: "تلاش مجدد",
+    pause: "توقف موقت",
+    resume: "ادامه",
+    cancel: "لغو",
+    clear: "پاک کردن",
+    concurrency: "پردازش همزمان",
+    openInEditor: "باز کردن در ویرایشگر",
+    exportAll: "خروجی Word همه",
+    retry: "تلاش دوباره",
+    remove: "حذف",
+    cancelled: "لغو شد",
+    layoutMode: "حالت چیدمان",
+    layoutModeDesc: "دریافت بلوک‌ها و خطوط به همراه موقعیت آن‌ها در تصویر",
+    confidence: "اطمینان",
+    extractionMode: "حالت استخراج",
+    textMode: "متن ساده",
+    tableMode: "جدول",
+    tableModeDesc: "تشخیص جدول‌ها برای فاکتور و فرم با خروجی Excel و CSV",
+    textView: "متن",
+    addRow: "افزودن سطر",
+    addColumn: "افزودن ستون",
+    history: "تاریخچه",
+    historyEmpty: "هنوز نتیجه‌ای ذخیره نشده است.",
+    historyStorage: "فضای استفاده‌شده",
+    historyEdited: "ویرایش‌شده",
+    confirmClearHistory: "همه نتایج ذخیره‌شده حذف شوند؟",
+    searchHistory: "جستجو در نتایج...",
+    noSearchResults: "نتیجه‌ای یافت نشد.",
+    preprocessing: "پیش‌پردازش تصویر",
+    preprocessingDesc: "برای عکس‌های گوشی از اسناد کج، کم‌نور یا سایه‌دار.",
+    autoRotate: "چرخش خودکار (EXIF)",
+    deskew: "صاف کردن کجی",
+    grayscale: "سیاه‌وسفید",
+    autoContrast: "کنتراست خودکار",
+    denoise: "حذف نویز",
+    binarize: "دودویی‌سازی تطبیقی",
+    before: "قبل",
+    after: "بعد",
+    loadingPreprocessing: "در حال بهبود کیفیت تصویر...",
+    regionSelect: "انتخاب ناحیه",
+    regionSelectDesc: "پیش از استخراج، بخش‌هایی از تصویر را انتخاب کنید",
+    regionSelectHelp: "روی تصویر بکشید تا ناحیه‌ها مشخص شوند؛ به ترتیب فهرست خوانده می‌شوند.",
+    region: "ناحیه",
+    wholeImage: "کل تصویر",
+    extract: "استخراج متن",
+    moveUp: "انتقال به بالا",
+    moveDown: "انتقال به پایین",
+    perspective: "اصلاح پرسپکتیو",
+    perspectiveDesc: "صاف کردن عکس صفحاتی که از زاویه گرفته شده‌اند",
+    perspectiveHelp: "گوشه‌ها را روی لبه‌های صفحه بکشید.",
+    autoDetect: "تشخیص خودکار",
+    useOriginal: "استفاده از تصویر اصلی",
+    apply: "اعمال",
+    loadingFlattening: "در حال صاف کردن صفحه...",
+    tiling: "تقسیم تصاویر بزرگ",
+    tilingDesc: "اسکرین‌شات‌های بلند و اسکن‌های بزرگ بدون کوچک‌شدن خوانده می‌شوند، حتی در حالت اقتصادی",
+    tile: "بخش",
+    errorInvalidKey: "کلید API نامعتبر است. لطفا کلید خود را بررسی کنید.",
+    errorMissingKey: "API Key یافت نشد. لطفاً در تنظیمات کلید خود را وارد کنید.",
+    errorQuota: "سهمیه درخواست‌ها تمام شده است. کمی بعد دوباره تلاش کنید.",
+    errorSafety: "پاسخ توسط فیلترهای ایمنی مسدود شد.",
+    errorNetwork: "خطای شبکه. اتصال اینترنت خود را بررسی کنید.",
+    errorServer: "سرویس OCR در دسترس نیست. کمی بعد دوباره تلاش کنید.",
+    errorEmpty: "متنی در این تصویر پیدا نشد.",
+    errorUnknown: "خطا در استخراج متن از تصویر",
+    retryingIn: "تلاش مجدد تا",
+    rerun: "اجرای دوباره",
+    rerunDesc: "استخراج دوباره بدون استفاده از حافظه نتایج",
+    fromCache: "از حافظه بارگذاری شد",
+    toastFromCache: "این تصویر قبلاً با همین تنظیمات خوانده شده بود و درخواستی ارسال نشد. برای خواندن دوباره از «اجرای دوباره» استفاده کنید.",
+    errorKeysExhausted: "همه کلیدهای API به سقف مصرف رسیده‌اند. کلید دیگری اضافه کنید یا بعداً تلاش کنید.",
+    keyRotation: "چرخش کلیدها",
+    keyRotationDesc: "نوبتی: درخواست‌ها به‌ترتیب بین کلیدها پخش می‌شوند. پشتیبان: تا پر شدن سقف کلید اول از آن استفاده می‌شود.",
+    rotationRoundRobin: "نوبتی",
+    rotationFailover: "پشتیبان",
+    keyLabel: "برچسب",
+    builtInKey: "کلید پیش‌فرض برنامه",
+    validateKey: "بررسی اعتبار کلید",
+    keyDuplicate: "این کلید قبلاً اضافه شده است.",
+    resetTimeZone: "منطقه زمانی بازنشانی",
+    addKey: "افزودن",
+    apiKeysHelp: "کلیدها فقط در مرورگر شما ذخیره می‌شوند. وقتی سقف روزانه یک کلید پر شود، درخواست‌ها به کلید بعدی می‌روند.",
+    errorKeysLocked: "کلیدهای API قفل هستند. برای استفاده، آن‌ها را با عبارت عبور باز کنید.",
+    wrongPassphrase: "عبارت عبور نادرست است.",
+    unlockKeys: "باز کردن قفل کلیدها",
+    unlockKeysDesc: "کلیدهای API شما رمزگذاری شده‌اند. برای استفاده از آن‌ها عبارت عبور را وارد کنید.",
+    unlockLater: "بعداً",
+    unlock: "باز کردن قفل",
+    passphrase: "عبارت عبور",
+    confirmPassphrase: "تکرار عبارت عبور",
+    passphraseMismatch: "عبارت‌های عبور یکسان نیستند.",
+    passphraseHint: "حداقل ۸ نویسه. عبارت عبور جایی ذخیره نمی‌شود و در صورت فراموشی، کلیدها بازیابی نمی‌شوند.",
+    keyEncryption: "رمزگذاری کلیدها",
+    keyEncryptionDesc: "کلیدها را با یک عبارت عبور رمزگذاری کنید.",
+    keyEncryptionOn: "کلیدها رمزگذاری شده و باز هستند.",
+    keysLocked: "کلیدها قفل هستند.",
+    encryptKeys: "رمزگذاری",
+    lockNow: "قفل کردن",
+    autoLock: "قفل خودکار پس از",
+    autoLockNever: "هرگز",
+    minutes: "دقیقه",
+    disableEncryption: "حذف رمزگذاری",
+    confirmDisableEncryption: "کلیدها بدون رمزگذاری در مرورگر ذخیره می‌شوند. ادامه می‌دهید؟",
+    allowUrlKey: "اجازه افزودن کلید از طریق پارامتر ?key= در آدرس",
+    urlKeyIgnored: "کلید موجود در آدرس نادیده گرفته شد؛ افزودن کلید از آدرس در تنظیمات غیرفعال است.",
+    undo: "واگرد",
+    redo: "انجام دوباره",
+    revertOriginal: "بازگشت به خروجی اصلی",
+    showChanges: "نمایش تغییرات",
+    noChanges: "تغییری نسبت به متن استخراج‌شده وجود ندارد.",
+    wordsAdded: "کلمه افزوده",
+    wordsRemoved: "کلمه حذف‌شده",
+    normalizer: "یکسان‌سازی متن فارسی",
+    normalizerDesc: "این قواعد پس از استخراج روی متن اعمال می‌شوند و نتیجه را بدون تغییر معنا مرتب می‌کنند.",
+    normalizeArabicLetters: "تبدیل ي و ك عربی به ی و ک",
+    normalizeZwnj: "نیم‌فاصله برای می، ها، تر و پسوندها",
+    normalizePunctuation: "فاصله‌گذاری درست علائم نگارشی",
+    normalizeKashida: "حذف کشیده (ـ)",
+    normalizeWhitespace: "حذف فاصله‌های تکراری",
+    normalizeDigits: "تبدیل ارقام به فارسی",
+    postProcessing: "پردازش پس از استخراج",
+    postProcessingDesc: "مراحل فعال به ترتیب فهرست روی متن استخراج‌شده اجرا می‌شوند. قواعد را می‌توانید به‌صورت JSON وارد یا صادر کنید تا با هم‌تیمی‌ها به اشتراک بگذارید.",
+    builtinOptionLetters: "تبدیل گزینه‌های الف) ب) ج) د) به عدد",
+    builtinCollapseBlankLines: "حذف خطوط خالی پشت‌سرهم",
+    addRule: "افزودن قاعده",
+    ruleName: "نام قاعده",
+    findPattern: "جستجو",
+    replaceWith: "جایگزینی با",
+    useRegex: "عبارت باقاعده",
+    caseSensitive: "حساس به حروف بزرگ و کوچک",
+    importRules: "وارد کردن قواعد (JSON)",
+    exportRules: "صادر کردن قواعد (JSON)",
+    rulesImported: "قواعد وارد شد. برای اعمال، تنظیمات را ذخیره کنید.",
+    rulesImportFailed: "این فایل قواعد معتبری ندارد.",
+    invalidPattern: "الگوی نامعتبر",
+    findReplace: "جستجو و جایگزینی",
+    wholeWord: "فقط کلمهٔ کامل",
+    ignoreLetterVariants: "نادیده گرفتن نیم‌فاصله و شکل‌های عربی حروف (ي/ی، ك/ک)",
+    previousMatch: "مورد قبلی",
+    nextMatch: "مورد بعدی",
+    close: "بستن",
+    replace: "جایگزینی",
+    replaceAll: "جایگزینی همه",
+    revertRaw: "بازگشت به خروجی خام مدل (پیش از پردازش)",
   },
   en: {
     title: "AxKhan Pro",
@@ -78,7 +235,7 @@ export const translations = {
     editor: "Text Editor",
     copy: "Copy Text",
     copied: "Copied",
-    export: "Export Word",
+    export: "Export",
     downloaded: "Downloaded",
     image: "Image",
     originalImage: "Original",
@@ -115,11 +272,168 @@ export const translations = {
     toastInfo: "Info",
     copySuccess: "Text copied successfully",
     exportSuccess: "Word file is ready",
-    fileTypeWarning: "Please select an image file only",
+    fileTypeWarning: "Please select an image or PDF file only",
     dailyLimit: "Daily Limit",
     remaining: "Remaining",
     freeTierNote: "Based on Gemini Free Tier",
     plan: "Active Plan",
+    ocrProvider: "OCR Engine",
+    ocrProviderDesc: "The service images are sent to for text extraction",
+    providerBaseUrl: "Base URL",
+    providerModel: "Model",
+    providerApiKey: "Endpoint API Key",
+    tesseractLanguages: "Recognition languages (e.g. fas+eng)",
+    loadingRenderingPdf: "Rendering PDF pages...",
+    page: "Page",
+    batchQueue: "Batch Queue",
+    batchStatusPending: "Pending",
+    batchStatusRunning: "Running",
+    batchStatusDone: "Done",
+    batchStatusFailed: "Failed",
+    batchStatusRetry: "Retrying",
+    pause: "Pause",
+    resume: "Resume",
+    cancel: "Cancel",
+    clear: "Clear",
+    concurrency: "Concurrency",
+    openInEditor: "Open in editor",
+    exportAll: "Export all to Word",
+    retry: "Retry",
+    remove: "Remove",
+    cancelled: "Cancelled",
+    layoutMode: "Layout Mode",
+    layoutModeDesc: "Receive blocks and lines with their position in the image",
+    confidence: "Confidence",
+    extractionMode: "Extraction Mode",
+    textMode: "Plain Text",
+    tableMode: "Table",
+    tableModeDesc: "Detect tables in invoices and forms, export to Excel and CSV",
+    textView: "Text",
+    addRow: "Add row",
+    addColumn: "Add column",
+    history: "History",
+    historyEmpty: "No saved results yet.",
+    historyStorage: "Storage used",
+    historyEdited: "Edited",
+    confirmClearHistory: "Delete all saved results?",
+    searchHistory: "Search results...",
+    noSearchResults: "No matches found.",
+    preprocessing: "Image Preprocessing",
+    preprocessingDesc: "For phone photos of skewed, dim or shadowed documents.",
+    autoRotate: "Auto-rotate (EXIF)",
+    deskew: "Deskew",
+    grayscale: "Grayscale",
+    autoContrast: "Auto contrast",
+    denoise: "Denoise",
+    binarize: "Adaptive binarization",
+    before: "Before",
+    after: "After",
+    loadingPreprocessing: "Enhancing image...",
+    regionSelect: "Region Selection",
+    regionSelectDesc: "Choose parts of the image before extraction",
+    regionSelectHelp: "Drag on the image to mark regions; they are read in the listed order.",
+    region: "Region",
+    wholeImage: "Whole image",
+    extract: "Extract text",
+    moveUp: "Move up",
+    moveDown: "Move down",
+    perspective: "Perspective Correction",
+    perspectiveDesc: "Flatten photos of pages taken at an angle",
+    perspectiveHelp: "Drag the corners onto the page edges.",
+    autoDetect: "Auto detect",
+    useOriginal: "Use original",
+    apply: "Apply",
+    loadingFlattening: "Flattening page...",
+    tiling: "Tile Large Images",
+    tilingDesc: "Read long screenshots and large scans without downscaling, even in Eco Mode",
+    tile: "Tile",
+    errorInvalidKey: "The API key is invalid. Please check your key.",
+    errorMissingKey: "No API key found. Please enter your key in Settings.",
+    errorQuota: "Request quota exceeded. Please try again shortly.",
+    errorSafety: "The response was blocked by safety filters.",
+    errorNetwork: "Network error. Please check your connection.",
+    errorServer: "The OCR service is unavailable. Please try again later.",
+    errorEmpty: "No text was found in this image.",
+    errorUnknown: "Failed to extract text from the image",
+    retryingIn: "Retrying in",
+    rerun: "Re-run",
+    rerunDesc: "Extract again without using the result cache",
+    fromCache: "Loaded from cache",
+    toastFromCache: "This image was already read with the same settings, so no request was sent. Use Re-run to read it again.",
+    errorKeysExhausted: "All API keys have reached their quota. Add another key or try again later.",
+    keyRotation: "Key rotation",
+    keyRotationDesc: "Round-robin spreads requests across keys; failover uses the first key until it runs out.",
+    rotationRoundRobin: "Round-robin",
+    rotationFailover: "Failover",
+    keyLabel: "Label",
+    builtInKey: "Built-in key",
+    validateKey: "Check key",
+    keyDuplicate: "This key is already in the list.",
+    resetTimeZone: "Reset time zone",
+    addKey: "Add",
+    apiKeysHelp: "Keys are stored only in your browser. When a key reaches its daily limit, requests move on to the next one.",
+    errorKeysLocked: "Your API keys are locked. Unlock them with your passphrase to continue.",
+    wrongPassphrase: "Incorrect passphrase.",
+    unlockKeys: "Unlock API keys",
+    unlockKeysDesc: "Your API keys are encrypted. Enter your passphrase to use them.",
+    unlockLater: "Later",
+    unlock: "Unlock",
+    passphrase: "Passphrase",
+    confirmPassphrase: "Confirm passphrase",
+    passphraseMismatch: "Passphrases do not match.",
+    passphraseHint: "At least 8 characters. The passphrase is never stored; if you forget it, the keys cannot be recovered.",
+    keyEncryption: "Key encryption",
+    keyEncryptionDesc: "Encrypt stored keys with a passphrase.",
+    keyEncryptionOn: "Keys are encrypted and unlocked.",
+    keysLocked: "Keys are locked.",
+    encryptKeys: "Encrypt",
+    lockNow: "Lock now",
+    autoLock: "Auto-lock after",
+    autoLockNever: "Never",
+    minutes: "min",
+    disableEncryption: "Remove encryption",
+    confirmDisableEncryption: "Keys will be stored unencrypted in this browser. Continue?",
+    allowUrlKey: "Allow importing a key from the ?key= URL parameter",
+    urlKeyIgnored: "The key in the URL was ignored; importing keys from the URL is disabled in Settings.",
+    undo: "Undo",
+    redo: "Redo",
+    revertOriginal: "Revert to extracted text",
+    showChanges: "Show changes",
+    noChanges: "No changes from the extracted text.",
+    wordsAdded: "added",
+    wordsRemoved: "removed",
+    normalizer: "Persian Text Normalization",
+    normalizerDesc: "These rules run on the text after extraction and tidy it without changing its meaning.",
+    normalizeArabicLetters: "Arabic ي and ك to Persian ی and ک",
+    normalizeZwnj: "Half-space (ZWNJ) for prefixes and suffixes",
+    normalizePunctuation: "Fix spacing around punctuation",
+    normalizeKashida: "Remove kashida (ـ)",
+    normalizeWhitespace: "Collapse repeated spaces",
+    normalizeDigits: "Convert digits to Persian",
+    postProcessing: "Post-processing",
+    postProcessingDesc: "Enabled steps run on the extracted text in list order. Import or export the rules as JSON to share them with your team.",
+    builtinOptionLetters: "Number options written as الف) ب) ج) د)",
+    builtinCollapseBlankLines: "Collapse consecutive blank lines",
+    addRule: "Add rule",
+    ruleName: "Rule name",
+    findPattern: "Find",
+    replaceWith: "Replace with",
+    useRegex: "Regular expression",
+    caseSensitive: "Match case",
+    importRules: "Import rules (JSON)",
+    exportRules: "Export rules (JSON)",
+    rulesImported: "Rules imported. Save settings to apply them.",
+    rulesImportFailed: "This file does not contain valid rules.",
+    invalidPattern: "Invalid pattern",
+    findReplace: "Find and replace",
+    wholeWord: "Whole word",
+    ignoreLetterVariants: "Ignore ZWNJ and Arabic/Persian letter forms (ي/ی, ك/ک)",
+    previousMatch: "Previous match",
+    nextMatch: "Next match",
+    close: "Close",
+    replace: "Replace",
+    replaceAll: "Replace all",
+    revertRaw: "Revert to raw model output (before post-processing)",
   },
   ar: {
     title: "قارئ الصور برو",
@@ -138,7 +452,7 @@ export const translations = {
     editor: "محرر النصوص",
     copy: "نسخ النص",
     copied: "تم النسخ",
-    export: "تصدير Word",
+    export: "تصدير",
     downloaded: "تم التحميل",
     image: "صورة",
     originalImage: "الأصلية",
@@ -175,11 +489,168 @@ export const translations = {
     toastInfo: "معلومات",
     copySuccess: "تم نسخ النص بنجاح",
     exportSuccess: "ملف Word جاهز",
-    fileTypeWarning: "يرجى اختيار ملف صورة فقط",
+    fileTypeWarning: "يرجى اختيار ملف صورة أو PDF فقط",
     dailyLimit: "الحد اليومي",
     remaining: "المتبقي",
     freeTierNote: "بناءً على خطة Gemini المجانية",
     plan: "الخطة النشطة",
+    ocrProvider: "محرك استخراج النص",
+    ocrProviderDesc: "الخدمة التي تُرسل إليها الصور لاستخراج النص",
+    providerBaseUrl: "عنوان الخدمة",
+    providerModel: "النموذج",
+    providerApiKey: "مفتاح API للخدمة",
+    tesseractLanguages: "لغات التعرف (مثال: ara+eng)",
+    loadingRenderingPdf: "تجهيز صفحات PDF...",
+    page: "صفحة",
+    batchQueue: "قائمة المعالجة الجماعية",
+    batchStatusPending: "قيد الانتظار",
+    batchStatusRunning: "قيد المعالجة",
+    batchStatusDone: "تم",
+    batchStatusFailed: "فشل",
+    batchStatusRetry: "إعادة المحاولة",
+    pause: "إيقاف مؤقت",
+    resume: "استئناف",
+    cancel: "إلغاء",
+    clear: "مسح",
+    concurrency: "المعالجة المتزامنة",
+    openInEditor: "فتح في المحرر",
+    exportAll: "تصدير الكل إلى Word",
+    retry: "إعادة المحاولة",
+    remove: "حذف",
+    cancelled: "تم الإلغاء",
+    layoutMode: "وضع التخطيط",
+    layoutModeDesc: "استلام الكتل والأسطر مع مواقعها في الصورة",
+    confidence: "الثقة",
+    extractionMode: "وضع الاستخراج",
+    textMode: "نص عادي",
+    tableMode: "جدول",
+    tableModeDesc: "اكتشاف الجداول في الفواتير والنماذج مع تصدير Excel و CSV",
+    textView: "نص",
+    addRow: "إضافة صف",
+    addColumn: "إضافة عمود",
+    history: "السجل",
+    historyEmpty: "لا توجد نتائج محفوظة بعد.",
+    historyStorage: "المساحة المستخدمة",
+    historyEdited: "معدّل",
+    confirmClearHistory: "هل تريد حذف جميع النتائج المحفوظة؟",
+    searchHistory: "ابحث في النتائج...",
+    noSearchResults: "لم يتم العثور على نتائج.",
+    preprocessing: "المعالجة المسبقة للصورة",
+    preprocessingDesc: "لصور الهاتف للمستندات المائلة أو الخافتة أو المظللة.",
+    autoRotate: "تدوير تلقائي (EXIF)",
+    deskew: "تصحيح الميلان",
+    grayscale: "تدرج رمادي",
+    autoContrast: "تباين تلقائي",
+    denoise: "إزالة التشويش",
+    binarize: "تحويل ثنائي تكيفي",
+    before: "قبل",
+    after: "بعد",
+    loadingPreprocessing: "جارٍ تحسين الصورة...",
+    regionSelect: "تحديد المناطق",
+    regionSelectDesc: "اختر أجزاء من الصورة قبل الاستخراج",
+    regionSelectHelp: "اسحب على الصورة لتحديد المناطق؛ تُقرأ بالترتيب المدرج.",
+    region: "منطقة",
+    wholeImage: "الصورة كاملة",
+    extract: "استخراج النص",
+    moveUp: "نقل لأعلى",
+    moveDown: "نقل لأسفل",
+    perspective: "تصحيح المنظور",
+    perspectiveDesc: "تسوية صور الصفحات الملتقطة بزاوية",
+    perspectiveHelp: "اسحب الزوايا إلى حواف الصفحة.",
+    autoDetect: "كشف تلقائي",
+    useOriginal: "استخدام الأصل",
+    apply: "تطبيق",
+    loadingFlattening: "جارٍ تسوية الصفحة...",
+    tiling: "تقسيم الصور الكبيرة",
+    tilingDesc: "قراءة لقطات الشاشة الطويلة والمسح الكبير دون تصغير، حتى في الوضع الاقتصادي",
+    tile: "جزء",
+    errorInvalidKey: "مفتاح API غير صالح. يرجى التحقق من مفتاحك.",
+    errorMissingKey: "لم يتم العثور على مفتاح API. يرجى إدخال مفتاحك في الإعدادات.",
+    errorQuota: "تم تجاوز حصة الطلبات. حاول مرة أخرى بعد قليل.",
+    errorSafety: "تم حظر الاستجابة بواسطة مرشحات الأمان.",
+    errorNetwork: "خطأ في الشبكة. يرجى التحقق من اتصالك.",
+    errorServer: "خدمة OCR غير متاحة. حاول لاحقًا.",
+    errorEmpty: "لم يتم العثور على نص في هذه الصورة.",
+    errorUnknown: "فشل استخراج النص من الصورة",
+    retryingIn: "إعادة المحاولة خلال",
+    rerun: "إعادة التشغيل",
+    rerunDesc: "الاستخراج مرة أخرى دون استخدام ذاكرة النتائج",
+    fromCache: "تم التحميل من الذاكرة المؤقتة",
+    toastFromCache: "تمت قراءة هذه الصورة مسبقاً بنفس الإعدادات، لذا لم يُرسل أي طلب. استخدم «إعادة التشغيل» لقراءتها مجدداً.",
+    errorKeysExhausted: "وصلت جميع مفاتيح API إلى حدها. أضف مفتاحًا آخر أو حاول لاحقًا.",
+    keyRotation: "تدوير المفاتيح",
+    keyRotationDesc: "التناوب يوزع الطلبات على المفاتيح؛ الاحتياطي يستخدم المفتاح الأول حتى ينفد.",
+    rotationRoundRobin: "تناوب",
+    rotationFailover: "احتياطي",
+    keyLabel: "التسمية",
+    builtInKey: "المفتاح المدمج",
+    validateKey: "التحقق من المفتاح",
+    keyDuplicate: "هذا المفتاح موجود بالفعل في القائمة.",
+    resetTimeZone: "المنطقة الزمنية لإعادة التعيين",
+    addKey: "إضافة",
+    apiKeysHelp: "تُخزَّن المفاتيح في متصفحك فقط. عندما يصل مفتاح إلى حده اليومي، تنتقل الطلبات إلى المفتاح التالي.",
+    errorKeysLocked: "مفاتيح API مقفلة. افتحها بعبارة المرور للمتابعة.",
+    wrongPassphrase: "عبارة المرور غير صحيحة.",
+    unlockKeys: "فتح مفاتيح API",
+    unlockKeysDesc: "مفاتيح API الخاصة بك مشفرة. أدخل عبارة المرور لاستخدامها.",
+    unlockLater: "لاحقًا",
+    unlock: "فتح",
+    passphrase: "عبارة المرور",
+    confirmPassphrase: "تأكيد عبارة المرور",
+    passphraseMismatch: "عبارتا المرور غير متطابقتين.",
+    passphraseHint: "8 أحرف على الأقل. لا تُخزَّن عبارة المرور؛ وإذا نسيتها فلا يمكن استعادة المفاتيح.",
+    keyEncryption: "تشفير المفاتيح",
+    keyEncryptionDesc: "شفّر المفاتيح المخزنة بعبارة مرور.",
+    keyEncryptionOn: "المفاتيح مشفرة ومفتوحة.",
+    keysLocked: "المفاتيح مقفلة.",
+    encryptKeys: "تشفير",
+    lockNow: "قفل الآن",
+    autoLock: "القفل التلقائي بعد",
+    autoLockNever: "أبدًا",
+    minutes: "دقيقة",
+    disableEncryption: "إزالة التشفير",
+    confirmDisableEncryption: "ستُخزَّن المفاتيح دون تشفير في هذا المتصفح. هل تريد المتابعة؟",
+    allowUrlKey: "السماح باستيراد مفتاح من معامل ?key= في الرابط",
+    urlKeyIgnored: "تم تجاهل المفتاح الموجود في الرابط؛ استيراد المفاتيح من الرابط معطل في الإعدادات.",
+    undo: "تراجع",
+    redo: "إعادة",
+    revertOriginal: "العودة إلى النص المستخرج",
+    showChanges: "عرض التغييرات",
+    noChanges: "لا توجد تغييرات عن النص المستخرج.",
+    wordsAdded: "كلمة مضافة",
+    wordsRemoved: "كلمة محذوفة",
+    normalizer: "توحيد النص الفارسي",
+    normalizerDesc: "تُطبَّق هذه القواعد على النص بعد الاستخراج وتنظّمه دون تغيير معناه.",
+    normalizeArabicLetters: "تحويل ي وك العربيتين إلى ی وک الفارسيتين",
+    normalizeZwnj: "فاصل غير واصل للسوابق واللواحق",
+    normalizePunctuation: "تصحيح المسافات حول علامات الترقيم",
+    normalizeKashida: "حذف الكشيدة (ـ)",
+    normalizeWhitespace: "دمج المسافات المتكررة",
+    normalizeDigits: "تحويل الأرقام إلى الفارسية",
+    postProcessing: "المعالجة اللاحقة",
+    postProcessingDesc: "تُنفَّذ الخطوات المفعّلة على النص المستخرج بترتيب القائمة. يمكنك استيراد القواعد أو تصديرها بصيغة JSON لمشاركتها مع فريقك.",
+    builtinOptionLetters: "ترقيم الخيارات المكتوبة بالحروف أ) ب) ج) د)",
+    builtinCollapseBlankLines: "دمج الأسطر الفارغة المتتالية",
+    addRule: "إضافة قاعدة",
+    ruleName: "اسم القاعدة",
+    findPattern: "بحث",
+    replaceWith: "استبدال بـ",
+    useRegex: "تعبير نمطي",
+    caseSensitive: "مطابقة حالة الأحرف",
+    importRules: "استيراد القواعد (JSON)",
+    exportRules: "تصدير القواعد (JSON)",
+    rulesImported: "تم استيراد القواعد. احفظ الإعدادات لتطبيقها.",
+    rulesImportFailed: "لا يحتوي هذا الملف على قواعد صالحة.",
+    invalidPattern: "نمط غير صالح",
+    findReplace: "بحث واستبدال",
+    wholeWord: "الكلمة كاملة",
+    ignoreLetterVariants: "تجاهل الفاصل غير الواصل وأشكال الحروف العربية/الفارسية (ي/ی، ك/ک)",
+    previousMatch: "المطابقة السابقة",
+    nextMatch: "المطابقة التالية",
+    close: "إغلاق",
+    replace: "استبدال",
+    replaceAll: "استبدال الكل",
+    revertRaw: "العودة إلى مخرجات النموذج الخام (قبل المعالجة)",
   },
   tr: {
     title: "AxKhan Pro",
@@ -198,7 +669,7 @@ export const translations = {
     editor: "Metin Editörü",
     copy: "Kopyala",
     copied: "Kopyalandı",
-    export: "Word İndir",
+    export: "Dışa aktar",
     downloaded: "İndirildi",
     image: "Resim",
     originalImage: "Orijinal",
@@ -235,11 +706,168 @@ export const translations = {
     toastInfo: "Bilgi",
     copySuccess: "Metin başarıyla kopyalandı",
     exportSuccess: "Word dosyası hazır",
-    fileTypeWarning: "Lütfen sadece resim dosyası seçin",
+    fileTypeWarning: "Lütfen sadece resim veya PDF dosyası seçin",
     dailyLimit: "Günlük Limit",
     remaining: "Kalan",
     freeTierNote: "Gemini Ücretsiz Planına Göre",
     plan: "Aktif Plan",
+    ocrProvider: "OCR Motoru",
+    ocrProviderDesc: "Metin çıkarma için resimlerin gönderildiği servis",
+    providerBaseUrl: "Temel URL",
+    providerModel: "Model",
+    providerApiKey: "Servis API Anahtarı",
+    tesseractLanguages: "Tanıma dilleri (örn. tur+eng)",
+    loadingRenderingPdf: "PDF sayfaları hazırlanıyor...",
+    page: "Sayfa",
+    batchQueue: "Toplu İşlem Kuyruğu",
+    batchStatusPending: "Bekliyor",
+    batchStatusRunning: "İşleniyor",
+    batchStatusDone: "Tamamlandı",
+    batchStatusFailed: "Başarısız",
+    batchStatusRetry: "Yeniden deneniyor",
+    pause: "Duraklat",
+    resume: "Devam et",
+    cancel: "İptal",
+    clear: "Temizle",
+    concurrency: "Eşzamanlılık",
+    openInEditor: "Editörde aç",
+    exportAll: "Tümünü Word'e aktar",
+    retry: "Tekrar dene",
+    remove: "Kaldır",
+    cancelled: "İptal edildi",
+    layoutMode: "Düzen Modu",
+    layoutModeDesc: "Blokları ve satırları resimdeki konumlarıyla al",
+    confidence: "Güven",
+    extractionMode: "Çıkarma Modu",
+    textMode: "Düz Metin",
+    tableMode: "Tablo",
+    tableModeDesc: "Fatura ve formlardaki tabloları algıla, Excel ve CSV'ye aktar",
+    textView: "Metin",
+    addRow: "Satır ekle",
+    addColumn: "Sütun ekle",
+    history: "Geçmiş",
+    historyEmpty: "Henüz kaydedilmiş sonuç yok.",
+    historyStorage: "Kullanılan alan",
+    historyEdited: "Düzenlendi",
+    confirmClearHistory: "Kaydedilen tüm sonuçlar silinsin mi?",
+    searchHistory: "Sonuçlarda ara...",
+    noSearchResults: "Eşleşme bulunamadı.",
+    preprocessing: "Görüntü Ön İşleme",
+    preprocessingDesc: "Eğik, loş veya gölgeli belgelerin telefon fotoğrafları için.",
+    autoRotate: "Otomatik döndür (EXIF)",
+    deskew: "Eğrilik düzelt",
+    grayscale: "Gri tonlama",
+    autoContrast: "Otomatik kontrast",
+    denoise: "Gürültü azalt",
+    binarize: "Uyarlamalı ikilileştirme",
+    before: "Önce",
+    after: "Sonra",
+    loadingPreprocessing: "Görüntü iyileştiriliyor...",
+    regionSelect: "Bölge Seçimi",
+    regionSelectDesc: "Çıkarmadan önce görüntünün bölümlerini seçin",
+    regionSelectHelp: "Bölgeleri işaretlemek için görüntü üzerinde sürükleyin; listelenen sırayla okunurlar.",
+    region: "Bölge",
+    wholeImage: "Tüm görüntü",
+    extract: "Metni çıkar",
+    moveUp: "Yukarı taşı",
+    moveDown: "Aşağı taşı",
+    perspective: "Perspektif Düzeltme",
+    perspectiveDesc: "Açılı çekilmiş sayfa fotoğraflarını düzleştir",
+    perspectiveHelp: "Köşeleri sayfa kenarlarına sürükleyin.",
+    autoDetect: "Otomatik algıla",
+    useOriginal: "Orijinali kullan",
+    apply: "Uygula",
+    loadingFlattening: "Sayfa düzleştiriliyor...",
+    tiling: "Büyük Görüntüleri Böl",
+    tilingDesc: "Uzun ekran görüntülerini ve büyük taramaları Ekonomik Modda bile küçültmeden oku",
+    tile: "Parça",
+    errorInvalidKey: "API anahtarı geçersiz. Lütfen anahtarınızı kontrol edin.",
+    errorMissingKey: "API anahtarı bulunamadı. Lütfen Ayarlar'dan anahtarınızı girin.",
+    errorQuota: "İstek kotası aşıldı. Lütfen biraz sonra tekrar deneyin.",
+    errorSafety: "Yanıt güvenlik filtreleri tarafından engellendi.",
+    errorNetwork: "Ağ hatası. Lütfen bağlantınızı kontrol edin.",
+    errorServer: "OCR hizmeti kullanılamıyor. Lütfen daha sonra tekrar deneyin.",
+    errorEmpty: "Bu görüntüde metin bulunamadı.",
+    errorUnknown: "Görüntüden metin çıkarılamadı",
+    retryingIn: "Yeniden deneniyor:",
+    rerun: "Yeniden çalıştır",
+    rerunDesc: "Sonuç önbelleğini kullanmadan yeniden çıkar",
+    fromCache: "Önbellekten yüklendi",
+    toastFromCache: "Bu görsel aynı ayarlarla zaten okunmuştu, bu yüzden istek gönderilmedi. Tekrar okumak için Yeniden çalıştır'ı kullanın.",
+    errorKeysExhausted: "Tüm API anahtarları kotalarına ulaştı. Başka bir anahtar ekleyin veya daha sonra tekrar deneyin.",
+    keyRotation: "Anahtar rotasyonu",
+    keyRotationDesc: "Sıralı mod istekleri anahtarlara dağıtır; yedekleme modu ilk anahtarı bitene kadar kullanır.",
+    rotationRoundRobin: "Sıralı",
+    rotationFailover: "Yedekleme",
+    keyLabel: "Etiket",
+    builtInKey: "Yerleşik anahtar",
+    validateKey: "Anahtarı doğrula",
+    keyDuplicate: "Bu anahtar zaten listede.",
+    resetTimeZone: "Sıfırlama saat dilimi",
+    addKey: "Ekle",
+    apiKeysHelp: "Anahtarlar yalnızca tarayıcınızda saklanır. Bir anahtar günlük sınırına ulaştığında istekler sonrakine geçer.",
+    errorKeysLocked: "API anahtarlarınız kilitli. Devam etmek için parolanızla kilidi açın.",
+    wrongPassphrase: "Parola yanlış.",
+    unlockKeys: "API anahtarlarının kilidini aç",
+    unlockKeysDesc: "API anahtarlarınız şifreli. Kullanmak için parolanızı girin.",
+    unlockLater: "Daha sonra",
+    unlock: "Kilidi aç",
+    passphrase: "Parola",
+    confirmPassphrase: "Parolayı onayla",
+    passphraseMismatch: "Parolalar eşleşmiyor.",
+    passphraseHint: "En az 8 karakter. Parola hiçbir yerde saklanmaz; unutursanız anahtarlar kurtarılamaz.",
+    keyEncryption: "Anahtar şifreleme",
+    keyEncryptionDesc: "Kayıtlı anahtarları bir parolayla şifreleyin.",
+    keyEncryptionOn: "Anahtarlar şifreli ve kilidi açık.",
+    keysLocked: "Anahtarlar kilitli.",
+    encryptKeys: "Şifrele",
+    lockNow: "Şimdi kilitle",
+    autoLock: "Otomatik kilitleme",
+    autoLockNever: "Asla",
+    minutes: "dk",
+    disableEncryption: "Şifrelemeyi kaldır",
+    confirmDisableEncryption: "Anahtarlar bu tarayıcıda şifresiz saklanacak. Devam edilsin mi?",
+    allowUrlKey: "?key= URL parametresinden anahtar içe aktarmaya izin ver",
+    urlKeyIgnored: "URL'deki anahtar yok sayıldı; URL'den anahtar içe aktarma Ayarlar'da kapalı.",
+    undo: "Geri al",
+    redo: "Yinele",
+    revertOriginal: "Çıkarılan metne dön",
+    showChanges: "Değişiklikleri göster",
+    noChanges: "Çıkarılan metinde değişiklik yok.",
+    wordsAdded: "eklendi",
+    wordsRemoved: "silindi",
+    normalizer: "Farsça Metin Normalleştirme",
+    normalizerDesc: "Bu kurallar çıkarımdan sonra metne uygulanır ve anlamını değiştirmeden düzenler.",
+    normalizeArabicLetters: "Arapça ي ve ك harflerini Farsça ی ve ک yap",
+    normalizeZwnj: "Ön ve son ekler için yarım boşluk (ZWNJ)",
+    normalizePunctuation: "Noktalama işaretleri etrafındaki boşlukları düzelt",
+    normalizeKashida: "Keşideyi kaldır (ـ)",
+    normalizeWhitespace: "Tekrarlanan boşlukları birleştir",
+    normalizeDigits: "Rakamları Farsçaya çevir",
+    postProcessing: "Son işleme",
+    postProcessingDesc: "Etkin adımlar çıkarılan metne liste sırasıyla uygulanır. Kuralları ekibinizle paylaşmak için JSON olarak içe veya dışa aktarın.",
+    builtinOptionLetters: "الف) ب) ج) د) seçeneklerini numaralandır",
+    builtinCollapseBlankLines: "Art arda boş satırları birleştir",
+    addRule: "Kural ekle",
+    ruleName: "Kural adı",
+    findPattern: "Bul",
+    replaceWith: "Şununla değiştir",
+    useRegex: "Düzenli ifade",
+    caseSensitive: "Büyük/küçük harf duyarlı",
+    importRules: "Kuralları içe aktar (JSON)",
+    exportRules: "Kuralları dışa aktar (JSON)",
+    rulesImported: "Kurallar içe aktarıldı. Uygulamak için ayarları kaydedin.",
+    rulesImportFailed: "Bu dosya geçerli kurallar içermiyor.",
+    invalidPattern: "Geçersiz desen",
+    findReplace: "Bul ve değiştir",
+    wholeWord: "Tam sözcük",
+    ignoreLetterVariants: "ZWNJ'yi ve Arapça/Farsça harf biçimlerini yok say (ي/ی, ك/ک)",
+    previousMatch: "Önceki eşleşme",
+    nextMatch: "Sonraki eşleşme",
+    close: "Kapat",
+    replace: "Değiştir",
+    replaceAll: "Tümünü değiştir",
+    revertRaw: "Ham model çıktısına dön (son işlemeden önce)",
   },
   de: {
     title: "AxKhan Pro",
@@ -258,7 +886,7 @@ export const translations = {
     editor: "Texteditor",
     copy: "Kopieren",
     copied: "Kopiert",
-    export: "Word Export",
+    export: "Exportieren",
     downloaded: "Heruntergeladen",
     image: "Bild",
     originalImage: "Original",
@@ -295,11 +923,168 @@ export const translations = {
     toastInfo: "Info",
     copySuccess: "Text erfolgreich kopiert",
     exportSuccess: "Word-Datei ist bereit",
-    fileTypeWarning: "Bitte wählen Sie nur eine Bilddatei",
+    fileTypeWarning: "Bitte wählen Sie nur eine Bild- oder PDF-Datei",
     dailyLimit: "Tageslimit",
     remaining: "Verbleibend",
     freeTierNote: "Basierend auf Gemini Free Tier",
     plan: "Aktiver Plan",
+    ocrProvider: "OCR-Engine",
+    ocrProviderDesc: "Dienst, an den Bilder zur Texterkennung gesendet werden",
+    providerBaseUrl: "Basis-URL",
+    providerModel: "Modell",
+    providerApiKey: "API-Schlüssel des Dienstes",
+    tesseractLanguages: "Erkennungssprachen (z. B. deu+eng)",
+    loadingRenderingPdf: "PDF-Seiten werden gerendert...",
+    page: "Seite",
+    batchQueue: "Stapelverarbeitung",
+    batchStatusPending: "Wartend",
+    batchStatusRunning: "Läuft",
+    batchStatusDone: "Fertig",
+    batchStatusFailed: "Fehlgeschlagen",
+    batchStatusRetry: "Wiederholung",
+    pause: "Pause",
+    resume: "Fortsetzen",
+    cancel: "Abbrechen",
+    clear: "Leeren",
+    concurrency: "Parallelität",
+    openInEditor: "Im Editor öffnen",
+    exportAll: "Alle nach Word exportieren",
+    retry: "Erneut versuchen",
+    remove: "Entfernen",
+    cancelled: "Abgebrochen",
+    layoutMode: "Layout-Modus",
+    layoutModeDesc: "Blöcke und Zeilen mit ihrer Position im Bild erhalten",
+    confidence: "Konfidenz",
+    extractionMode: "Extraktionsmodus",
+    textMode: "Nur Text",
+    tableMode: "Tabelle",
+    tableModeDesc: "Tabellen in Rechnungen und Formularen erkennen, Export nach Excel und CSV",
+    textView: "Text",
+    addRow: "Zeile hinzufügen",
+    addColumn: "Spalte hinzufügen",
+    history: "Verlauf",
+    historyEmpty: "Noch keine gespeicherten Ergebnisse.",
+    historyStorage: "Belegter Speicher",
+    historyEdited: "Bearbeitet",
+    confirmClearHistory: "Alle gespeicherten Ergebnisse löschen?",
+    searchHistory: "Ergebnisse durchsuchen...",
+    noSearchResults: "Keine Treffer gefunden.",
+    preprocessing: "Bildvorverarbeitung",
+    preprocessingDesc: "Für Handyfotos schiefer, dunkler oder verschatteter Dokumente.",
+    autoRotate: "Automatisch drehen (EXIF)",
+    deskew: "Begradigen",
+    grayscale: "Graustufen",
+    autoContrast: "Auto-Kontrast",
+    denoise: "Entrauschen",
+    binarize: "Adaptive Binarisierung",
+    before: "Vorher",
+    after: "Nachher",
+    loadingPreprocessing: "Bild wird verbessert...",
+    regionSelect: "Bereichsauswahl",
+    regionSelectDesc: "Bildbereiche vor der Extraktion wählen",
+    regionSelectHelp: "Ziehen Sie auf dem Bild, um Bereiche zu markieren; sie werden in der gelisteten Reihenfolge gelesen.",
+    region: "Bereich",
+    wholeImage: "Ganzes Bild",
+    extract: "Text extrahieren",
+    moveUp: "Nach oben",
+    moveDown: "Nach unten",
+    perspective: "Perspektivkorrektur",
+    perspectiveDesc: "Schräg fotografierte Seiten entzerren",
+    perspectiveHelp: "Ziehen Sie die Ecken auf die Seitenränder.",
+    autoDetect: "Automatisch erkennen",
+    useOriginal: "Original verwenden",
+    apply: "Anwenden",
+    loadingFlattening: "Seite wird entzerrt...",
+    tiling: "Große Bilder kacheln",
+    tilingDesc: "Lange Screenshots und große Scans ohne Verkleinern lesen, auch im Sparmodus",
+    tile: "Kachel",
+    errorInvalidKey: "Der API-Schlüssel ist ungültig. Bitte prüfen Sie Ihren Schlüssel.",
+    errorMissingKey: "Kein API-Schlüssel gefunden. Bitte in den Einstellungen eingeben.",
+    errorQuota: "Anfragekontingent überschritten. Bitte später erneut versuchen.",
+    errorSafety: "Die Antwort wurde von Sicherheitsfiltern blockiert.",
+    errorNetwork: "Netzwerkfehler. Bitte Verbindung prüfen.",
+    errorServer: "Der OCR-Dienst ist nicht erreichbar. Bitte später erneut versuchen.",
+    errorEmpty: "In diesem Bild wurde kein Text gefunden.",
+    errorUnknown: "Text konnte nicht aus dem Bild extrahiert werden",
+    retryingIn: "Neuer Versuch in",
+    rerun: "Erneut ausführen",
+    rerunDesc: "Erneut erkennen, ohne den Ergebnis-Cache zu verwenden",
+    fromCache: "Aus dem Cache geladen",
+    toastFromCache: "Dieses Bild wurde bereits mit denselben Einstellungen gelesen, daher wurde keine Anfrage gesendet. Mit „Erneut ausführen“ wird es neu gelesen.",
+    errorKeysExhausted: "Alle API-Schlüssel haben ihr Kontingent erreicht. Fügen Sie einen weiteren Schlüssel hinzu oder versuchen Sie es später erneut.",
+    keyRotation: "Schlüsselrotation",
+    keyRotationDesc: "Reihum verteilt Anfragen auf alle Schlüssel; Failover nutzt den ersten Schlüssel, bis er erschöpft ist.",
+    rotationRoundRobin: "Reihum",
+    rotationFailover: "Failover",
+    keyLabel: "Bezeichnung",
+    builtInKey: "Integrierter Schlüssel",
+    validateKey: "Schlüssel prüfen",
+    keyDuplicate: "Dieser Schlüssel ist bereits in der Liste.",
+    resetTimeZone: "Zeitzone für Zurücksetzung",
+    addKey: "Hinzufügen",
+    apiKeysHelp: "Schlüssel werden nur in Ihrem Browser gespeichert. Erreicht ein Schlüssel sein Tageslimit, gehen Anfragen an den nächsten.",
+    errorKeysLocked: "Ihre API-Schlüssel sind gesperrt. Entsperren Sie sie mit Ihrer Passphrase, um fortzufahren.",
+    wrongPassphrase: "Falsche Passphrase.",
+    unlockKeys: "API-Schlüssel entsperren",
+    unlockKeysDesc: "Ihre API-Schlüssel sind verschlüsselt. Geben Sie Ihre Passphrase ein, um sie zu verwenden.",
+    unlockLater: "Später",
+    unlock: "Entsperren",
+    passphrase: "Passphrase",
+    confirmPassphrase: "Passphrase bestätigen",
+    passphraseMismatch: "Die Passphrasen stimmen nicht überein.",
+    passphraseHint: "Mindestens 8 Zeichen. Die Passphrase wird nicht gespeichert; wenn Sie sie vergessen, sind die Schlüssel verloren.",
+    keyEncryption: "Schlüsselverschlüsselung",
+    keyEncryptionDesc: "Gespeicherte Schlüssel mit einer Passphrase verschlüsseln.",
+    keyEncryptionOn: "Schlüssel sind verschlüsselt und entsperrt.",
+    keysLocked: "Schlüssel sind gesperrt.",
+    encryptKeys: "Verschlüsseln",
+    lockNow: "Jetzt sperren",
+    autoLock: "Automatisch sperren nach",
+    autoLockNever: "Nie",
+    minutes: "Min.",
+    disableEncryption: "Verschlüsselung entfernen",
+    confirmDisableEncryption: "Die Schlüssel werden unverschlüsselt in diesem Browser gespeichert. Fortfahren?",
+    allowUrlKey: "Import eines Schlüssels über den URL-Parameter ?key= erlauben",
+    urlKeyIgnored: "Der Schlüssel in der URL wurde ignoriert; der Import aus der URL ist in den Einstellungen deaktiviert.",
+    undo: "Rückgängig",
+    redo: "Wiederholen",
+    revertOriginal: "Auf erkannten Text zurücksetzen",
+    showChanges: "Änderungen anzeigen",
+    noChanges: "Keine Änderungen gegenüber dem erkannten Text.",
+    wordsAdded: "hinzugefügt",
+    wordsRemoved: "entfernt",
+    normalizer: "Persische Textnormalisierung",
+    normalizerDesc: "Diese Regeln werden nach der Extraktion auf den Text angewendet und bereinigen ihn, ohne die Bedeutung zu ändern.",
+    normalizeArabicLetters: "Arabisches ي und ك zu persischem ی und ک",
+    normalizeZwnj: "Halbleerzeichen (ZWNJ) für Prä- und Suffixe",
+    normalizePunctuation: "Abstände um Satzzeichen korrigieren",
+    normalizeKashida: "Kaschida entfernen (ـ)",
+    normalizeWhitespace: "Mehrfache Leerzeichen zusammenfassen",
+    normalizeDigits: "Ziffern in persische umwandeln",
+    postProcessing: "Nachbearbeitung",
+    postProcessingDesc: "Aktivierte Schritte laufen in Listenreihenfolge über den extrahierten Text. Regeln lassen sich als JSON importieren oder exportieren, um sie im Team zu teilen.",
+    builtinOptionLetters: "Optionen الف) ب) ج) د) nummerieren",
+    builtinCollapseBlankLines: "Aufeinanderfolgende Leerzeilen zusammenfassen",
+    addRule: "Regel hinzufügen",
+    ruleName: "Regelname",
+    findPattern: "Suchen",
+    replaceWith: "Ersetzen durch",
+    useRegex: "Regulärer Ausdruck",
+    caseSensitive: "Groß-/Kleinschreibung beachten",
+    importRules: "Regeln importieren (JSON)",
+    exportRules: "Regeln exportieren (JSON)",
+    rulesImported: "Regeln importiert. Zum Übernehmen Einstellungen speichern.",
+    rulesImportFailed: "Diese Datei enthält keine gültigen Regeln.",
+    invalidPattern: "Ungültiges Muster",
+    findReplace: "Suchen und ersetzen",
+    wholeWord: "Ganzes Wort",
+    ignoreLetterVariants: "ZWNJ und arabische/persische Buchstabenformen ignorieren (ي/ی, ك/ک)",
+    previousMatch: "Vorheriger Treffer",
+    nextMatch: "Nächster Treffer",
+    close: "Schließen",
+    replace: "Ersetzen",
+    replaceAll: "Alle ersetzen",
+    revertRaw: "Auf rohe Modellausgabe zurücksetzen (vor der Nachbearbeitung)",
   },
   fr: {
     title: "AxKhan Pro",
@@ -318,7 +1103,7 @@ export const translations = {
     editor: "Éditeur de texte",
     copy: "Copier",
     copied: "Copié",
-    export: "Exporter Word",
+    export: "Exporter",
     downloaded: "Téléchargé",
     image: "Image",
     originalImage: "Original",
@@ -355,11 +1140,168 @@ export const translations = {
     toastInfo: "Info",
     copySuccess: "Texte copié avec succès",
     exportSuccess: "Fichier Word prêt",
-    fileTypeWarning: "Veuillez sélectionner un fichier image uniquement",
+    fileTypeWarning: "Veuillez sélectionner uniquement une image ou un PDF",
     dailyLimit: "Limite quotidienne",
     remaining: "Restant",
     freeTierNote: "Basé sur le niveau gratuit Gemini",
     plan: "Plan actif",
+    ocrProvider: "Moteur OCR",
+    ocrProviderDesc: "Service auquel les images sont envoyées pour l'extraction",
+    providerBaseUrl: "URL de base",
+    providerModel: "Modèle",
+    providerApiKey: "Clé API du service",
+    tesseractLanguages: "Langues de reconnaissance (ex. fra+eng)",
+    loadingRenderingPdf: "Rendu des pages PDF...",
+    page: "Page",
+    batchQueue: "File de traitement par lot",
+    batchStatusPending: "En attente",
+    batchStatusRunning: "En cours",
+    batchStatusDone: "Terminé",
+    batchStatusFailed: "Échec",
+    batchStatusRetry: "Nouvelle tentative",
+    pause: "Pause",
+    resume: "Reprendre",
+    cancel: "Annuler",
+    clear: "Vider",
+    concurrency: "Simultanéité",
+    openInEditor: "Ouvrir dans l'éditeur",
+    exportAll: "Tout exporter en Word",
+    retry: "Réessayer",
+    remove: "Supprimer",
+    cancelled: "Annulé",
+    layoutMode: "Mode mise en page",
+    layoutModeDesc: "Recevoir blocs et lignes avec leur position dans l'image",
+    confidence: "Confiance",
+    extractionMode: "Mode d'extraction",
+    textMode: "Texte brut",
+    tableMode: "Tableau",
+    tableModeDesc: "Détecter les tableaux des factures et formulaires, export Excel et CSV",
+    textView: "Texte",
+    addRow: "Ajouter une ligne",
+    addColumn: "Ajouter une colonne",
+    history: "Historique",
+    historyEmpty: "Aucun résultat enregistré pour le moment.",
+    historyStorage: "Stockage utilisé",
+    historyEdited: "Modifié",
+    confirmClearHistory: "Supprimer tous les résultats enregistrés ?",
+    searchHistory: "Rechercher dans les résultats...",
+    noSearchResults: "Aucune correspondance trouvée.",
+    preprocessing: "Prétraitement de l'image",
+    preprocessingDesc: "Pour les photos de documents inclinés, sombres ou ombrés.",
+    autoRotate: "Rotation auto (EXIF)",
+    deskew: "Redresser",
+    grayscale: "Niveaux de gris",
+    autoContrast: "Contraste auto",
+    denoise: "Débruiter",
+    binarize: "Binarisation adaptative",
+    before: "Avant",
+    after: "Après",
+    loadingPreprocessing: "Amélioration de l'image...",
+    regionSelect: "Sélection de zones",
+    regionSelectDesc: "Choisir des zones de l'image avant l'extraction",
+    regionSelectHelp: "Faites glisser sur l'image pour marquer des zones ; elles sont lues dans l'ordre de la liste.",
+    region: "Zone",
+    wholeImage: "Image entière",
+    extract: "Extraire le texte",
+    moveUp: "Monter",
+    moveDown: "Descendre",
+    perspective: "Correction de perspective",
+    perspectiveDesc: "Redresser les photos de pages prises en biais",
+    perspectiveHelp: "Faites glisser les coins sur les bords de la page.",
+    autoDetect: "Détection auto",
+    useOriginal: "Utiliser l'original",
+    apply: "Appliquer",
+    loadingFlattening: "Redressement de la page...",
+    tiling: "Découper les grandes images",
+    tilingDesc: "Lire les longues captures et grands scans sans réduction, même en mode Éco",
+    tile: "Tuile",
+    errorInvalidKey: "La clé API n'est pas valide. Veuillez vérifier votre clé.",
+    errorMissingKey: "Aucune clé API trouvée. Veuillez la saisir dans les paramètres.",
+    errorQuota: "Quota de requêtes dépassé. Réessayez dans un instant.",
+    errorSafety: "La réponse a été bloquée par les filtres de sécurité.",
+    errorNetwork: "Erreur réseau. Vérifiez votre connexion.",
+    errorServer: "Le service OCR est indisponible. Réessayez plus tard.",
+    errorEmpty: "Aucun texte trouvé dans cette image.",
+    errorUnknown: "Échec de l'extraction du texte de l'image",
+    retryingIn: "Nouvelle tentative dans",
+    rerun: "Relancer",
+    rerunDesc: "Extraire à nouveau sans utiliser le cache des résultats",
+    fromCache: "Chargé depuis le cache",
+    toastFromCache: "Cette image a déjà été lue avec les mêmes réglages, aucune requête n'a été envoyée. Utilisez Relancer pour la relire.",
+    errorKeysExhausted: "Toutes les clés API ont atteint leur quota. Ajoutez une autre clé ou réessayez plus tard.",
+    keyRotation: "Rotation des clés",
+    keyRotationDesc: "Le tourniquet répartit les requêtes entre les clés ; le basculement utilise la première clé jusqu'à épuisement.",
+    rotationRoundRobin: "Tourniquet",
+    rotationFailover: "Basculement",
+    keyLabel: "Libellé",
+    builtInKey: "Clé intégrée",
+    validateKey: "Vérifier la clé",
+    keyDuplicate: "Cette clé est déjà dans la liste.",
+    resetTimeZone: "Fuseau de réinitialisation",
+    addKey: "Ajouter",
+    apiKeysHelp: "Les clés sont stockées uniquement dans votre navigateur. Lorsqu'une clé atteint sa limite quotidienne, les requêtes passent à la suivante.",
+    errorKeysLocked: "Vos clés API sont verrouillées. Déverrouillez-les avec votre phrase secrète pour continuer.",
+    wrongPassphrase: "Phrase secrète incorrecte.",
+    unlockKeys: "Déverrouiller les clés API",
+    unlockKeysDesc: "Vos clés API sont chiffrées. Saisissez votre phrase secrète pour les utiliser.",
+    unlockLater: "Plus tard",
+    unlock: "Déverrouiller",
+    passphrase: "Phrase secrète",
+    confirmPassphrase: "Confirmer la phrase secrète",
+    passphraseMismatch: "Les phrases secrètes ne correspondent pas.",
+    passphraseHint: "Au moins 8 caractères. La phrase secrète n'est jamais enregistrée ; si vous l'oubliez, les clés sont irrécupérables.",
+    keyEncryption: "Chiffrement des clés",
+    keyEncryptionDesc: "Chiffrer les clés enregistrées avec une phrase secrète.",
+    keyEncryptionOn: "Les clés sont chiffrées et déverrouillées.",
+    keysLocked: "Les clés sont verrouillées.",
+    encryptKeys: "Chiffrer",
+    lockNow: "Verrouiller",
+    autoLock: "Verrouillage auto après",
+    autoLockNever: "Jamais",
+    minutes: "min",
+    disableEncryption: "Retirer le chiffrement",
+    confirmDisableEncryption: "Les clés seront stockées non chiffrées dans ce navigateur. Continuer ?",
+    allowUrlKey: "Autoriser l'import d'une clé via le paramètre d'URL ?key=",
+    urlKeyIgnored: "La clé de l'URL a été ignorée ; l'import depuis l'URL est désactivé dans les paramètres.",
+    undo: "Annuler",
+    redo: "Rétablir",
+    revertOriginal: "Revenir au texte extrait",
+    showChanges: "Afficher les modifications",
+    noChanges: "Aucune modification par rapport au texte extrait.",
+    wordsAdded: "ajoutés",
+    wordsRemoved: "supprimés",
+    normalizer: "Normalisation du texte persan",
+    normalizerDesc: "Ces règles s'appliquent au texte après l'extraction et le nettoient sans en changer le sens.",
+    normalizeArabicLetters: "ي et ك arabes en ی et ک persans",
+    normalizeZwnj: "Demi-espace (ZWNJ) pour préfixes et suffixes",
+    normalizePunctuation: "Corriger les espaces autour de la ponctuation",
+    normalizeKashida: "Supprimer le kashida (ـ)",
+    normalizeWhitespace: "Fusionner les espaces répétés",
+    normalizeDigits: "Convertir les chiffres en persan",
+    postProcessing: "Post-traitement",
+    postProcessingDesc: "Les étapes activées s'appliquent au texte extrait dans l'ordre de la liste. Importez ou exportez les règles en JSON pour les partager avec votre équipe.",
+    builtinOptionLetters: "Numéroter les options الف) ب) ج) د)",
+    builtinCollapseBlankLines: "Fusionner les lignes vides consécutives",
+    addRule: "Ajouter une règle",
+    ruleName: "Nom de la règle",
+    findPattern: "Rechercher",
+    replaceWith: "Remplacer par",
+    useRegex: "Expression régulière",
+    caseSensitive: "Respecter la casse",
+    importRules: "Importer les règles (JSON)",
+    exportRules: "Exporter les règles (JSON)",
+    rulesImported: "Règles importées. Enregistrez les paramètres pour les appliquer.",
+    rulesImportFailed: "Ce fichier ne contient pas de règles valides.",
+    invalidPattern: "Motif invalide",
+    findReplace: "Rechercher et remplacer",
+    wholeWord: "Mot entier",
+    ignoreLetterVariants: "Ignorer le ZWNJ et les formes arabes/persanes des lettres (ي/ی, ك/ک)",
+    previousMatch: "Occurrence précédente",
+    nextMatch: "Occurrence suivante",
+    close: "Fermer",
+    replace: "Remplacer",
+    replaceAll: "Tout remplacer",
+    revertRaw: "Revenir à la sortie brute du modèle (avant post-traitement)",
   },
   es: {
     title: "AxKhan Pro",
@@ -378,7 +1320,7 @@ export const translations = {
     editor: "Editor de texto",
     copy: "Copiar",
     copied: "Copiado",
-    export: "Exportar Word",
+    export: "Exportar",
     downloaded: "Descargado",
     image: "Imagen",
     originalImage: "Original",
@@ -415,11 +1357,168 @@ export const translations = {
     toastInfo: "Info",
     copySuccess: "Texto copiado con éxito",
     exportSuccess: "Archivo Word listo",
-    fileTypeWarning: "Por favor seleccione solo un archivo de imagen",
+    fileTypeWarning: "Por favor seleccione solo una imagen o un PDF",
     dailyLimit: "Límite diario",
     remaining: "Restante",
     freeTierNote: "Basado en Gemini Free Tier",
     plan: "Plan activo",
+    ocrProvider: "Motor OCR",
+    ocrProviderDesc: "Servicio al que se envían las imágenes para extraer texto",
+    providerBaseUrl: "URL base",
+    providerModel: "Modelo",
+    providerApiKey: "Clave API del servicio",
+    tesseractLanguages: "Idiomas de reconocimiento (ej. spa+eng)",
+    loadingRenderingPdf: "Renderizando páginas PDF...",
+    page: "Página",
+    batchQueue: "Cola de procesamiento por lotes",
+    batchStatusPending: "Pendiente",
+    batchStatusRunning: "En proceso",
+    batchStatusDone: "Hecho",
+    batchStatusFailed: "Fallido",
+    batchStatusRetry: "Reintentando",
+    pause: "Pausar",
+    resume: "Reanudar",
+    cancel: "Cancelar",
+    clear: "Limpiar",
+    concurrency: "Concurrencia",
+    openInEditor: "Abrir en el editor",
+    exportAll: "Exportar todo a Word",
+    retry: "Reintentar",
+    remove: "Eliminar",
+    cancelled: "Cancelado",
+    layoutMode: "Modo de diseño",
+    layoutModeDesc: "Recibir bloques y líneas con su posición en la imagen",
+    confidence: "Confianza",
+    extractionMode: "Modo de extracción",
+    textMode: "Texto plano",
+    tableMode: "Tabla",
+    tableModeDesc: "Detectar tablas en facturas y formularios, exportar a Excel y CSV",
+    textView: "Texto",
+    addRow: "Añadir fila",
+    addColumn: "Añadir columna",
+    history: "Historial",
+    historyEmpty: "Todavía no hay resultados guardados.",
+    historyStorage: "Almacenamiento usado",
+    historyEdited: "Editado",
+    confirmClearHistory: "¿Eliminar todos los resultados guardados?",
+    searchHistory: "Buscar en los resultados...",
+    noSearchResults: "No se encontraron coincidencias.",
+    preprocessing: "Preprocesamiento de imagen",
+    preprocessingDesc: "Para fotos de móvil de documentos torcidos, oscuros o con sombras.",
+    autoRotate: "Rotación automática (EXIF)",
+    deskew: "Enderezar",
+    grayscale: "Escala de grises",
+    autoContrast: "Contraste automático",
+    denoise: "Eliminar ruido",
+    binarize: "Binarización adaptativa",
+    before: "Antes",
+    after: "Después",
+    loadingPreprocessing: "Mejorando la imagen...",
+    regionSelect: "Selección de regiones",
+    regionSelectDesc: "Elige partes de la imagen antes de extraer",
+    regionSelectHelp: "Arrastra sobre la imagen para marcar regiones; se leen en el orden de la lista.",
+    region: "Región",
+    wholeImage: "Imagen completa",
+    extract: "Extraer texto",
+    moveUp: "Subir",
+    moveDown: "Bajar",
+    perspective: "Corrección de perspectiva",
+    perspectiveDesc: "Aplanar fotos de páginas tomadas en ángulo",
+    perspectiveHelp: "Arrastra las esquinas a los bordes de la página.",
+    autoDetect: "Detección automática",
+    useOriginal: "Usar original",
+    apply: "Aplicar",
+    loadingFlattening: "Aplanando la página...",
+    tiling: "Dividir imágenes grandes",
+    tilingDesc: "Leer capturas largas y escaneos grandes sin reducir, incluso en modo Eco",
+    tile: "Parte",
+    errorInvalidKey: "La clave API no es válida. Revisa tu clave.",
+    errorMissingKey: "No se encontró la clave API. Introdúcela en Ajustes.",
+    errorQuota: "Se superó la cuota de solicitudes. Inténtalo de nuevo en breve.",
+    errorSafety: "La respuesta fue bloqueada por los filtros de seguridad.",
+    errorNetwork: "Error de red. Comprueba tu conexión.",
+    errorServer: "El servicio OCR no está disponible. Inténtalo más tarde.",
+    errorEmpty: "No se encontró texto en esta imagen.",
+    errorUnknown: "No se pudo extraer el texto de la imagen",
+    retryingIn: "Reintentando en",
+    rerun: "Volver a ejecutar",
+    rerunDesc: "Extraer de nuevo sin usar la caché de resultados",
+    fromCache: "Cargado desde la caché",
+    toastFromCache: "Esta imagen ya se leyó con la misma configuración, así que no se envió ninguna solicitud. Usa Volver a ejecutar para leerla de nuevo.",
+    errorKeysExhausted: "Todas las claves API han alcanzado su cuota. Añade otra clave o inténtalo más tarde.",
+    keyRotation: "Rotación de claves",
+    keyRotationDesc: "Rotativo reparte las solicitudes entre las claves; conmutación usa la primera clave hasta agotarla.",
+    rotationRoundRobin: "Rotativo",
+    rotationFailover: "Conmutación",
+    keyLabel: "Etiqueta",
+    builtInKey: "Clave integrada",
+    validateKey: "Comprobar clave",
+    keyDuplicate: "Esta clave ya está en la lista.",
+    resetTimeZone: "Zona horaria de reinicio",
+    addKey: "Añadir",
+    apiKeysHelp: "Las claves se guardan solo en tu navegador. Cuando una clave alcanza su límite diario, las solicitudes pasan a la siguiente.",
+    errorKeysLocked: "Tus claves API están bloqueadas. Desbloquéalas con tu frase de contraseña para continuar.",
+    wrongPassphrase: "Frase de contraseña incorrecta.",
+    unlockKeys: "Desbloquear claves API",
+    unlockKeysDesc: "Tus claves API están cifradas. Introduce tu frase de contraseña para usarlas.",
+    unlockLater: "Más tarde",
+    unlock: "Desbloquear",
+    passphrase: "Frase de contraseña",
+    confirmPassphrase: "Confirmar frase de contraseña",
+    passphraseMismatch: "Las frases de contraseña no coinciden.",
+    passphraseHint: "Al menos 8 caracteres. La frase no se guarda; si la olvidas, las claves no se pueden recuperar.",
+    keyEncryption: "Cifrado de claves",
+    keyEncryptionDesc: "Cifra las claves guardadas con una frase de contraseña.",
+    keyEncryptionOn: "Las claves están cifradas y desbloqueadas.",
+    keysLocked: "Las claves están bloqueadas.",
+    encryptKeys: "Cifrar",
+    lockNow: "Bloquear ahora",
+    autoLock: "Bloqueo automático tras",
+    autoLockNever: "Nunca",
+    minutes: "min",
+    disableEncryption: "Quitar cifrado",
+    confirmDisableEncryption: "Las claves se guardarán sin cifrar en este navegador. ¿Continuar?",
+    allowUrlKey: "Permitir importar una clave desde el parámetro ?key= de la URL",
+    urlKeyIgnored: "Se ignoró la clave de la URL; la importación desde la URL está desactivada en Ajustes.",
+    undo: "Deshacer",
+    redo: "Rehacer",
+    revertOriginal: "Volver al texto extraído",
+    showChanges: "Mostrar cambios",
+    noChanges: "Sin cambios respecto al texto extraído.",
+    wordsAdded: "añadidas",
+    wordsRemoved: "eliminadas",
+    normalizer: "Normalización de texto persa",
+    normalizerDesc: "Estas reglas se aplican al texto tras la extracción y lo ordenan sin cambiar su significado.",
+    normalizeArabicLetters: "ي y ك árabes a ی y ک persas",
+    normalizeZwnj: "Medio espacio (ZWNJ) para prefijos y sufijos",
+    normalizePunctuation: "Corregir espacios alrededor de la puntuación",
+    normalizeKashida: "Eliminar kashida (ـ)",
+    normalizeWhitespace: "Unir espacios repetidos",
+    normalizeDigits: "Convertir dígitos a persa",
+    postProcessing: "Posprocesamiento",
+    postProcessingDesc: "Los pasos activos se aplican al texto extraído en el orden de la lista. Importa o exporta las reglas como JSON para compartirlas con tu equipo.",
+    builtinOptionLetters: "Numerar las opciones الف) ب) ج) د)",
+    builtinCollapseBlankLines: "Unir líneas en blanco consecutivas",
+    addRule: "Añadir regla",
+    ruleName: "Nombre de la regla",
+    findPattern: "Buscar",
+    replaceWith: "Reemplazar con",
+    useRegex: "Expresión regular",
+    caseSensitive: "Distinguir mayúsculas",
+    importRules: "Importar reglas (JSON)",
+    exportRules: "Exportar reglas (JSON)",
+    rulesImported: "Reglas importadas. Guarda la configuración para aplicarlas.",
+    rulesImportFailed: "Este archivo no contiene reglas válidas.",
+    invalidPattern: "Patrón no válido",
+    findReplace: "Buscar y reemplazar",
+    wholeWord: "Palabra completa",
+    ignoreLetterVariants: "Ignorar ZWNJ y formas árabes/persas de las letras (ي/ی, ك/ک)",
+    previousMatch: "Coincidencia anterior",
+    nextMatch: "Coincidencia siguiente",
+    close: "Cerrar",
+    replace: "Reemplazar",
+    replaceAll: "Reemplazar todo",
+    revertRaw: "Volver a la salida sin procesar del modelo (antes del posprocesado)",
   },
   ru: {
     title: "AxKhan Pro",
@@ -438,7 +1537,7 @@ export const translations = {
     editor: "Текстовый редактор",
     copy: "Копировать",
     copied: "Скопировано",
-    export: "Экспорт в Word",
+    export: "Экспорт",
     downloaded: "Скачано",
     image: "Изображение",
     originalImage: "Оригинал",
@@ -475,11 +1574,168 @@ export const translations = {
     toastInfo: "Инфо",
     copySuccess: "Текст скопирован",
     exportSuccess: "Файл Word готов",
-    fileTypeWarning: "Пожалуйста, выберите только файл изображения",
+    fileTypeWarning: "Пожалуйста, выберите только изображение или PDF",
     dailyLimit: "Дневной лимит",
     remaining: "Осталось",
     freeTierNote: "На основе бесплатного плана Gemini",
     plan: "Активный план",
+    ocrProvider: "Движок OCR",
+    ocrProviderDesc: "Сервис, которому отправляются изображения для распознавания",
+    providerBaseUrl: "Базовый URL",
+    providerModel: "Модель",
+    providerApiKey: "API ключ сервиса",
+    tesseractLanguages: "Языки распознавания (напр. rus+eng)",
+    loadingRenderingPdf: "Подготовка страниц PDF...",
+    page: "Страница",
+    batchQueue: "Пакетная очередь",
+    batchStatusPending: "Ожидание",
+    batchStatusRunning: "Выполняется",
+    batchStatusDone: "Готово",
+    batchStatusFailed: "Ошибка",
+    batchStatusRetry: "Повтор",
+    pause: "Пауза",
+    resume: "Продолжить",
+    cancel: "Отмена",
+    clear: "Очистить",
+    concurrency: "Параллельность",
+    openInEditor: "Открыть в редакторе",
+    exportAll: "Экспорт всего в Word",
+    retry: "Повторить",
+    remove: "Удалить",
+    cancelled: "Отменено",
+    layoutMode: "Режим разметки",
+    layoutModeDesc: "Получать блоки и строки с их положением на изображении",
+    confidence: "Уверенность",
+    extractionMode: "Режим извлечения",
+    textMode: "Простой текст",
+    tableMode: "Таблица",
+    tableModeDesc: "Распознавание таблиц в счетах и формах, экспорт в Excel и CSV",
+    textView: "Текст",
+    addRow: "Добавить строку",
+    addColumn: "Добавить столбец",
+    history: "История",
+    historyEmpty: "Сохранённых результатов пока нет.",
+    historyStorage: "Занято места",
+    historyEdited: "Изменено",
+    confirmClearHistory: "Удалить все сохранённые результаты?",
+    searchHistory: "Поиск по результатам...",
+    noSearchResults: "Совпадений не найдено.",
+    preprocessing: "Предобработка изображения",
+    preprocessingDesc: "Для фотографий перекошенных, тёмных или затенённых документов.",
+    autoRotate: "Автоповорот (EXIF)",
+    deskew: "Выравнивание наклона",
+    grayscale: "Оттенки серого",
+    autoContrast: "Автоконтраст",
+    denoise: "Шумоподавление",
+    binarize: "Адаптивная бинаризация",
+    before: "До",
+    after: "После",
+    loadingPreprocessing: "Улучшение изображения...",
+    regionSelect: "Выбор областей",
+    regionSelectDesc: "Выберите части изображения перед распознаванием",
+    regionSelectHelp: "Выделите области на изображении; они читаются в порядке списка.",
+    region: "Область",
+    wholeImage: "Всё изображение",
+    extract: "Распознать текст",
+    moveUp: "Вверх",
+    moveDown: "Вниз",
+    perspective: "Коррекция перспективы",
+    perspectiveDesc: "Выпрямление страниц, снятых под углом",
+    perspectiveHelp: "Перетащите углы к краям страницы.",
+    autoDetect: "Автоопределение",
+    useOriginal: "Использовать оригинал",
+    apply: "Применить",
+    loadingFlattening: "Выпрямление страницы...",
+    tiling: "Разбивка больших изображений",
+    tilingDesc: "Длинные скриншоты и большие сканы без уменьшения, даже в эко режиме",
+    tile: "Фрагмент",
+    errorInvalidKey: "Недействительный API-ключ. Проверьте ваш ключ.",
+    errorMissingKey: "API-ключ не найден. Введите его в настройках.",
+    errorQuota: "Превышена квота запросов. Повторите попытку позже.",
+    errorSafety: "Ответ заблокирован фильтрами безопасности.",
+    errorNetwork: "Ошибка сети. Проверьте подключение.",
+    errorServer: "Сервис OCR недоступен. Повторите попытку позже.",
+    errorEmpty: "Текст на изображении не найден.",
+    errorUnknown: "Не удалось извлечь текст из изображения",
+    retryingIn: "Повтор через",
+    rerun: "Повторить",
+    rerunDesc: "Распознать заново, не используя кэш результатов",
+    fromCache: "Загружено из кэша",
+    toastFromCache: "Это изображение уже распознавалось с теми же настройками, поэтому запрос не отправлялся. Нажмите «Повторить», чтобы распознать заново.",
+    errorKeysExhausted: "Все API-ключи исчерпали квоту. Добавьте другой ключ или повторите попытку позже.",
+    keyRotation: "Ротация ключей",
+    keyRotationDesc: "По кругу распределяет запросы между ключами; резервный режим использует первый ключ до исчерпания.",
+    rotationRoundRobin: "По кругу",
+    rotationFailover: "Резервный",
+    keyLabel: "Метка",
+    builtInKey: "Встроенный ключ",
+    validateKey: "Проверить ключ",
+    keyDuplicate: "Этот ключ уже есть в списке.",
+    resetTimeZone: "Часовой пояс сброса",
+    addKey: "Добавить",
+    apiKeysHelp: "Ключи хранятся только в вашем браузере. Когда ключ достигает дневного лимита, запросы переходят к следующему.",
+    errorKeysLocked: "Ваши API-ключи заблокированы. Разблокируйте их парольной фразой, чтобы продолжить.",
+    wrongPassphrase: "Неверная парольная фраза.",
+    unlockKeys: "Разблокировать API-ключи",
+    unlockKeysDesc: "Ваши API-ключи зашифрованы. Введите парольную фразу, чтобы использовать их.",
+    unlockLater: "Позже",
+    unlock: "Разблокировать",
+    passphrase: "Парольная фраза",
+    confirmPassphrase: "Подтвердите парольную фразу",
+    passphraseMismatch: "Парольные фразы не совпадают.",
+    passphraseHint: "Не менее 8 символов. Фраза нигде не хранится; если вы её забудете, ключи восстановить нельзя.",
+    keyEncryption: "Шифрование ключей",
+    keyEncryptionDesc: "Шифровать сохранённые ключи парольной фразой.",
+    keyEncryptionOn: "Ключи зашифрованы и разблокированы.",
+    keysLocked: "Ключи заблокированы.",
+    encryptKeys: "Зашифровать",
+    lockNow: "Заблокировать",
+    autoLock: "Автоблокировка через",
+    autoLockNever: "Никогда",
+    minutes: "мин",
+    disableEncryption: "Снять шифрование",
+    confirmDisableEncryption: "Ключи будут храниться в этом браузере без шифрования. Продолжить?",
+    allowUrlKey: "Разрешить импорт ключа из параметра URL ?key=",
+    urlKeyIgnored: "Ключ из URL проигнорирован: импорт ключей из URL отключён в настройках.",
+    undo: "Отменить",
+    redo: "Повторить",
+    revertOriginal: "Вернуть распознанный текст",
+    showChanges: "Показать изменения",
+    noChanges: "Нет изменений относительно распознанного текста.",
+    wordsAdded: "добавлено",
+    wordsRemoved: "удалено",
+    normalizer: "Нормализация персидского текста",
+    normalizerDesc: "Эти правила применяются к тексту после распознавания и приводят его в порядок, не меняя смысла.",
+    normalizeArabicLetters: "Арабские ي и ك в персидские ی и ک",
+    normalizeZwnj: "Полупробел (ZWNJ) для приставок и суффиксов",
+    normalizePunctuation: "Исправить пробелы вокруг знаков препинания",
+    normalizeKashida: "Удалить кашиду (ـ)",
+    normalizeWhitespace: "Сжимать повторяющиеся пробелы",
+    normalizeDigits: "Преобразовать цифры в персидские",
+    postProcessing: "Постобработка",
+    postProcessingDesc: "Включённые шаги применяются к распознанному тексту в порядке списка. Правила можно импортировать или экспортировать в JSON, чтобы делиться ими с командой.",
+    builtinOptionLetters: "Нумеровать варианты الف) ب) ج) د)",
+    builtinCollapseBlankLines: "Сжимать подряд идущие пустые строки",
+    addRule: "Добавить правило",
+    ruleName: "Название правила",
+    findPattern: "Найти",
+    replaceWith: "Заменить на",
+    useRegex: "Регулярное выражение",
+    caseSensitive: "С учётом регистра",
+    importRules: "Импорт правил (JSON)",
+    exportRules: "Экспорт правил (JSON)",
+    rulesImported: "Правила импортированы. Сохраните настройки, чтобы применить их.",
+    rulesImportFailed: "Файл не содержит корректных правил.",
+    invalidPattern: "Неверный шаблон",
+    findReplace: "Найти и заменить",
+    wholeWord: "Слово целиком",
+    ignoreLetterVariants: "Игнорировать ZWNJ и арабские/персидские формы букв (ي/ی, ك/ک)",
+    previousMatch: "Предыдущее совпадение",
+    nextMatch: "Следующее совпадение",
+    close: "Закрыть",
+    replace: "Заменить",
+    replaceAll: "Заменить все",
+    revertRaw: "Вернуть исходный вывод модели (до постобработки)",
   },
   zh: {
     title: "AxKhan Pro",
@@ -498,7 +1754,7 @@ export const translations = {
     editor: "文本编辑器",
     copy: "复制文本",
     copied: "已复制",
-    export: "导出 Word",
+    export: "导出",
     downloaded: "已下载",
     image: "图片",
     originalImage: "原图",
@@ -535,10 +1791,167 @@ export const translations = {
     toastInfo: "信息",
     copySuccess: "文本复制成功",
     exportSuccess: "Word 文件就绪",
-    fileTypeWarning: "请仅选择图像文件",
+    fileTypeWarning: "请仅选择图像或 PDF 文件",
     dailyLimit: "每日限制",
     remaining: "剩余",
     freeTierNote: "基于 Gemini 免费套餐",
     plan: "当前计划",
+    ocrProvider: "OCR 引擎",
+    ocrProviderDesc: "用于提取文本的图像处理服务",
+    providerBaseUrl: "基础 URL",
+    providerModel: "模型",
+    providerApiKey: "服务 API 密钥",
+    tesseractLanguages: "识别语言（例如 chi_sim+eng）",
+    loadingRenderingPdf: "正在渲染 PDF 页面...",
+    page: "页",
+    batchQueue: "批量处理队列",
+    batchStatusPending: "等待中",
+    batchStatusRunning: "处理中",
+    batchStatusDone: "完成",
+    batchStatusFailed: "失败",
+    batchStatusRetry: "重试中",
+    pause: "暂停",
+    resume: "继续",
+    cancel: "取消",
+    clear: "清空",
+    concurrency: "并发数",
+    openInEditor: "在编辑器中打开",
+    exportAll: "全部导出为 Word",
+    retry: "重试",
+    remove: "移除",
+    cancelled: "已取消",
+    layoutMode: "版面模式",
+    layoutModeDesc: "获取文本块和行及其在图像中的位置",
+    confidence: "置信度",
+    extractionMode: "提取模式",
+    textMode: "纯文本",
+    tableMode: "表格",
+    tableModeDesc: "识别发票和表单中的表格，导出为 Excel 和 CSV",
+    textView: "文本",
+    addRow: "添加行",
+    addColumn: "添加列",
+    history: "历史记录",
+    historyEmpty: "暂无保存的结果。",
+    historyStorage: "已用存储",
+    historyEdited: "已编辑",
+    confirmClearHistory: "删除所有已保存的结果？",
+    searchHistory: "搜索结果...",
+    noSearchResults: "未找到匹配项。",
+    preprocessing: "图像预处理",
+    preprocessingDesc: "适用于倾斜、昏暗或有阴影的文档手机照片。",
+    autoRotate: "自动旋转 (EXIF)",
+    deskew: "纠正倾斜",
+    grayscale: "灰度",
+    autoContrast: "自动对比度",
+    denoise: "降噪",
+    binarize: "自适应二值化",
+    before: "处理前",
+    after: "处理后",
+    loadingPreprocessing: "正在增强图像...",
+    regionSelect: "区域选择",
+    regionSelectDesc: "提取前选择图像的部分区域",
+    regionSelectHelp: "在图像上拖动以标记区域；按列表顺序读取。",
+    region: "区域",
+    wholeImage: "整张图像",
+    extract: "提取文本",
+    moveUp: "上移",
+    moveDown: "下移",
+    perspective: "透视校正",
+    perspectiveDesc: "校正斜拍的页面照片",
+    perspectiveHelp: "将角点拖到页面边缘。",
+    autoDetect: "自动检测",
+    useOriginal: "使用原图",
+    apply: "应用",
+    loadingFlattening: "正在校正页面...",
+    tiling: "大图分块",
+    tilingDesc: "无需缩小即可读取长截图和大扫描件，经济模式下也是如此",
+    tile: "分块",
+    errorInvalidKey: "API 密钥无效，请检查您的密钥。",
+    errorMissingKey: "未找到 API 密钥，请在设置中输入。",
+    errorQuota: "请求配额已用尽，请稍后重试。",
+    errorSafety: "响应被安全过滤器拦截。",
+    errorNetwork: "网络错误，请检查您的连接。",
+    errorServer: "OCR 服务不可用，请稍后重试。",
+    errorEmpty: "此图像中未找到文本。",
+    errorUnknown: "从图像中提取文本失败",
+    retryingIn: "重试倒计时",
+    rerun: "重新识别",
+    rerunDesc: "不使用结果缓存重新识别",
+    fromCache: "已从缓存加载",
+    toastFromCache: "此图片已使用相同设置识别过，因此未发送请求。点击“重新识别”可再次识别。",
+    errorKeysExhausted: "所有 API 密钥均已达到配额。请添加其他密钥或稍后重试。",
+    keyRotation: "密钥轮换",
+    keyRotationDesc: "轮询会在各密钥间分配请求；故障转移会一直使用第一个密钥直到用尽。",
+    rotationRoundRobin: "轮询",
+    rotationFailover: "故障转移",
+    keyLabel: "标签",
+    builtInKey: "内置密钥",
+    validateKey: "验证密钥",
+    keyDuplicate: "该密钥已在列表中。",
+    resetTimeZone: "重置时区",
+    addKey: "添加",
+    apiKeysHelp: "密钥仅保存在您的浏览器中。当某个密钥达到每日上限时，请求将转到下一个密钥。",
+    errorKeysLocked: "您的 API 密钥已锁定。请使用密码短语解锁后继续。",
+    wrongPassphrase: "密码短语不正确。",
+    unlockKeys: "解锁 API 密钥",
+    unlockKeysDesc: "您的 API 密钥已加密。请输入密码短语以使用它们。",
+    unlockLater: "稍后",
+    unlock: "解锁",
+    passphrase: "密码短语",
+    confirmPassphrase: "确认密码短语",
+    passphraseMismatch: "两次输入的密码短语不一致。",
+    passphraseHint: "至少 8 个字符。密码短语不会被保存；如果忘记，密钥将无法恢复。",
+    keyEncryption: "密钥加密",
+    keyEncryptionDesc: "使用密码短语加密已保存的密钥。",
+    keyEncryptionOn: "密钥已加密且已解锁。",
+    keysLocked: "密钥已锁定。",
+    encryptKeys: "加密",
+    lockNow: "立即锁定",
+    autoLock: "自动锁定时间",
+    autoLockNever: "从不",
+    minutes: "分钟",
+    disableEncryption: "移除加密",
+    confirmDisableEncryption: "密钥将以未加密形式保存在此浏览器中。是否继续？",
+    allowUrlKey: "允许通过 URL 参数 ?key= 导入密钥",
+    urlKeyIgnored: "已忽略 URL 中的密钥；设置中已禁用从 URL 导入密钥。",
+    undo: "撤销",
+    redo: "重做",
+    revertOriginal: "恢复为识别的原文",
+    showChanges: "显示更改",
+    noChanges: "与识别的原文相比没有更改。",
+    wordsAdded: "个词新增",
+    wordsRemoved: "个词删除",
+    normalizer: "波斯语文本规范化",
+    normalizerDesc: "这些规则在提取后作用于文本，在不改变含义的前提下进行整理。",
+    normalizeArabicLetters: "阿拉伯字母 ي 和 ك 转为波斯字母 ی 和 ک",
+    normalizeZwnj: "前缀和后缀使用零宽非连接符",
+    normalizePunctuation: "修正标点符号周围的空格",
+    normalizeKashida: "删除延长符 (ـ)",
+    normalizeWhitespace: "合并重复空格",
+    normalizeDigits: "将数字转换为波斯数字",
+    postProcessing: "后处理",
+    postProcessingDesc: "启用的步骤按列表顺序作用于提取的文本。可将规则导入或导出为 JSON，与团队共享。",
+    builtinOptionLetters: "将 الف) ب) ج) د) 选项改为数字",
+    builtinCollapseBlankLines: "合并连续空行",
+    addRule: "添加规则",
+    ruleName: "规则名称",
+    findPattern: "查找",
+    replaceWith: "替换为",
+    useRegex: "正则表达式",
+    caseSensitive: "区分大小写",
+    importRules: "导入规则 (JSON)",
+    exportRules: "导出规则 (JSON)",
+    rulesImported: "规则已导入。保存设置后生效。",
+    rulesImportFailed: "该文件不包含有效的规则。",
+    invalidPattern: "无效的模式",
+    findReplace: "查找和替换",
+    wholeWord: "全字匹配",
+    ignoreLetterVariants: "忽略零宽非连接符及阿拉伯/波斯字母变体 (ي/ی, ك/ک)",
+    previousMatch: "上一个匹配",
+    nextMatch: "下一个匹配",
+    close: "关闭",
+    replace: "替换",
+    replaceAll: "全部替换",
+    revertRaw: "恢复为模型原始输出（后处理之前）",
   }
 };
\ No newline at end of file